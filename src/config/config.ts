@@ -7,9 +7,41 @@ const config = {
   port: process.env.PORT || 5000,
   mongodbUri: process.env.MONGODB_URI || '',
   jwtSecret: process.env.JWT_SECRET || '',
+  // Keys for channel bot tokens at rest: <keyId>:<base64 32-byte key>[,<oldKeyId>:<key>...]
+  botTokenEncryptionKeys: process.env.BOT_TOKEN_ENCRYPTION_KEYS || '',
   nodeEnv: process.env.NODE_ENV || 'development',
   telegramBotToken: process.env.TELEGRAM_BOT_TOKEN || '',
+  // Bot API base URL, overridden to point at a local Bot API server or the fake server in tests
+  telegramApiUrl: (process.env.TELEGRAM_API_URL || 'https://api.telegram.org').replace(/\/+$/, ''),
+  // Public HTTPS base URL of this API; channel bots deliver updates to <url>/api/telegram/webhook/<botId>
+  telegramWebhookUrl: (process.env.TELEGRAM_WEBHOOK_URL || '').replace(/\/+$/, ''),
+  // Secret the per-bot webhook secret tokens are derived from, JWT_SECRET when not set
+  telegramWebhookSecret: process.env.TELEGRAM_WEBHOOK_SECRET || '',
+  // webhook, polling (getUpdates, for local development) or off
+  // Defaults to webhook when TELEGRAM_WEBHOOK_URL is set, otherwise polling outside production
+  telegramUpdatesMode: process.env.TELEGRAM_UPDATES_MODE
+    || (process.env.TELEGRAM_WEBHOOK_URL ? 'webhook' : process.env.NODE_ENV === 'production' ? 'off' : 'polling'),
+  // Limits of outgoing Bot API calls, the flood limits Telegram documents by default
+  telegramRateLimit: {
+    perBotPerSecond: Number(process.env.TELEGRAM_RATE_LIMIT_PER_BOT) || 30,
+    perChatPerMinute: Number(process.env.TELEGRAM_RATE_LIMIT_PER_CHAT) || 20,
+  },
   openaiApiKey: process.env.OPENAI_API_KEY || '',
+  storage: {
+    // local - uploads/ folder on this server, s3 - S3-compatible bucket (AWS S3, MinIO, ...)
+    driver: process.env.STORAGE_DRIVER || 'local',
+    s3: {
+      endpoint: process.env.S3_ENDPOINT || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      bucket: process.env.S3_BUCKET || '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      // MinIO and most self-hosted servers need bucket in the path instead of the host name
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+      // Public base URL of the bucket (e.g. a CDN), defaults to the bucket URL
+      publicUrl: process.env.S3_PUBLIC_URL || '',
+    },
+  },
   stripe: {
     publishableKey: process.env.NODE_ENV === 'production' 
       ? process.env.STRIPE_PUBLISHABLE_KEY || ''
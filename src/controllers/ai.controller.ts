@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import OpenAI from 'openai';
 import CreditService, { AI_OPERATION_COSTS } from '../services/credit.service';
+import storageService from '../services/storage.service';
 import config from '../config/config';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -294,19 +295,21 @@ export const generateImageFromImage = async (req: Request, res: Response) => {
         n: 1,
         size: "1024x1024",
         quality: "standard",
-        response_format: "url"
+        response_format: "b64_json"
       });
       
       // Используем кредиты
       await CreditService.useCredits(userId, operationCost);
       
-      // Получаем URL сгенерированного изображения
-      const generatedImageUrl = response.data?.[0]?.url || '';
+      // Сохраняем изображение у себя: ссылки OpenAI истекают примерно через час
+      const imageData = response.data?.[0]?.b64_json;
       
-      if (!generatedImageUrl) {
-        throw new Error('Error getting image URL');
+      if (!imageData) {
+        throw new Error('Error getting image data');
       }
       
+      const generatedImageUrl = await storageService.saveGeneratedImage(userId, Buffer.from(imageData, 'base64'));
+      
       console.log('Successfully generated image with DALL-E 3');
       
       return res.status(200).json({
@@ -443,19 +446,21 @@ export const generateImage = async (req: Request, res: Response) => {
       n: 1,
       size: "1024x1024", // другие опции: "1024x1024", "1792x1024", "1024x1792"
      quality: "standard", // или "hd" (только для dall-e-3),
-      response_format: "url"
+      response_format: "b64_json"
     });
 
     // Use credits
     await CreditService.useCredits(userId, operationCost);
 
-    // Get the generated image URL
-    const imageUrl = response.data?.[0]?.url || '';
+    // Сохраняем изображение у себя: ссылки OpenAI истекают примерно через час
+    const imageData = response.data?.[0]?.b64_json;
     
-    if (!imageUrl) {
-      throw new Error('Ошибка при получении URL изображения');
+    if (!imageData) {
+      throw new Error('Ошибка при получении изображения');
     }
 
+    const imageUrl = await storageService.saveGeneratedImage(userId, Buffer.from(imageData, 'base64'));
+
     return res.status(200).json({
       success: true,
       data: {
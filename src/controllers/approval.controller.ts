@@ -0,0 +1,212 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import ScheduledPost from '../models/scheduled-post.model';
+import ScheduledPoll from '../models/scheduled-poll.model';
+import { APPROVAL_STATUSES, ApprovalStatus } from '../models/approval.model';
+import approvalService, { ApprovalResult, ReviewItem, ReviewItemType } from '../services/approval.service';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+// URL segment of each item type
+const ITEM_TYPES: Record<string, ReviewItemType> = {
+  posts: 'post',
+  polls: 'poll',
+};
+
+/**
+ * Find an unpublished item with a review state by the :type and :id route parameters
+ */
+const findReviewItem = async (req: Request): Promise<{ type: ReviewItemType; item: ReviewItem } | null> => {
+  const type = ITEM_TYPES[req.params.type];
+  if (!type || !mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return null;
+  }
+
+  const filter = { _id: req.params.id, published: false, approval: { $ne: null } };
+  const item = type === 'post' ? await ScheduledPost.findOne(filter) : await ScheduledPoll.findOne(filter);
+  return item ? { type, item } : null;
+};
+
+/**
+ * Validate an optional comment from the request body
+ * @returns Error message or null if the comment is valid
+ */
+const validateComment = (comment: unknown, required: boolean): string | null => {
+  if (comment === undefined || comment === null || comment === '') {
+    return required ? 'A comment is required' : null;
+  }
+  if (typeof comment !== 'string' || comment.length > MAX_COMMENT_LENGTH) {
+    return `Comment must be a string of up to ${MAX_COMMENT_LENGTH} characters`;
+  }
+  return null;
+};
+
+const sendResult = (res: Response, result: ApprovalResult, item: ReviewItem, message: string) => {
+  if (!result.success) {
+    return res.status(result.status).json({
+      success: false,
+      message: result.message,
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    message,
+    data: item,
+  });
+};
+
+/**
+ * Get the posts and polls waiting for the current user's review
+ * Query: status (pending_review by default)
+ */
+export const getReviewQueue = async (req: Request, res: Response) => {
+  try {
+    const status = (req.query.status as ApprovalStatus) || 'pending_review';
+    if (!APPROVAL_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Status must be one of: ${APPROVAL_STATUSES.join(', ')}`,
+      });
+    }
+
+    const queue = await approvalService.getReviewQueue(req.user!._id as mongoose.Types.ObjectId, status);
+
+    return res.status(200).json({
+      success: true,
+      data: queue,
+    });
+  } catch (error) {
+    console.error('Error getting review queue:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get review queue',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Send a draft or rejected post or poll to review (author only)
+ */
+export const submitForReview = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!._id as mongoose.Types.ObjectId;
+    const { comment } = req.body;
+
+    const commentError = validateComment(comment, false);
+    if (commentError) {
+      return res.status(400).json({
+        success: false,
+        message: commentError,
+      });
+    }
+
+    const found = await findReviewItem(req);
+    if (!found || !approvalService.isOwner(found.item, userId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Item not found, already published or does not require approval',
+      });
+    }
+
+    const result = await approvalService.submit(found.type, found.item, userId, comment || undefined);
+    return sendResult(res, result, found.item, 'Submitted for review');
+  } catch (error) {
+    console.error('Error submitting for review:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to submit for review',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Approve or reject a post or poll waiting for review (reviewers only)
+ * A rejection needs a comment for the author
+ */
+const reviewItem = async (req: Request, res: Response, decision: 'approved' | 'rejected') => {
+  try {
+    const userId = req.user!._id as mongoose.Types.ObjectId;
+    const { comment } = req.body;
+
+    const commentError = validateComment(comment, decision === 'rejected');
+    if (commentError) {
+      return res.status(400).json({
+        success: false,
+        message: commentError,
+      });
+    }
+
+    const found = await findReviewItem(req);
+    if (!found) {
+      return res.status(404).json({
+        success: false,
+        message: 'Item not found, already published or does not require approval',
+      });
+    }
+
+    if (!approvalService.isReviewer(found.item, userId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You are not a reviewer of this item',
+      });
+    }
+
+    const result = await approvalService.review(found.type, found.item, userId, decision, comment || undefined);
+    return sendResult(res, result, found.item, decision === 'approved' ? 'Approved' : 'Rejected');
+  } catch (error) {
+    console.error(`Error reviewing item (${decision}):`, error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to review item',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+export const approveItem = (req: Request, res: Response) => reviewItem(req, res, 'approved');
+
+export const rejectItem = (req: Request, res: Response) => reviewItem(req, res, 'rejected');
+
+/**
+ * Comment on a post or poll without changing its status (author and reviewers)
+ */
+export const addReviewComment = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!._id as mongoose.Types.ObjectId;
+    const { text } = req.body;
+
+    const commentError = validateComment(text, true);
+    if (commentError) {
+      return res.status(400).json({
+        success: false,
+        message: commentError,
+      });
+    }
+
+    const found = await findReviewItem(req);
+    if (!found || (!approvalService.isOwner(found.item, userId) && !approvalService.isReviewer(found.item, userId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Item not found, already published or does not require approval',
+      });
+    }
+
+    await approvalService.addComment(found.item, userId, text);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Comment added',
+      data: found.item,
+    });
+  } catch (error) {
+    console.error('Error adding review comment:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to add comment',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
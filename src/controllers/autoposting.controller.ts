@@ -2,11 +2,43 @@ import { Request, Response } from 'express';
 import mongoose from 'mongoose';
 import User, { IAutoPostingRule, Frequency, TimeUnit } from '../models/user.model';
 import { generateText, generateImage } from '../services/openai.service';
-import { publishToChannel } from '../services/telegram.service';
-import { calculateNextScheduledDate } from '../utils/dateUtils';
+import postPublisher from '../services/postPublisher.service';
+import { calculateRuleNextScheduledDate, isValidTimeZone, isValidTime, isValidTimeSlot, parseDateRange } from '../utils/dateUtils';
 import webScraperService from '../services/webScraper.service';
 import contentDuplicationService from '../services/contentDuplication.service';
 import logger from '../utils/logger';
+import publicationService from '../services/publication.service';
+import approvalService from '../services/approval.service';
+import analyticsService from '../services/analytics.service';
+import { CreditService } from '../services/credit.service';
+
+// More slots than this per day are better served by a custom interval
+const MAX_PREFERRED_TIMES = 24;
+
+/**
+ * Validate the time of day settings of a rule
+ * @returns Error message or null if the settings are valid
+ */
+const validatePreferredTimes = (preferredTime: unknown, preferredTimes: unknown): string | null => {
+  if (preferredTime && !isValidTime(preferredTime)) {
+    return 'preferredTime must be in HH:MM format';
+  }
+
+  if (preferredTimes === undefined || preferredTimes === null) {
+    return null;
+  }
+
+  if (!Array.isArray(preferredTimes) || preferredTimes.length > MAX_PREFERRED_TIMES) {
+    return `preferredTimes must be an array of at most ${MAX_PREFERRED_TIMES} time slots`;
+  }
+
+  const invalidSlot = preferredTimes.find(slot => !isValidTimeSlot(slot));
+  if (invalidSlot !== undefined) {
+    return `Invalid time slot "${invalidSlot}", use HH:MM or a window HH:MM-HH:MM`;
+  }
+
+  return null;
+};
 
 /**
  * Get all autoposting rules for the current user
@@ -120,6 +152,7 @@ export const createAutoPostingRule = async (req: Request, res: Response): Promis
       customInterval,
       customTimeUnit,
       preferredTime,
+      preferredTimes,
       preferredDays,
       channelId,
       imageGeneration,
@@ -127,7 +160,8 @@ export const createAutoPostingRule = async (req: Request, res: Response): Promis
       buttons,
       sourceUrls,
       avoidDuplication,
-      duplicateCheckDays
+      duplicateCheckDays,
+      timezone
     } = req.body;
 
     // Validate required fields
@@ -157,6 +191,23 @@ export const createAutoPostingRule = async (req: Request, res: Response): Promis
       return;
     }
 
+    if (timezone && !isValidTimeZone(timezone)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid timezone, use an IANA name such as Europe/Berlin'
+      });
+      return;
+    }
+
+    const timeError = validatePreferredTimes(preferredTime, preferredTimes);
+    if (timeError) {
+      res.status(400).json({
+        success: false,
+        message: timeError
+      });
+      return;
+    }
+
     const user = await User.findById(userId);
     if (!user) {
       res.status(404).json({
@@ -205,7 +256,9 @@ export const createAutoPostingRule = async (req: Request, res: Response): Promis
       customInterval,
       customTimeUnit,
       preferredTime: preferredTime || '12:00',
+      preferredTimes: preferredTimes || [],
       preferredDays: preferredDays || ['monday', 'wednesday', 'friday'],
+      timezone: timezone || null,
       channelId,
       imageGeneration: imageGeneration !== undefined ? imageGeneration : false,
       keywords: keywords || [],
@@ -214,16 +267,11 @@ export const createAutoPostingRule = async (req: Request, res: Response): Promis
       avoidDuplication: avoidDuplication || false,
       duplicateCheckDays: duplicateCheckDays || 7,
       contentHistory: [],
-      nextScheduled: calculateNextScheduledDate({
-        frequency,
-        customInterval,
-        customTimeUnit,
-        preferredTime,
-        preferredDays
-      }),
+      nextScheduled: null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
+    newRule.nextScheduled = calculateRuleNextScheduledDate(user, newRule);
 
     // Add rule to user
     if (!user.autoPostingRules) {
@@ -304,6 +352,7 @@ export const updateAutoPostingRule = async (req: Request, res: Response): Promis
       customInterval,
       customTimeUnit,
       preferredTime,
+      preferredTimes,
       preferredDays,
       channelId,
       imageGeneration,
@@ -311,7 +360,8 @@ export const updateAutoPostingRule = async (req: Request, res: Response): Promis
       buttons,
       sourceUrls,
       avoidDuplication,
-      duplicateCheckDays
+      duplicateCheckDays,
+      timezone
     } = req.body;
 
     // Update fields if provided
@@ -337,15 +387,44 @@ export const updateAutoPostingRule = async (req: Request, res: Response): Promis
       shouldRecalculateNextScheduled = true;
     }
     
+    if (preferredTime || preferredTimes !== undefined) {
+      const timeError = validatePreferredTimes(preferredTime, preferredTimes);
+      if (timeError) {
+        res.status(400).json({
+          success: false,
+          message: timeError
+        });
+        return;
+      }
+    }
+
     if (preferredTime) {
       rule.preferredTime = preferredTime;
       shouldRecalculateNextScheduled = true;
     }
+
+    if (preferredTimes !== undefined) {
+      rule.preferredTimes = preferredTimes || [];
+      shouldRecalculateNextScheduled = true;
+    }
     
     if (preferredDays) {
       rule.preferredDays = preferredDays;
       shouldRecalculateNextScheduled = true;
     }
+
+    // null falls back to the user's time zone
+    if (timezone !== undefined) {
+      if (timezone && !isValidTimeZone(timezone)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid timezone, use an IANA name such as Europe/Berlin'
+        });
+        return;
+      }
+      rule.timezone = timezone || null;
+      shouldRecalculateNextScheduled = true;
+    }
     
     if (channelId) {
       // Validate that the channel exists
@@ -400,13 +479,7 @@ export const updateAutoPostingRule = async (req: Request, res: Response): Promis
     
     // Recalculate next scheduled date if needed
     if (shouldRecalculateNextScheduled) {
-      rule.nextScheduled = calculateNextScheduledDate({
-        frequency: rule.frequency,
-        customInterval: rule.customInterval,
-        customTimeUnit: rule.customTimeUnit,
-        preferredTime: rule.preferredTime,
-        preferredDays: rule.preferredDays
-      });
+      rule.nextScheduled = calculateRuleNextScheduledDate(user, rule);
     }
     
     rule.updatedAt = new Date();
@@ -549,10 +622,61 @@ export const getAutoPostingHistory = async (req: Request, res: Response): Promis
   }
 };
 
+/**
+ * Compare autoposting rules by views and reactions of their posts
+ * Supports a publication date range (from/to)
+ */
+export const getAutoPostingAnalytics = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?._id;
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated'
+      });
+      return;
+    }
+
+    const range = parseDateRange(req.query.from, req.query.to);
+    if (!range) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid date format for from/to'
+      });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+      return;
+    }
+
+    const rules = await analyticsService.getRuleEngagement(user._id as mongoose.Types.ObjectId, user.autoPostingRules || [], range);
+
+    res.status(200).json({
+      success: true,
+      data: { rules }
+    });
+  } catch (error) {
+    logger.error('Error getting autoposting analytics:', { error: error instanceof Error ? error.message : 'Unknown error' });
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get autoposting analytics'
+    });
+  }
+};
+
 /**
  * Execute autoposting rule (for testing or manual trigger)
  */
 export const executeAutoPostingRule = async (req: Request, res: Response): Promise<void> => {
+  // Credits taken for this run, given back if it fails before the content goes out
+  let charge: { userId: mongoose.Types.ObjectId; credits: number } | null = null;
+
   try {
     const userId = req.user?._id;
     if (!userId) {
@@ -607,9 +731,19 @@ export const executeAutoPostingRule = async (req: Request, res: Response): Promi
       return;
     }
 
-    // Check if user has enough credits
+    // Find the channel for this rule
+    const channel = user.channels.find(ch => ch._id?.toString() === rule.channelId.toString());
+    if (!channel) {
+      res.status(404).json({
+        success: false,
+        message: 'Channel not found'
+      });
+      return;
+    }
+
+    // Take the credits up front; scheduled runs of other rules of the user may be running at the same time
     let requiredCredits = rule.imageGeneration ? 3 : 1; // 1 for text, +2 for image
-    if (user.aiCredits < requiredCredits) {
+    if (!(await CreditService.chargeCredits(user._id as mongoose.Types.ObjectId, requiredCredits))) {
       res.status(400).json({
         success: false,
         message: 'Not enough AI credits to execute autoposting rule',
@@ -620,6 +754,7 @@ export const executeAutoPostingRule = async (req: Request, res: Response): Promi
       });
       return;
     }
+    charge = { userId: user._id as mongoose.Types.ObjectId, credits: requiredCredits };
 
     // Generate content
     const topic = rule.topic;
@@ -773,7 +908,7 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
           ? `Create an image related to: ${sanitizedTopic}` 
           : `Create an abstract image related to finance and technology`;
         
-        generatedImageUrl = await generateImage(imagePrompt);
+        generatedImageUrl = await generateImage(imagePrompt, user._id as mongoose.Types.ObjectId);
       } catch (error) {
         logger.warn(`Failed to generate image for rule ${rule._id}, continuing without image`, {
           ruleId: rule._id,
@@ -784,33 +919,50 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
         // Just continue without an image
         generatedImageUrl = null;
         
-        // Adjust required credits since we're not generating an image
-        requiredCredits = 1; // Only charge for text generation
+        // Only charge for text generation
+        requiredCredits = 1;
+        await CreditService.refundCredits(charge.userId, 2);
+        charge.credits = requiredCredits;
       }
     }
 
-    // Find the channel for this rule
-    const channel = user.channels.find(ch => ch._id?.toString() === rule.channelId.toString());
-    if (!channel) {
-      res.status(404).json({
-        success: false,
-        message: 'Channel not found'
+    // Publish to Telegram; channels with approval get the output as a post waiting for review instead
+    const reviewPost = channel.approval?.enabled
+      ? await approvalService.createAutoPostingReviewPost(user, channel, {
+          text: generatedText,
+          imageUrl: generatedImageUrl || undefined,
+          buttons: rule.buttons,
+          imagePosition: rule.imagePosition || 'bottom'
+        })
+      : null;
+
+    const publishResult = reviewPost
+      ? { success: true, message: 'Waiting for approval' }
+      : await postPublisher.publish(channel.username, channel.botToken || '', {
+          text: generatedText,
+          imageUrl: generatedImageUrl || undefined,
+          buttons: rule.buttons,
+          imagePosition: rule.imagePosition || 'bottom' // Same default as scheduled autoposting
+        });
+
+    if (publishResult.success && !reviewPost) {
+      await publicationService.recordPublication({
+        userId: user._id as mongoose.Types.ObjectId,
+        channel,
+        chatId: publishResult.chatId || channel.username,
+        messageIds: publishResult.messageIds || [],
+        messages: publishResult.messages,
+        text: generatedText,
+        imageUrl: generatedImageUrl || undefined,
+        imagePosition: rule.imagePosition || 'bottom',
+        buttons: rule.buttons,
+        source: 'autoposting',
+        sourceId: rule._id?.toString()
       });
-      return;
     }
 
-    // Publish to Telegram
-    const publishResult = await publishToChannel({
-      channelUsername: channel.username,
-      botToken: channel.botToken || '',
-      text: generatedText,
-      imageUrl: generatedImageUrl || undefined,
-      buttons: rule.buttons
-    });
-
-    // Update user's credits
-    user.aiCredits -= requiredCredits;
-    user.totalCreditsUsed += requiredCredits;
+    // The credits are spent once the content went out or waits for review, even if Telegram rejected it
+    charge = null;
 
     // Update rule's lastPublished date
     rule.lastPublished = new Date();
@@ -838,13 +990,7 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
     }
     
     // Calculate and update next scheduled date
-    rule.nextScheduled = calculateNextScheduledDate({
-      frequency: rule.frequency,
-      customInterval: rule.customInterval,
-      customTimeUnit: rule.customTimeUnit,
-      preferredTime: rule.preferredTime,
-      preferredDays: rule.preferredDays
-    });
+    rule.nextScheduled = calculateRuleNextScheduledDate(user, rule);
 
     // Add to history
     if (!user.autoPostingHistory) {
@@ -854,12 +1000,12 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
     user.autoPostingHistory.push({
       ruleId: rule._id!,
       ruleName: rule.name,
-      postId: publishResult.messageId,
+      postId: reviewPost ? String(reviewPost._id) : publishResult.messageIds?.[0]?.toString(),
       content: generatedText,
       imageUrl: generatedImageUrl || undefined,
       buttons: rule.buttons,
-      status: publishResult.success ? 'success' : 'failed',
-      error: publishResult.success ? undefined : publishResult.error,
+      status: reviewPost ? 'pending_review' : publishResult.success ? 'success' : 'failed',
+      error: publishResult.success ? undefined : publishResult.message,
       publishedAt: new Date()
     });
 
@@ -869,13 +1015,20 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
       success: true,
       data: {
         publishResult,
+        reviewPost,
         rule,
         creditsUsed: requiredCredits
       },
-      message: 'Autoposting rule executed successfully'
+      message: reviewPost ? 'Autoposting rule executed, the post is waiting for approval' : 'Autoposting rule executed successfully'
     });
   } catch (error) {
     logger.error('Error executing autoposting rule:', { error: error instanceof Error ? error.message : 'Unknown error' });
+    if (charge) {
+      await CreditService.refundCredits(charge.userId, charge.credits)
+        .catch(refundError => logger.error('Error refunding credits of autoposting rule:', {
+          error: refundError instanceof Error ? refundError.message : 'Unknown error'
+        }));
+    }
     res.status(500).json({
       success: false,
       message: 'Failed to execute autoposting rule',
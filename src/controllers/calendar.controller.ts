@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import User from '../models/user.model';
+import calendarService, { CALENDAR_ENTRY_TYPES, CalendarEntryType } from '../services/calendar.service';
+import { parseDateRange } from '../utils/dateUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Range shown when from/to are not set
+const DEFAULT_RANGE_DAYS = 31;
+
+// Longer ranges would project thousands of autoposting runs
+const MAX_RANGE_DAYS = 92;
+
+/**
+ * Get the content calendar of the user
+ * Query: from, to (ISO dates, the next 31 days by default), channelId
+ */
+export const getCalendar = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    const { channelId } = req.query;
+
+    const range = parseDateRange(req.query.from, req.query.to);
+    if (!range) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date format for from/to',
+      });
+    }
+
+    const from = range.from || new Date();
+    const to = range.to || new Date(from.getTime() + DEFAULT_RANGE_DAYS * DAY_MS);
+    if (to < from) {
+      return res.status(400).json({
+        success: false,
+        message: 'from must be before to',
+      });
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return res.status(400).json({
+        success: false,
+        message: `The calendar range cannot be longer than ${MAX_RANGE_DAYS} days`,
+      });
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const entries = await calendarService.getEntries(user, {
+      from,
+      to,
+      channelId: channelId ? String(channelId) : undefined,
+    });
+
+    return res.status(200).json({
+      success: true,
+      data: { from, to, entries },
+    });
+  } catch (error) {
+    console.error('Error getting calendar:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get calendar',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Move a calendar entry to another date (drag and drop)
+ * Body: { type, id, scheduledDate, occurrenceDate } as returned by the calendar;
+ * occurrenceDate is the date of the occurrence or autoposting run being moved
+ */
+export const rescheduleCalendarEntry = async (req: Request, res: Response) => {
+  try {
+    const { type, id, scheduledDate, occurrenceDate } = req.body;
+    const userId = req.user?._id;
+
+    if (!CALENDAR_ENTRY_TYPES.includes(type) || !id || !scheduledDate) {
+      return res.status(400).json({
+        success: false,
+        message: `Missing required fields: type (${CALENDAR_ENTRY_TYPES.join(', ')}), id, scheduledDate`,
+      });
+    }
+
+    const scheduledDateObj = new Date(scheduledDate);
+    if (isNaN(scheduledDateObj.getTime()) || scheduledDateObj <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Scheduled date must be in the future',
+      });
+    }
+
+    const occurrenceDateObj = occurrenceDate ? new Date(occurrenceDate) : undefined;
+    if (occurrenceDateObj && isNaN(occurrenceDateObj.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date format for occurrenceDate',
+      });
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const result = await calendarService.reschedule(user, {
+      type: type as CalendarEntryType,
+      id: String(id),
+      date: scheduledDateObj,
+      occurrenceDate: occurrenceDateObj,
+    });
+
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.message,
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Calendar entry rescheduled successfully',
+      data: result.entry,
+    });
+  } catch (error) {
+    console.error('Error rescheduling calendar entry:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to reschedule calendar entry',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
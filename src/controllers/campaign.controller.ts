@@ -0,0 +1,434 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Campaign, { CampaignStagger } from '../models/campaign.model';
+import User from '../models/user.model';
+import campaignService, { CampaignContent, CampaignTarget, CampaignChannelOverride } from '../services/campaign.service';
+import schedulerService from '../services/scheduler.service';
+import { validateMedia, normalizeMedia } from '../utils/mediaUtils';
+
+const IMAGE_POSITIONS = ['top', 'bottom'];
+
+// A staggered campaign must be published within a week
+const MAX_STAGGER_MINUTES = 7 * 24 * 60;
+
+/**
+ * Read the stagger settings of a campaign from a request body
+ * Channels are spaced by spacingMinutes, or spread evenly over windowMinutes
+ * @returns The settings or an error message
+ */
+const parseStagger = (value: any, channelCount: number): { stagger?: CampaignStagger; error?: string } => {
+  if (!value || typeof value !== 'object') {
+    return { error: 'Stagger must be an object with spacingMinutes or windowMinutes' };
+  }
+
+  const { spacingMinutes, windowMinutes, jitterMinutes = 0, order = 'listed' } = value;
+  const isNonNegative = (minutes: unknown) => typeof minutes === 'number' && Number.isFinite(minutes) && minutes >= 0;
+
+  if ((spacingMinutes === undefined) === (windowMinutes === undefined)) {
+    return { error: 'Stagger needs either spacingMinutes or windowMinutes' };
+  }
+  if (spacingMinutes !== undefined && !isNonNegative(spacingMinutes)) {
+    return { error: 'spacingMinutes must be a non-negative number' };
+  }
+  if (windowMinutes !== undefined && !isNonNegative(windowMinutes)) {
+    return { error: 'windowMinutes must be a non-negative number' };
+  }
+
+  // The jitter of the last channel has to stay inside the window too
+  const spacing = spacingMinutes ?? (channelCount > 1 ? Math.max(windowMinutes - jitterMinutes, 0) / (channelCount - 1) : 0);
+
+  // Larger offsets could swap channels and make the timeline unpredictable
+  if (!isNonNegative(jitterMinutes) || jitterMinutes > spacing) {
+    return { error: 'jitterMinutes must be between 0 and the spacing between channels' };
+  }
+  if (order !== 'listed' && order !== 'random') {
+    return { error: 'Stagger order must be listed or random' };
+  }
+  if (spacing * (channelCount - 1) + jitterMinutes > MAX_STAGGER_MINUTES) {
+    return { error: `A staggered campaign must fit into ${MAX_STAGGER_MINUTES / (24 * 60)} days` };
+  }
+
+  return { stagger: { spacingMinutes: spacing, jitterMinutes, order } };
+};
+
+/**
+ * Validate content fields shared by the campaign and the per-channel overrides
+ * @returns Error message or null if the fields are valid
+ */
+const validateContentFields = (fields: Record<string, any>): string | null => {
+  if (fields.text !== undefined && (typeof fields.text !== 'string' || !fields.text.trim())) {
+    return 'Text must be a non-empty string';
+  }
+
+  if (fields.imagePosition !== undefined && !IMAGE_POSITIONS.includes(fields.imagePosition)) {
+    return `Invalid imagePosition. Allowed values: ${IMAGE_POSITIONS.join(', ')}`;
+  }
+
+  if (fields.tags !== undefined && !Array.isArray(fields.tags)) {
+    return 'Tags must be an array';
+  }
+
+  if (fields.buttons !== undefined && (
+    !Array.isArray(fields.buttons) || fields.buttons.some((button: any) => !button?.text || !button?.url)
+  )) {
+    return 'Buttons must be an array of { text, url }';
+  }
+
+  return null;
+};
+
+/**
+ * Create a campaign: publish or schedule one piece of content to several channels
+ * Content comes from the body or a draft (draftId); body fields take precedence over the draft.
+ * channels is a list of channel IDs or { channelId, text, buttons, tags, imagePosition } overrides.
+ * Without scheduledDate the content is published right away; stagger spreads the channels over time.
+ */
+export const createCampaign = async (req: Request, res: Response) => {
+  try {
+    const { title, draftId, channels, scheduledDate, stagger } = req.body;
+    const userId = req.user?._id;
+
+    if (!Array.isArray(channels) || channels.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'At least one channel is required',
+      });
+    }
+
+    const scheduledDateObj = scheduledDate ? new Date(scheduledDate) : new Date();
+    if (scheduledDate && (isNaN(scheduledDateObj.getTime()) || scheduledDateObj <= new Date())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Scheduled date must be in the future',
+      });
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+    }
+
+    const draft = draftId ? user.drafts?.find(draft => draft._id?.toString() === draftId) : undefined;
+    if (draftId && !draft) {
+      return res.status(404).json({
+        success: false,
+        message: 'Draft not found',
+      });
+    }
+
+    const content: CampaignContent = {
+      text: req.body.text ?? draft?.content,
+      imageUrl: req.body.imageUrl ?? draft?.imageUrl,
+      imageUrls: req.body.imageUrls ?? draft?.imageUrls ?? [],
+      media: req.body.media ?? draft?.media ?? [],
+      tags: req.body.tags ?? draft?.tags ?? [],
+      imagePosition: req.body.imagePosition ?? draft?.imagePosition ?? 'top',
+      buttons: req.body.buttons ?? draft?.buttons ?? [],
+    };
+
+    if (!content.text) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required field: text (or a draftId)',
+      });
+    }
+
+    const contentError = validateContentFields(content);
+    if (contentError) {
+      return res.status(400).json({
+        success: false,
+        message: contentError,
+      });
+    }
+
+    if (content.imageUrl && content.imageUrls && content.imageUrls.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot have both imageUrl and imageUrls. Use either single image or multiple images.',
+      });
+    }
+
+    if (content.imageUrls && content.imageUrls.length > 10) {
+      return res.status(400).json({
+        success: false,
+        message: 'Telegram allows a maximum of 10 images in a single post',
+      });
+    }
+
+    const mediaError = validateMedia(content.media);
+    if (mediaError) {
+      return res.status(400).json({
+        success: false,
+        message: mediaError,
+      });
+    }
+    content.media = normalizeMedia(content.media!);
+
+    // Resolve channels and their overrides
+    const targets: CampaignTarget[] = [];
+    for (const entry of channels) {
+      const channelId = typeof entry === 'string' ? entry : entry?.channelId;
+      const channel = user.channels.find(channel => channel._id?.toString() === channelId);
+
+      if (!channel) {
+        return res.status(400).json({
+          success: false,
+          message: `Channel not found: ${channelId}`,
+        });
+      }
+
+      if (targets.some(target => target.channel._id?.toString() === channelId)) {
+        return res.status(400).json({
+          success: false,
+          message: `Channel is listed more than once: ${channelId}`,
+        });
+      }
+
+      const override: CampaignChannelOverride = typeof entry === 'string' ? {} : {
+        ...(entry.text !== undefined && { text: entry.text }),
+        ...(entry.buttons !== undefined && { buttons: entry.buttons }),
+        ...(entry.tags !== undefined && { tags: entry.tags }),
+        ...(entry.imagePosition !== undefined && { imagePosition: entry.imagePosition }),
+      };
+
+      const overrideError = validateContentFields(override);
+      if (overrideError) {
+        return res.status(400).json({
+          success: false,
+          message: `${overrideError} (channel ${channelId})`,
+        });
+      }
+
+      targets.push({ channel, override });
+    }
+
+    let staggerSettings: CampaignStagger | undefined;
+    if (stagger) {
+      const parsed = parseStagger(stagger, targets.length);
+      if (parsed.error) {
+        return res.status(400).json({
+          success: false,
+          message: parsed.error,
+        });
+      }
+      staggerSettings = parsed.stagger;
+    }
+
+    const campaign = await campaignService.create({
+      userId: user._id as mongoose.Types.ObjectId,
+      title: title || draft?.title || content.text.substring(0, 50),
+      draftId: draft?._id?.toString(),
+      content,
+      targets,
+      scheduledDate: scheduledDateObj,
+      stagger: staggerSettings,
+      submitForReview: req.body.submitForReview === true,
+    });
+
+    // Publishing now goes through the scheduler, so every channel gets retries and health checks
+    if (!scheduledDate) {
+      schedulerService.publishDuePosts()
+        .catch(error => console.error(`[CAMPAIGN] Error publishing campaign ${campaign._id}:`, error));
+    }
+
+    const [report] = await campaignService.getReports([campaign]);
+
+    return res.status(201).json({
+      success: true,
+      message: scheduledDate ? 'Campaign scheduled successfully' : 'Campaign is being published',
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error creating campaign:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to create campaign',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Get campaigns of the current user with the outcome in each channel, newest first
+ */
+export const getCampaigns = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const [campaigns, totalItems] = await Promise.all([
+      Campaign.find({ user: userId }).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      Campaign.countDocuments({ user: userId }),
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        campaigns: await campaignService.getReports(campaigns),
+        pagination: {
+          total: totalItems,
+          page,
+          limit,
+          totalPages: Math.ceil(totalItems / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error getting campaigns:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get campaigns',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Get a campaign with the outcome in each channel
+ */
+export const getCampaignById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?._id;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid campaign ID',
+      });
+    }
+
+    const campaign = await Campaign.findOne({ _id: id, user: userId });
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        message: 'Campaign not found',
+      });
+    }
+
+    const [report] = await campaignService.getReports([campaign]);
+
+    return res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error getting campaign:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get campaign',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Get the publications of a campaign in time order, with channel names
+ */
+export const getCampaignTimeline = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?._id;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid campaign ID',
+      });
+    }
+
+    const [campaign, user] = await Promise.all([
+      Campaign.findOne({ _id: id, user: userId }),
+      User.findById(userId).select('channels'),
+    ]);
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        message: 'Campaign not found',
+      });
+    }
+
+    const [report] = await campaignService.getReports([campaign]);
+
+    // Cancelled channels have no date and go last
+    const entries = report.channels
+      .map(outcome => {
+        const channel = user?.channels.find(channel => channel._id?.toString() === outcome.channelId);
+        return {
+          ...outcome,
+          channelUsername: channel?.username || null,
+          channelTitle: channel?.title || null,
+        };
+      })
+      .sort((a, b) => (a.scheduledDate?.getTime() ?? Infinity) - (b.scheduledDate?.getTime() ?? Infinity));
+
+    const dates = entries.filter(entry => entry.scheduledDate).map(entry => entry.scheduledDate!.getTime());
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        campaignId: campaign._id,
+        title: campaign.title,
+        status: report.status,
+        stagger: campaign.stagger || null,
+        startsAt: dates.length > 0 ? new Date(Math.min(...dates)) : null,
+        endsAt: dates.length > 0 ? new Date(Math.max(...dates)) : null,
+        entries,
+      },
+    });
+  } catch (error) {
+    console.error('Error getting campaign timeline:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get campaign timeline',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Cancel the channels of a campaign that were not published yet
+ */
+export const cancelCampaign = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?._id;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid campaign ID',
+      });
+    }
+
+    const campaign = await Campaign.findOne({ _id: id, user: userId });
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        message: 'Campaign not found',
+      });
+    }
+
+    const cancelledCount = await campaignService.cancel(campaign);
+    const [report] = await campaignService.getReports([campaign]);
+
+    return res.status(200).json({
+      success: true,
+      message: `${cancelledCount} channels cancelled`,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error cancelling campaign:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to cancel campaign',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
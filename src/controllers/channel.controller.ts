@@ -2,6 +2,59 @@ import { Request, Response } from 'express';
 import User from '../models/user.model';
 import mongoose from 'mongoose';
 import CreditService from '../services/credit.service';
+import channelHealthService from '../services/channelHealth.service';
+import analyticsService from '../services/analytics.service';
+import telegramUpdateService from '../services/telegramUpdate.service';
+import approvalService from '../services/approval.service';
+import channelVerificationService, { ChannelVerificationResult, ChannelVerificationErrorCode } from '../services/channelVerification.service';
+import { IChannel } from '../models/user.model';
+import { encryptBotToken, maskBotToken } from '../utils/botTokenCrypto';
+import { calculateRuleNextScheduledDate, isValidTime, parseDateRange } from '../utils/dateUtils';
+
+// Сообщения об ошибках проверки бота для пользователя
+const VERIFICATION_ERROR_MESSAGES: Record<ChannelVerificationErrorCode, string> = {
+  INVALID_BOT_TOKEN: 'Недействительный токен бота. Проверьте токен, выданный BotFather',
+  CHAT_NOT_FOUND: 'Канал не найден или бот не добавлен в канал',
+  BOT_NOT_ADMIN: 'Бот не является администратором канала',
+  MISSING_RIGHTS: 'У бота нет необходимых прав администратора (публикация, редактирование и удаление сообщений)',
+  TELEGRAM_ERROR: 'Не удалось проверить канал в Telegram, попробуйте позже',
+};
+
+/**
+ * Отправляет ошибку проверки бота; ошибки Telegram (сеть, лимиты) возвращаются как 502
+ */
+const sendVerificationError = (res: Response, result: ChannelVerificationResult): void => {
+  const code = result.errorCode || 'TELEGRAM_ERROR';
+  res.status(code === 'TELEGRAM_ERROR' ? 502 : 400).json({
+    success: false,
+    message: VERIFICATION_ERROR_MESSAGES[code],
+    code,
+    details: result.message,
+    missingRights: result.missingRights,
+  });
+};
+
+/**
+ * Данные канала для ответа API; токен бота отдается только в маскированном виде
+ */
+const formatChannel = (channel: IChannel) => ({
+  id: channel._id,
+  username: channel.username,
+  title: channel.title,
+  botToken: maskBotToken(channel.botToken),
+  chatId: channel.chatId,
+  chatTitle: channel.chatTitle,
+  photoUrl: channel.photoUrl,
+  memberCount: channel.memberCount,
+  botUsername: channel.botUsername,
+  verifiedAt: channel.verifiedAt,
+  healthStatus: channel.healthStatus || 'unknown',
+  healthError: channel.healthError,
+  healthErrorCode: channel.healthErrorCode,
+  healthCheckedAt: channel.healthCheckedAt,
+  quietHours: channel.quietHours || null,
+  approval: channel.approval || null,
+});
 
 // Получить каналы пользователя
 export const getUserChannels = async (req: Request, res: Response): Promise<void> => {
@@ -21,7 +74,7 @@ export const getUserChannels = async (req: Request, res: Response): Promise<void
     
     res.status(200).json({
       success: true,
-      channels: user.channels || [],
+      channels: (user.channels || []).map(formatChannel),
     });
   } catch (error) {
     console.error('Error fetching user channels:', error);
@@ -35,17 +88,17 @@ export const getUserChannels = async (req: Request, res: Response): Promise<void
 
 // Добавить новый канал
 export const addChannel = async (req: Request, res: Response): Promise<void> => {
-  console.log('addChannel', req.body);
+  console.log('addChannel', { ...req.body, botToken: maskBotToken(req.body?.botToken) });
   try {
     // @ts-ignore - user добавляется через middleware аутентификации
     const userId = req.user.id;
     const { username, title, botToken } = req.body;
     
     // Проверка обязательных полей
-    if (!username || !title) {
+    if (!username || !botToken) {
       res.status(400).json({
         success: false,
-        message: 'Поля username и title обязательны',
+        message: 'Поля username и botToken обязательны',
       });
       return;
     }
@@ -74,8 +127,17 @@ export const addChannel = async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
-    // Проверка, существует ли канал с таким username
-    const channelExists = user.channels.some(channel => channel.username === username);
+    // Проверяем токен бота, канал и права бота в Telegram
+    const verification = await channelVerificationService.verify(username, botToken);
+    if (!verification.valid) {
+      sendVerificationError(res, verification);
+      return;
+    }
+    
+    // Проверка, существует ли канал с таким username или chat ID
+    const channelExists = user.channels.some(channel =>
+      channel.username === username || (!!channel.chatId && channel.chatId === verification.chat?.chatId)
+    );
     if (channelExists) {
       res.status(400).json({
         success: false,
@@ -84,27 +146,27 @@ export const addChannel = async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
-    // Создание нового канала с уникальным ID
-    const newChannel = {
+    // Создание нового канала с уникальным ID, по умолчанию с названием из Telegram
+    const newChannel: IChannel = {
       _id: new mongoose.Types.ObjectId(),
       username,
-      title,
-      botToken: botToken || '',
+      title: title || verification.chat?.title || username,
+      // Токен хранится в зашифрованном виде и расшифровывается только при обращении к Bot API
+      botToken: encryptBotToken(botToken),
     };
+    await channelVerificationService.applyVerification(newChannel, botToken, verification);
     
     // Добавление канала к пользователю
     user.channels.push(newChannel);
     await user.save();
     
+    // Начать получать обновления нового бота (реакции, изменения прав)
+    await telegramUpdateService.registerBot(newChannel.botToken!);
+    
     res.status(201).json({
       success: true,
       message: 'Канал успешно добавлен',
-      channel: {
-        id: newChannel._id,
-        username: newChannel.username,
-        title: newChannel.title,
-        botToken: newChannel.botToken,
-      },
+      channel: formatChannel(newChannel),
     });
   } catch (error) {
     console.error('Error adding channel:', error);
@@ -122,7 +184,8 @@ export const updateChannel = async (req: Request, res: Response): Promise<void>
     // @ts-ignore - user добавляется через middleware аутентификации
     const userId = req.user.id;
     const { channelId } = req.params;
-    const { title, botToken } = req.body;
+    const { title, quietHours, approval } = req.body;
+    let { botToken } = req.body;
     
     // Проверка ID канала
     if (!channelId) {
@@ -133,6 +196,26 @@ export const updateChannel = async (req: Request, res: Response): Promise<void>
       return;
     }
     
+    // Тихие часы задаются как { start: "HH:MM", end: "HH:MM" }, null отключает их
+    if (quietHours && (!isValidTime(quietHours.start) || !isValidTime(quietHours.end))) {
+      res.status(400).json({
+        success: false,
+        message: 'Тихие часы должны быть в формате { start: "HH:MM", end: "HH:MM" }',
+      });
+      return;
+    }
+    
+    // Согласование задается как { enabled, reviewers: [username или email] }, null отключает его
+    if (approval && (typeof approval.enabled !== 'boolean'
+      || (approval.reviewers !== undefined && (!Array.isArray(approval.reviewers)
+        || !approval.reviewers.every((reviewer: unknown) => typeof reviewer === 'string'))))) {
+      res.status(400).json({
+        success: false,
+        message: 'Согласование должно быть в формате { enabled: boolean, reviewers: [username или email] }',
+      });
+      return;
+    }
+    
     const user = await User.findById(userId);
     
     if (!user) {
@@ -143,6 +226,27 @@ export const updateChannel = async (req: Request, res: Response): Promise<void>
       return;
     }
     
+    // Проверяющие - другие пользователи сервиса; без них согласует владелец канала
+    const reviewerNames: string[] = approval?.reviewers || [];
+    const reviewers = reviewerNames.length > 0
+      ? await User.find({
+          $or: [
+            { username: { $in: reviewerNames } },
+            { email: { $in: reviewerNames.map(name => name.toLowerCase()) } },
+          ],
+        }).select('_id username email')
+      : [];
+    const unknownReviewers = reviewerNames.filter(name =>
+      !reviewers.some(reviewer => reviewer.username === name || reviewer.email === name.toLowerCase())
+    );
+    if (unknownReviewers.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: `Проверяющие не найдены: ${unknownReviewers.join(', ')}`,
+      });
+      return;
+    }
+    
     // Найти канал по ID
     const channelIndex = user.channels.findIndex(
       channel => channel._id?.toString() === channelId
@@ -156,26 +260,80 @@ export const updateChannel = async (req: Request, res: Response): Promise<void>
       return;
     }
     
+    const channel = user.channels[channelIndex];
+    
+    // Клиент получает токен только в маскированном виде - такой токен означает "без изменений"
+    if (botToken && channel.botToken && botToken === maskBotToken(channel.botToken)) {
+      botToken = undefined;
+    }
+    
+    if (botToken !== undefined && !botToken) {
+      res.status(400).json({
+        success: false,
+        message: 'Токен бота не может быть пустым',
+      });
+      return;
+    }
+    
+    // Перепроверяем бота при каждом обновлении: права могли измениться с момента добавления
+    const effectiveBotToken = botToken || channel.botToken;
+    if (effectiveBotToken) {
+      const verification = await channelVerificationService.verify(channel.username, effectiveBotToken);
+      if (!verification.valid) {
+        sendVerificationError(res, verification);
+        return;
+      }
+      
+      const wasUnhealthy = channel.healthStatus === 'unhealthy';
+      await channelVerificationService.applyVerification(channel, effectiveBotToken, verification);
+      
+      // Бот снова может публиковать - возобновляем приостановленные публикации
+      if (wasUnhealthy) {
+        await channelHealthService.resumeChannelJobs(user, channel._id!.toString());
+      }
+    }
+    
     // Обновить данные канала
     if (title) {
-      user.channels[channelIndex].title = title;
+      channel.title = title;
     }
     
     if (botToken !== undefined) {
-      user.channels[channelIndex].botToken = botToken;
+      channel.botToken = encryptBotToken(botToken);
+    }
+    
+    if (quietHours !== undefined) {
+      channel.quietHours = quietHours ? { start: quietHours.start, end: quietHours.end } : null;
+      
+      // Пересчитываем время следующих публикаций правил автопостинга этого канала
+      for (const rule of user.autoPostingRules || []) {
+        if (rule.status === 'active' && rule.channelId?.toString() === channel._id?.toString()) {
+          rule.nextScheduled = calculateRuleNextScheduledDate(user, rule);
+        }
+      }
+    }
+    
+    // Согласование применяется к новым публикациям; при отключении ожидающие публикации выходят по расписанию
+    if (approval !== undefined) {
+      channel.approval = approval
+        ? { enabled: approval.enabled, reviewerIds: reviewers.map(reviewer => reviewer._id as mongoose.Types.ObjectId) }
+        : null;
     }
     
     await user.save();
     
+    if (approval !== undefined && !channel.approval?.enabled) {
+      await approvalService.releaseChannelItems(user._id as mongoose.Types.ObjectId, channel._id!.toString());
+    }
+    
+    if (botToken !== undefined) {
+      await telegramUpdateService.registerBot(channel.botToken!);
+    }
+    
     res.status(200).json({
       success: true,
       message: 'Канал успешно обновлен',
-      channel: {
-        id: user.channels[channelIndex]._id,
-        username: user.channels[channelIndex].username,
-        title: user.channels[channelIndex].title,
-        botToken: user.channels[channelIndex].botToken,
-      },
+      channel: formatChannel(channel),
     });
   } catch (error) {
     console.error('Error updating channel:', error);
@@ -187,6 +345,112 @@ export const updateChannel = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// Проверить состояние канала сейчас, не дожидаясь периодической проверки
+// При восстановлении канала приостановленные публикации возобновляются
+export const checkChannelHealth = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // @ts-ignore - user добавляется через middleware аутентификации
+    const userId = req.user.id;
+    const { channelId } = req.params;
+    
+    const user = await User.findById(userId);
+    
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'Пользователь не найден',
+      });
+      return;
+    }
+    
+    const channel = user.channels.find(channel => channel._id?.toString() === channelId);
+    
+    if (!channel) {
+      res.status(404).json({
+        success: false,
+        message: 'Канал не найден',
+      });
+      return;
+    }
+    
+    if (!channel.botToken) {
+      res.status(400).json({
+        success: false,
+        message: 'У канала нет токена бота',
+      });
+      return;
+    }
+    
+    const result = await channelHealthService.checkChannel(user, channel);
+    await user.save();
+    
+    res.status(200).json({
+      success: true,
+      health: result,
+      channel: formatChannel(channel),
+    });
+  } catch (error) {
+    console.error('Error checking channel health:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Ошибка при проверке канала',
+      error: (error as Error).message,
+    });
+  }
+};
+
+// Аналитика канала: динамика подписчиков, просмотры и реакции постов за период (from/to)
+export const getChannelAnalytics = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // @ts-ignore - user добавляется через middleware аутентификации
+    const userId = req.user.id;
+    const { channelId } = req.params;
+    
+    const range = parseDateRange(req.query.from, req.query.to);
+    if (!range) {
+      res.status(400).json({
+        success: false,
+        message: 'Неверный формат дат from/to',
+      });
+      return;
+    }
+    
+    const user = await User.findById(userId);
+    
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'Пользователь не найден',
+      });
+      return;
+    }
+    
+    const channel = user.channels.find(channel => channel._id?.toString() === channelId);
+    
+    if (!channel) {
+      res.status(404).json({
+        success: false,
+        message: 'Канал не найден',
+      });
+      return;
+    }
+    
+    const analytics = await analyticsService.getChannelAnalytics(user._id as mongoose.Types.ObjectId, channel, range);
+    
+    res.status(200).json({
+      success: true,
+      analytics,
+    });
+  } catch (error) {
+    console.error('Error getting channel analytics:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Ошибка при получении аналитики канала',
+      error: (error as Error).message,
+    });
+  }
+};
+
 // Удалить канал
 export const deleteChannel = async (req: Request, res: Response): Promise<void> => {
   try {
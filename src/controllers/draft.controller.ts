@@ -1,9 +1,9 @@
 import { Request, Response } from 'express';
 import User, { IDraft } from '../models/user.model';
-import fs from 'fs';
-import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
-import storageService, { MAX_STORAGE_PER_USER } from '../services/storage.service';
+import storageService, { MAX_STORAGE_PER_USER, DRAFTS_PREFIX } from '../services/storage.service';
+import { StoredObject } from '../services/storage';
+import { IPostMedia } from '../models/post-media.model';
+import { validateMedia, normalizeMedia, getMediaTypeByMimeType, createUploadKey, getRequestBaseUrl } from '../utils/mediaUtils';
 
 /**
  * Get all drafts for the current user
@@ -89,7 +89,7 @@ export const createDraft = async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
-    const { title, content, imageUrl, imageUrls, tags, imagePosition, buttons } = req.body;
+    const { title, content, imageUrl, imageUrls, media, tags, imagePosition, buttons } = req.body;
     
     if (!title || !content) {
       res.status(400).json({
@@ -99,6 +99,15 @@ export const createDraft = async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
+    const mediaError = media !== undefined ? validateMedia(media) : null;
+    if (mediaError) {
+      res.status(400).json({
+        success: false,
+        message: mediaError
+      });
+      return;
+    }
+    
     const user = await User.findById(userId);
     if (!user) {
       res.status(404).json({
@@ -119,6 +128,7 @@ export const createDraft = async (req: Request, res: Response): Promise<void> =>
       content,
       imageUrl,
       imageUrls: Array.isArray(imageUrls) ? imageUrls : [],
+      media: media ? normalizeMedia(media) : [],
       tags: Array.isArray(tags) ? tags : [],
       imagePosition: imagePosition || 'top',
       buttons: Array.isArray(buttons) ? buttons : []
@@ -134,46 +144,32 @@ export const createDraft = async (req: Request, res: Response): Promise<void> =>
     // Проверяем и обновляем размер хранилища для новых изображений
     // Это нужно сделать здесь, а не в uploadDraftImage, так как при создании
     // драфта пользователь может использовать уже загруженные изображения
+    // Внешние URL пропускаются при поиске файлов в хранилище
     let totalImageSize = 0;
-    const imagesToCheck = [];
+    const imagesToCheck: string[] = [];
     
     // Добавляем основное изображение, если оно есть
-    if (imageUrl && (imageUrl.includes('/uploads/drafts/') || imageUrl.includes('/uploads/'))) {
+    if (imageUrl) {
       imagesToCheck.push(imageUrl);
     }
     
     // Добавляем дополнительные изображения
     if (Array.isArray(imageUrls) && imageUrls.length > 0) {
-      imagesToCheck.push(...imageUrls.filter(url => 
-        url && (url.includes('/uploads/drafts/') || url.includes('/uploads/'))
-      ));
+      imagesToCheck.push(...imageUrls.filter(Boolean));
+    }
+    
+    // Добавляем загруженные медиафайлы (видео, документы, аудио)
+    if (Array.isArray(media) && media.length > 0) {
+      imagesToCheck.push(...getMediaUrls(media));
     }
     
     // Проверяем размер каждого изображения и обновляем счетчик хранилища
     if (imagesToCheck.length > 0) {
       console.log('Checking image sizes for draft:', createdDraft._id);
       
-      for (const url of imagesToCheck) {
-        const filename = extractFilenameFromUrl(url);
-        if (filename) {
-          let imagePath = '';
-          
-          if (url.includes('/uploads/drafts/')) {
-            imagePath = path.join(__dirname, '../../uploads/drafts', filename);
-          } else if (url.includes('/uploads/')) {
-            imagePath = path.join(__dirname, '../../uploads', filename);
-          }
-          
-          if (imagePath && fs.existsSync(imagePath)) {
-            try {
-              const stats = fs.statSync(imagePath);
-              totalImageSize += stats.size;
-              console.log(`Image "${filename}" size: ${stats.size} bytes`);
-            } catch (err) {
-              console.error(`Error checking image "${filename}" size:`, err);
-            }
-          }
-        }
+      for (const storedFile of await findStoredFiles(imagesToCheck)) {
+        totalImageSize += storedFile.size;
+        console.log(`Image "${storedFile.key}" size: ${storedFile.size} bytes`);
       }
       
       // Обновляем счетчик использованного места
@@ -217,9 +213,9 @@ export const updateDraft = async (req: Request, res: Response): Promise<void> =>
     }
     
     const draftId = req.params.id;
-    const { title, content, imageUrl, imageUrls, tags, imagePosition, buttons } = req.body;
+    const { title, content, imageUrl, imageUrls, media, tags, imagePosition, buttons } = req.body;
     
-    if (!title && !content && !imageUrl && !imageUrls && !tags && !imagePosition && !buttons) {
+    if (!title && !content && !imageUrl && !imageUrls && !media && !tags && !imagePosition && !buttons) {
       res.status(400).json({
         success: false,
         message: 'At least one field to update is required'
@@ -227,6 +223,15 @@ export const updateDraft = async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
+    const mediaError = media !== undefined ? validateMedia(media) : null;
+    if (mediaError) {
+      res.status(400).json({
+        success: false,
+        message: mediaError
+      });
+      return;
+    }
+    
     const user = await User.findById(userId);
     if (!user) {
       res.status(404).json({
@@ -251,39 +256,15 @@ export const updateDraft = async (req: Request, res: Response): Promise<void> =>
     const oldDraft = user.drafts![draftIndex];
     
     // Массивы для отслеживания изменений в изображениях
-    const removedImages: { path: string; size: number }[] = [];
+    const removedImages: StoredObject[] = [];
     const addedImageUrls: string[] = [];
     
     // Если URL изображения изменился, отслеживаем старое для удаления
     if (imageUrl !== undefined && oldDraft.imageUrl && oldDraft.imageUrl !== imageUrl) {
-      // Извлекаем имя файла из URL
-      const filename = extractFilenameFromUrl(oldDraft.imageUrl);
-      if (filename) {
-        // Проверяем наличие файла в папке /uploads/drafts/
-        const pathInDrafts = path.join(__dirname, '../../uploads/drafts', filename);
-        if (fs.existsSync(pathInDrafts)) {
-          try {
-            const stats = fs.statSync(pathInDrafts);
-            removedImages.push({ path: pathInDrafts, size: stats.size });
-          } catch (err) {
-            console.error('Error checking removed image file:', err);
-          }
-        }
-        
-        // Проверяем наличие файла в корневой папке /uploads/
-        const pathInRoot = path.join(__dirname, '../../uploads', filename);
-        if (fs.existsSync(pathInRoot)) {
-          try {
-            const stats = fs.statSync(pathInRoot);
-            removedImages.push({ path: pathInRoot, size: stats.size });
-          } catch (err) {
-            console.error('Error checking removed image file:', err);
-          }
-        }
-      }
+      removedImages.push(...await findStoredFiles([oldDraft.imageUrl]));
       
-      // Если новый URL включает uploads/drafts или uploads, отслеживаем его
-      if (imageUrl && (imageUrl.includes('/uploads/drafts/') || imageUrl.includes('/uploads/'))) {
+      // Если новое изображение задано, отслеживаем его
+      if (imageUrl) {
         addedImageUrls.push(imageUrl);
       }
     }
@@ -291,48 +272,32 @@ export const updateDraft = async (req: Request, res: Response): Promise<void> =>
     // Если массив URLs изображений изменился, отслеживаем изменения
     if (imageUrls !== undefined && oldDraft.imageUrls) {
       // Находим удаленные изображения
-      oldDraft.imageUrls.forEach((url: string) => {
-        // Проверяем, есть ли URL в новом списке
-        if (!imageUrls || !imageUrls.includes(url)) {
-          // Извлекаем имя файла из URL
-          const filename = extractFilenameFromUrl(url);
-          if (filename) {
-            // Проверяем наличие файла в папке /uploads/drafts/
-            const pathInDrafts = path.join(__dirname, '../../uploads/drafts', filename);
-            if (fs.existsSync(pathInDrafts)) {
-              try {
-                const stats = fs.statSync(pathInDrafts);
-                removedImages.push({ path: pathInDrafts, size: stats.size });
-              } catch (err) {
-                console.error('Error checking removed image file:', err);
-              }
-            }
-            
-            // Проверяем наличие файла в корневой папке /uploads/
-            const pathInRoot = path.join(__dirname, '../../uploads', filename);
-            if (fs.existsSync(pathInRoot)) {
-              try {
-                const stats = fs.statSync(pathInRoot);
-                removedImages.push({ path: pathInRoot, size: stats.size });
-              } catch (err) {
-                console.error('Error checking removed image file:', err);
-              }
-            }
-          }
-        }
-      });
+      removedImages.push(...await findStoredFiles(
+        oldDraft.imageUrls.filter((url: string) => !imageUrls || !imageUrls.includes(url))
+      ));
       
       // Находим добавленные изображения
       if (imageUrls) {
         imageUrls.forEach((url: string) => {
-          if (!oldDraft.imageUrls?.includes(url) && 
-              (url.includes('/uploads/drafts/') || url.includes('/uploads/'))) {
+          if (url && !oldDraft.imageUrls?.includes(url)) {
             addedImageUrls.push(url);
           }
         });
       }
     }
     
+    // Если список медиафайлов изменился, отслеживаем удаленные и добавленные файлы
+    if (media !== undefined) {
+      const oldMediaUrls = getMediaUrls(oldDraft.media);
+      const newMediaUrls = getMediaUrls(media);
+      
+      removedImages.push(...await findStoredFiles(
+        oldMediaUrls.filter(url => !newMediaUrls.includes(url))
+      ));
+      
+      addedImageUrls.push(...newMediaUrls.filter(url => !oldMediaUrls.includes(url)));
+    }
+    
     // Update draft fields if provided
     const draft = user.drafts![draftIndex];
     
@@ -340,6 +305,7 @@ export const updateDraft = async (req: Request, res: Response): Promise<void> =>
     if (content) draft.content = content;
     if (imageUrl !== undefined) draft.imageUrl = imageUrl;
     if (imageUrls !== undefined) draft.imageUrls = Array.isArray(imageUrls) ? imageUrls : [];
+    if (media !== undefined) draft.media = normalizeMedia(media);
     if (tags !== undefined) draft.tags = Array.isArray(tags) ? tags : [];
     if (imagePosition !== undefined) draft.imagePosition = imagePosition;
     if (buttons !== undefined) draft.buttons = Array.isArray(buttons) ? buttons : [];
@@ -351,8 +317,8 @@ export const updateDraft = async (req: Request, res: Response): Promise<void> =>
       for (const img of removedImages) {
         try {
           // Используем сервис хранилища для удаления файла
-          await storageService.deleteFile(userId, img.path);
-          console.log(`Deleted file: ${img.path}`);
+          await storageService.deleteFile(userId, img.key);
+          console.log(`Deleted file: ${img.key}`);
         } catch (err) {
           console.error('Error deleting removed image:', err);
         }
@@ -362,27 +328,9 @@ export const updateDraft = async (req: Request, res: Response): Promise<void> =>
     // Проверяем и обновляем размер хранилища для новых изображений
     let totalNewImagesSize = 0;
     
-    for (const url of addedImageUrls) {
-      const filename = extractFilenameFromUrl(url);
-      if (filename) {
-        let imagePath = '';
-        
-        if (url.includes('/uploads/drafts/')) {
-          imagePath = path.join(__dirname, '../../uploads/drafts', filename);
-        } else if (url.includes('/uploads/')) {
-          imagePath = path.join(__dirname, '../../uploads', filename);
-        }
-        
-        if (imagePath && fs.existsSync(imagePath)) {
-          try {
-            const stats = fs.statSync(imagePath);
-            totalNewImagesSize += stats.size;
-            console.log(`Added image "${filename}" size: ${stats.size} bytes`);
-          } catch (err) {
-            console.error(`Error checking added image "${filename}" size:`, err);
-          }
-        }
-      }
+    for (const storedFile of await findStoredFiles(addedImageUrls)) {
+      totalNewImagesSize += storedFile.size;
+      console.log(`Added image "${storedFile.key}" size: ${storedFile.size} bytes`);
     }
     
     // Обновляем счетчик использованного места для новых изображений
@@ -453,58 +401,23 @@ export const deleteDraft = async (req: Request, res: Response): Promise<void> =>
     user.drafts!.splice(draftIndex, 1);
     await user.save();
     
-    // Массив для хранения путей к файлам, которые нужно удалить
-    const filesToDelete: string[] = [];
-    
-    // Проверяем и собираем пути ко всем файлам, связанным с удаляемым драфтом
-    if (draft.imageUrl) {
-      // Извлекаем имя файла из URL
-      const filename = extractFilenameFromUrl(draft.imageUrl);
-      if (filename) {
-        // Проверяем в папке /uploads/drafts/
-        const pathInDrafts = path.join(__dirname, '../../uploads/drafts', filename);
-        if (fs.existsSync(pathInDrafts)) {
-          filesToDelete.push(pathInDrafts);
-        }
-        
-        // Проверяем также в корневой папке /uploads/
-        const pathInRoot = path.join(__dirname, '../../uploads', filename);
-        if (fs.existsSync(pathInRoot)) {
-          filesToDelete.push(pathInRoot);
-        }
-      }
-    }
-    
-    if (draft.imageUrls && draft.imageUrls.length > 0) {
-      draft.imageUrls.forEach(url => {
-        // Извлекаем имя файла из URL
-        const filename = extractFilenameFromUrl(url);
-        if (filename) {
-          // Проверяем в папке /uploads/drafts/
-          const pathInDrafts = path.join(__dirname, '../../uploads/drafts', filename);
-          if (fs.existsSync(pathInDrafts)) {
-            filesToDelete.push(pathInDrafts);
-          }
-          
-          // Проверяем также в корневой папке /uploads/
-          const pathInRoot = path.join(__dirname, '../../uploads', filename);
-          if (fs.existsSync(pathInRoot)) {
-            filesToDelete.push(pathInRoot);
-          }
-        }
-      });
-    }
+    // Собираем все файлы, связанные с удаляемым драфтом
+    const filesToDelete = await findStoredFiles([
+      ...(draft.imageUrl ? [draft.imageUrl] : []),
+      ...(draft.imageUrls || []),
+      ...getMediaUrls(draft.media)
+    ]);
     
     // Удаляем все файлы и обновляем использованное пространство хранилища
     console.log(`Deleting ${filesToDelete.length} files for draft ${draftId}`);
     
     // Удаляем файлы с помощью сервиса хранилища
-    for (const filePath of filesToDelete) {
+    for (const storedFile of filesToDelete) {
       try {
-        await storageService.deleteFile(userId, filePath);
-        console.log(`Deleted file: ${filePath}`);
+        await storageService.deleteFile(userId, storedFile.key);
+        console.log(`Deleted file: ${storedFile.key}`);
       } catch (err) {
-        console.error(`Error deleting file ${filePath}:`, err);
+        console.error(`Error deleting file ${storedFile.key}:`, err);
       }
     }
     
@@ -527,38 +440,31 @@ export const deleteDraft = async (req: Request, res: Response): Promise<void> =>
 };
 
 /**
- * Извлекает имя файла из URL изображения
+ * Возвращает URL всех медиафайлов драфта
  */
-function extractFilenameFromUrl(url: string): string | null {
-  if (!url) return null;
+function getMediaUrls(media?: IPostMedia[]): string[] {
+  return (media || []).map(item => item.url).filter(Boolean);
+}
+
+/**
+ * Находит в хранилище файлы, загруженные по этим URL
+ * Внешние URL и отсутствующие файлы пропускаются, каждый файл возвращается один раз
+ */
+async function findStoredFiles(urls: string[]): Promise<StoredObject[]> {
+  const storedFiles: StoredObject[] = [];
   
-  try {
-    // Удаляем параметры URL
-    const urlWithoutParams = url.split('?')[0];
-    
-    // Случай 1: URL содержит /uploads/drafts/
-    if (urlWithoutParams.includes('/uploads/drafts/')) {
-      return urlWithoutParams.substring(urlWithoutParams.lastIndexOf('/') + 1);
-    }
-    
-    // Случай 2: URL содержит /uploads/
-    if (urlWithoutParams.includes('/uploads/')) {
-      return urlWithoutParams.substring(urlWithoutParams.lastIndexOf('/') + 1);
-    }
-    
-    // В других случаях просто извлекаем имя файла из пути
-    // Используем URL API для корректного разбора URL
+  for (const url of urls) {
     try {
-      const pathname = new URL(urlWithoutParams).pathname;
-      return pathname.substring(pathname.lastIndexOf('/') + 1);
-    } catch (e) {
-      // Если это не валидный URL, попробуем простую логику извлечения
-      return urlWithoutParams.substring(urlWithoutParams.lastIndexOf('/') + 1);
+      const storedFile = await storageService.findFileByUrl(url);
+      if (storedFile && !storedFiles.some(file => file.key === storedFile.key)) {
+        storedFiles.push(storedFile);
+      }
+    } catch (err) {
+      console.error(`Error checking file "${url}":`, err);
     }
-  } catch (error) {
-    console.error('Error extracting filename from URL:', error);
-    return null;
   }
+  
+  return storedFiles;
 }
 
 /**
@@ -586,19 +492,13 @@ export const uploadDraftImage = async (req: Request, res: Response): Promise<voi
     // Подробное логирование
     console.log('File upload attempt for draft:');
     console.log('Original URL:', req.originalUrl);
-    console.log('File path:', req.file.path);
-    console.log('File destination:', req.file.destination);
-    console.log('File filename:', req.file.filename);
+    console.log('File name:', req.file.originalname);
     console.log('File size:', req.file.size);
     
     // Проверяем, не превысит ли пользователь лимит хранилища
     const willExceedLimit = !(await storageService.checkStorageLimit(userId, req.file.size));
     if (willExceedLimit) {
-      // Удаляем загруженный файл, так как он превышает лимит
-      if (fs.existsSync(req.file.path)) {
-        fs.unlinkSync(req.file.path);
-      }
-      
+      // Файл еще не сохранен в хранилище, просто отклоняем запрос
       res.status(413).json({
         success: false,
         message: 'Storage limit exceeded',
@@ -611,53 +511,9 @@ export const uploadDraftImage = async (req: Request, res: Response): Promise<voi
       return;
     }
     
-    // Файл уже сохранен multer'ом (должен быть в /uploads/drafts/)
-    const originalPath = req.file.path;
-    const filename = path.basename(originalPath);
-    
-    // Generate URL for the uploaded image
-    const baseUrl = process.env.NODE_ENV === 'production' 
-      ? process.env.API_BASE_URL || req.protocol + '://' + req.get('host')
-      : 'http://localhost:' + (process.env.PORT || 5000);
-    
-    // Получаем путь к директории черновиков
-    const draftsDir = path.join(__dirname, '../../uploads/drafts');
-    
-    // Проверяем, находится ли файл в директории черновиков
-    let imageUrl;
-    const isInDraftsDir = originalPath.includes('/uploads/drafts/') || originalPath.includes('\\uploads\\drafts\\');
-    
-    if (!isInDraftsDir) {
-      // Если файл был сохранен в основную директорию, перемещаем его в директорию черновиков
-      console.warn('WARNING: Draft image was not saved in drafts directory! Moving it...');
-      
-      // Создаем директорию черновиков если она не существует
-      if (!fs.existsSync(draftsDir)) {
-        fs.mkdirSync(draftsDir, { recursive: true });
-      }
-      
-      const newPath = path.join(draftsDir, filename);
-      console.log(`Moving file from ${originalPath} to ${newPath}`);
-      
-      try {
-        // Копируем файл
-        fs.copyFileSync(originalPath, newPath);
-        // Удаляем оригинал
-        fs.unlinkSync(originalPath);
-        console.log(`Successfully moved file to drafts directory`);
-        
-        // Обновляем путь
-        imageUrl = `${baseUrl}/uploads/drafts/${filename}`;
-      } catch (moveError) {
-        console.error('Error moving file to drafts directory:', moveError);
-        // Если не удалось переместить, используем оригинальный путь
-        imageUrl = `${baseUrl}/${path.relative(path.join(__dirname, '../..'), originalPath).replace(/\\/g, '/')}`;
-      }
-    } else {
-      // Файл уже в директории черновиков
-      imageUrl = `${baseUrl}/uploads/drafts/${filename}`;
-      console.log('File saved in drafts directory');
-    }
+    // Файлы черновиков хранятся в папке drafts/ и не удаляются автоматически
+    const key = createUploadKey(req.file, DRAFTS_PREFIX);
+    const imageUrl = await storageService.saveFile(key, req.file.buffer, req.file.mimetype, getRequestBaseUrl(req));
     
     // Обновляем использованное пространство пользователя
     await storageService.updateStorageUsed(userId, req.file.size);
@@ -670,16 +526,17 @@ export const uploadDraftImage = async (req: Request, res: Response): Promise<voi
     res.status(200).json({
       success: true,
       imageUrl,
+      media: {
+        type: getMediaTypeByMimeType(req.file.mimetype),
+        url: imageUrl,
+        fileName: req.file.originalname,
+        mimeType: req.file.mimetype
+      },
       storageInfo
     });
   } catch (error) {
     console.error('Error uploading draft image:', error);
     
-    // If there's an uploaded file, delete it in case of error
-    if (req.file && req.file.path) {
-      fs.unlinkSync(req.file.path);
-    }
-    
     res.status(500).json({
       success: false,
       message: 'Failed to upload image',
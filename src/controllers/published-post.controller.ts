@@ -0,0 +1,359 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import PublishedPost, { IPublishedPost, PUBLICATION_SOURCES, PublicationSource } from '../models/published-post.model';
+import { POST_MEDIA_TYPES } from '../models/post-media.model';
+import User from '../models/user.model';
+import publicationService, { PublicationEditResult } from '../services/publication.service';
+import analyticsService from '../services/analytics.service';
+
+/**
+ * Get published posts for the current user
+ * Supports filtering by channelId, source and a publication date range (from/to)
+ */
+export const getPublishedPosts = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    const { channelId, source, from, to } = req.query;
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+
+    const filter: Record<string, any> = { user: userId };
+
+    if (channelId) {
+      filter.channelId = channelId as string;
+    }
+
+    if (source) {
+      if (!PUBLICATION_SOURCES.includes(source as PublicationSource)) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid source. Allowed values: ${PUBLICATION_SOURCES.join(', ')}`,
+        });
+      }
+      filter.source = source;
+    }
+
+    if (from || to) {
+      const fromDate = from ? new Date(from as string) : null;
+      const toDate = to ? new Date(to as string) : null;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid date format for from/to',
+        });
+      }
+
+      filter.publishedAt = {
+        ...(fromDate && { $gte: fromDate }),
+        ...(toDate && { $lte: toDate }),
+      };
+    }
+
+    const [posts, totalItems] = await Promise.all([
+      PublishedPost.find(filter).sort({ publishedAt: -1 }).skip(skip).limit(limit),
+      PublishedPost.countDocuments(filter),
+    ]);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        posts,
+        pagination: {
+          total: totalItems,
+          page,
+          limit,
+          totalPages: Math.ceil(totalItems / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Error getting published posts:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get published posts',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Get a single published post by ID
+ */
+export const getPublishedPostById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?._id;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid published post ID',
+      });
+    }
+
+    const publishedPost = await PublishedPost.findOne({
+      _id: id,
+      user: userId,
+    });
+
+    if (!publishedPost) {
+      return res.status(404).json({
+        success: false,
+        message: 'Published post not found',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      post: publishedPost,
+    });
+  } catch (error) {
+    console.error('Error getting published post:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get published post',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Get views and reactions of a published post together with their history
+ */
+export const getPublishedPostAnalytics = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?._id;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid published post ID',
+      });
+    }
+
+    const publishedPost = await PublishedPost.findOne({
+      _id: id,
+      user: userId,
+    });
+
+    if (!publishedPost) {
+      return res.status(404).json({
+        success: false,
+        message: 'Published post not found',
+      });
+    }
+
+    const analytics = await analyticsService.getPostAnalytics(publishedPost);
+
+    return res.status(200).json({
+      success: true,
+      analytics,
+    });
+  } catch (error) {
+    console.error('Error getting published post analytics:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get published post analytics',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+type LoadedPublication =
+  | { post: IPublishedPost; botToken: string; error?: undefined }
+  | { error: { status: number; message: string } };
+
+/**
+ * Load a published post of the current user together with the bot token of its channel
+ */
+const loadEditablePublication = async (req: Request): Promise<LoadedPublication> => {
+  const { id } = req.params;
+  const userId = req.user?._id;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return { error: { status: 400, message: 'Invalid published post ID' } };
+  }
+
+  const post = await PublishedPost.findOne({ _id: id, user: userId });
+
+  if (!post) {
+    return { error: { status: 404, message: 'Published post not found' } };
+  }
+
+  if (post.deletedAt) {
+    return { error: { status: 400, message: 'Published post has already been deleted' } };
+  }
+
+  const user = await User.findById(userId);
+  const channel = user?.channels.find(ch => ch._id?.toString() === post.channelId);
+
+  if (!channel) {
+    return { error: { status: 404, message: 'Channel not found' } };
+  }
+
+  if (!channel.botToken) {
+    return { error: { status: 400, message: 'Bot token is not configured for this channel' } };
+  }
+
+  return { post, botToken: channel.botToken };
+};
+
+/**
+ * Send the response of an edit or delete operation
+ */
+const sendEditResult = (res: Response, result: PublicationEditResult, post: IPublishedPost, successMessage: string) => {
+  if (!result.success) {
+    return res.status(400).json({
+      success: false,
+      message: result.message || 'Telegram rejected the request',
+      ...(result.failedMessageIds && { failedMessageIds: result.failedMessageIds }),
+    });
+  }
+
+  return res.status(200).json({
+    success: true,
+    message: successMessage,
+    post,
+  });
+};
+
+/**
+ * Edit the text of a published post in the channel
+ */
+export const editPublishedPostText = async (req: Request, res: Response) => {
+  try {
+    const { text } = req.body;
+
+    if (!text || typeof text !== 'string' || text.trim() === '') {
+      return res.status(400).json({
+        success: false,
+        message: 'Text is required',
+      });
+    }
+
+    const loaded = await loadEditablePublication(req);
+    if (loaded.error) {
+      return res.status(loaded.error.status).json({ success: false, message: loaded.error.message });
+    }
+
+    const result = await publicationService.editText(loaded.post, loaded.botToken, text);
+    return sendEditResult(res, result, loaded.post, 'Published post text updated successfully');
+  } catch (error) {
+    console.error('Error editing published post text:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to edit published post text',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Replace a media item of a published post in the channel
+ * Body: { url, type?, index? } - index selects the item of an album, imageUrl is accepted instead of url
+ */
+export const editPublishedPostMedia = async (req: Request, res: Response) => {
+  try {
+    const { type, index } = req.body;
+    const url = req.body.url || req.body.imageUrl;
+
+    if (!url || typeof url !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Media URL is required',
+      });
+    }
+
+    if (type !== undefined && !POST_MEDIA_TYPES.includes(type)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid media type. Allowed values: ${POST_MEDIA_TYPES.join(', ')}`,
+      });
+    }
+
+    const mediaIndex = index === undefined ? 0 : Number(index);
+    if (!Number.isInteger(mediaIndex) || mediaIndex < 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Index must be a non-negative integer',
+      });
+    }
+
+    const loaded = await loadEditablePublication(req);
+    if (loaded.error) {
+      return res.status(loaded.error.status).json({ success: false, message: loaded.error.message });
+    }
+
+    const result = await publicationService.editMedia(loaded.post, loaded.botToken, { url, type }, mediaIndex);
+    return sendEditResult(res, result, loaded.post, 'Published post media updated successfully');
+  } catch (error) {
+    console.error('Error editing published post media:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to edit published post media',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Replace the inline buttons of a published post in the channel
+ * An empty array removes the buttons
+ */
+export const editPublishedPostButtons = async (req: Request, res: Response) => {
+  try {
+    const { buttons } = req.body;
+
+    if (!Array.isArray(buttons) || buttons.some(button => !button || !button.text || !button.url)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Buttons must be an array of { text, url } objects',
+      });
+    }
+
+    const loaded = await loadEditablePublication(req);
+    if (loaded.error) {
+      return res.status(loaded.error.status).json({ success: false, message: loaded.error.message });
+    }
+
+    const result = await publicationService.editButtons(
+      loaded.post,
+      loaded.botToken,
+      buttons.map(button => ({ text: button.text, url: button.url }))
+    );
+    return sendEditResult(res, result, loaded.post, 'Published post buttons updated successfully');
+  } catch (error) {
+    console.error('Error editing published post buttons:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to edit published post buttons',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Delete a published post from the channel
+ */
+export const deletePublishedPost = async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadEditablePublication(req);
+    if (loaded.error) {
+      return res.status(loaded.error.status).json({ success: false, message: loaded.error.message });
+    }
+
+    const result = await publicationService.deletePublication(loaded.post, loaded.botToken);
+    return sendEditResult(res, result, loaded.post, 'Published post deleted successfully');
+  } catch (error) {
+    console.error('Error deleting published post:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to delete published post',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
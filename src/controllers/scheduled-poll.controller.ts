@@ -1,16 +1,163 @@
 import { Request, Response } from 'express';
 import mongoose from 'mongoose';
-import ScheduledPoll, { IScheduledPoll } from '../models/scheduled-poll.model';
+import ScheduledPoll, {
+  IScheduledPoll,
+  PollType,
+  PollParseMode,
+  PollMessageEntity,
+  POLL_TYPES,
+  POLL_PARSE_MODES
+} from '../models/scheduled-poll.model';
 import User from '../models/user.model';
-import { TelegramService } from '../services/telegram.service';
 import Channel from '../models/channel.model';
+import approvalService, { isPublishable } from '../services/approval.service';
+import lockService from '../services/lock.service';
+import pollService, { MIN_POLL_OPEN_SECONDS, MAX_POLL_OPEN_SECONDS } from '../services/poll.service';
+
+// Telegram limits for plain text; formatted text is checked by Telegram after the markup is parsed
+const MAX_QUESTION_LENGTH = 300;
+const MAX_OPTION_LENGTH = 100;
+const MAX_EXPLANATION_LENGTH = 200;
+
+// Poll fields that depend on each other; on update they are validated after merging with the stored poll
+interface PollSettings {
+  question: string;
+  options: string[];
+  allowsMultipleAnswers: boolean;
+  type: PollType;
+  correctOptionId?: number | null;
+  explanation?: string | null;
+  parseMode?: PollParseMode | null;
+  questionEntities?: PollMessageEntity[];
+  optionEntities?: PollMessageEntity[][];
+  explanationEntities?: PollMessageEntity[];
+  openPeriod?: number | null;
+  closeDate?: Date | null;
+  scheduledDate: Date;
+}
+
+/**
+ * Options are sent as strings or as { text, entities } objects
+ */
+const parseOptions = (options: any[]): { texts: string[]; entities?: PollMessageEntity[][] } => {
+  const texts = options.map(option => {
+    if (typeof option === 'string') return option;
+    if (typeof option === 'object' && option.text) return option.text;
+    return String(option);
+  });
+
+  const hasEntities = options.some(option => option && typeof option === 'object' && option.entities);
+  return {
+    texts,
+    entities: hasEntities ? options.map(option => (option && typeof option === 'object' && option.entities) || []) : undefined,
+  };
+};
+
+const isEntityList = (value: unknown): value is PollMessageEntity[] => {
+  return Array.isArray(value) && value.every(entity =>
+    entity && typeof entity === 'object' &&
+    typeof entity.type === 'string' &&
+    Number.isInteger(entity.offset) && entity.offset >= 0 &&
+    Number.isInteger(entity.length) && entity.length > 0
+  );
+};
+
+/**
+ * Check quiz, auto-closing and formatting settings
+ * @returns Error message or null if the poll can be sent
+ */
+const validatePollSettings = (poll: PollSettings): string | null => {
+  if (!POLL_TYPES.includes(poll.type)) {
+    return `Invalid poll type. Allowed values: ${POLL_TYPES.join(', ')}`;
+  }
+
+  if (poll.parseMode && !POLL_PARSE_MODES.includes(poll.parseMode)) {
+    return `Invalid parseMode. Allowed values: ${POLL_PARSE_MODES.join(', ')}`;
+  }
+
+  if (!poll.parseMode) {
+    if (poll.question.length > MAX_QUESTION_LENGTH) {
+      return `Question must not be longer than ${MAX_QUESTION_LENGTH} characters`;
+    }
+    if (poll.options.some(option => !option || option.length > MAX_OPTION_LENGTH)) {
+      return `Options must be 1-${MAX_OPTION_LENGTH} characters long`;
+    }
+    if (poll.explanation && poll.explanation.length > MAX_EXPLANATION_LENGTH) {
+      return `Explanation must not be longer than ${MAX_EXPLANATION_LENGTH} characters`;
+    }
+  }
+
+  if (poll.questionEntities !== undefined && !isEntityList(poll.questionEntities)) {
+    return 'questionEntities must be an array of message entities';
+  }
+
+  if (poll.optionEntities !== undefined && (
+    poll.optionEntities.length > poll.options.length || !poll.optionEntities.every(isEntityList)
+  )) {
+    return 'Option entities must be arrays of message entities';
+  }
+
+  if (poll.explanationEntities !== undefined && !isEntityList(poll.explanationEntities)) {
+    return 'explanationEntities must be an array of message entities';
+  }
+
+  if (poll.type === 'quiz') {
+    const { correctOptionId } = poll;
+    if (typeof correctOptionId !== 'number' || !Number.isInteger(correctOptionId) ||
+        correctOptionId < 0 || correctOptionId >= poll.options.length) {
+      return 'Quiz polls require correctOptionId, the index of the correct option';
+    }
+    if (poll.allowsMultipleAnswers) {
+      return 'Quiz polls cannot allow multiple answers';
+    }
+  } else if (poll.explanation || (poll.correctOptionId !== undefined && poll.correctOptionId !== null)) {
+    return 'correctOptionId and explanation are only supported by quiz polls';
+  }
+
+  if (poll.openPeriod !== undefined && poll.openPeriod !== null) {
+    if (poll.closeDate) {
+      return 'openPeriod and closeDate cannot be used together';
+    }
+    if (!Number.isInteger(poll.openPeriod) || poll.openPeriod < MIN_POLL_OPEN_SECONDS || poll.openPeriod > MAX_POLL_OPEN_SECONDS) {
+      return `openPeriod must be between ${MIN_POLL_OPEN_SECONDS} and ${MAX_POLL_OPEN_SECONDS} seconds`;
+    }
+  }
+
+  if (poll.closeDate) {
+    if (isNaN(poll.closeDate.getTime())) {
+      return 'Invalid closeDate';
+    }
+    const openSeconds = (poll.closeDate.getTime() - poll.scheduledDate.getTime()) / 1000;
+    if (openSeconds < MIN_POLL_OPEN_SECONDS || openSeconds > MAX_POLL_OPEN_SECONDS) {
+      return `closeDate must be ${MIN_POLL_OPEN_SECONDS}-${MAX_POLL_OPEN_SECONDS} seconds after scheduledDate`;
+    }
+  }
+
+  return null;
+};
 
 /**
  * Create a new scheduled poll
  */
 export const createScheduledPoll = async (req: Request, res: Response) => {
   try {
-    const { channelId, question, options, isAnonymous, allowsMultipleAnswers, scheduledDate } = req.body;
+    const {
+      channelId,
+      question,
+      options,
+      isAnonymous,
+      allowsMultipleAnswers,
+      scheduledDate,
+      type,
+      correctOptionId,
+      explanation,
+      parseMode,
+      questionEntities,
+      explanationEntities,
+      openPeriod,
+      closeDate,
+      submitForReview
+    } = req.body;
     const userId = req.user?._id;
 
     if (!channelId || !question || !options || !scheduledDate) {
@@ -45,26 +192,49 @@ export const createScheduledPoll = async (req: Request, res: Response) => {
       });
     }
 
-    // Extract text from each option object if needed
-    const optionTexts = options.map(option => {
-      if (typeof option === 'string') return option;
-      if (typeof option === 'object' && option.text) return option.text;
-      return String(option);
-    });
+    // Extract text and entities from each option object if needed
+    const { texts: optionTexts, entities: optionEntities } = parseOptions(options);
 
-    const scheduledPoll = new ScheduledPoll({
-      channelId,
+    const settings: PollSettings = {
       question,
       options: optionTexts,
-      isAnonymous: isAnonymous !== undefined ? isAnonymous : true,
       allowsMultipleAnswers: allowsMultipleAnswers !== undefined ? allowsMultipleAnswers : false,
+      type: type || 'regular',
+      correctOptionId,
+      explanation,
+      parseMode,
+      questionEntities,
+      optionEntities,
+      explanationEntities,
+      openPeriod,
+      closeDate: closeDate ? new Date(closeDate) : null,
       scheduledDate: scheduledDateObj,
+    };
+
+    const validationError = validatePollSettings(settings);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError,
+      });
+    }
+
+    const scheduledPoll = new ScheduledPoll({
+      channelId,
+      ...settings,
+      isAnonymous: isAnonymous !== undefined ? isAnonymous : true,
       published: false,
       user: userId,
+      // Channels with approval get a draft, or a poll waiting for review with submitForReview
+      approval: approvalService.createApproval(req.user!, channelId, submitForReview === true),
     });
 
     await scheduledPoll.save();
 
+    if (scheduledPoll.approval?.status === 'pending_review') {
+      await approvalService.notifySubmitted('poll', scheduledPoll);
+    }
+
     return res.status(201).json({
       success: true,
       message: 'Scheduled poll created successfully',
@@ -82,15 +252,18 @@ export const createScheduledPoll = async (req: Request, res: Response) => {
 
 /**
  * Get all scheduled polls for a user
+ * status=published returns published polls with their results instead, newest first
  */
 export const getScheduledPolls = async (req: Request, res: Response) => {
   try {
     const userId = req.user?._id;
-    const scheduledPolls = await ScheduledPoll.find({ 
-      user: userId,
-      published: false,
-      scheduledDate: { $gt: new Date() }
-    }).sort({ scheduledDate: 1 });
+    const scheduledPolls = req.query.status === 'published'
+      ? await ScheduledPoll.find({ user: userId, published: true }).sort({ publishedAt: -1 })
+      : await ScheduledPoll.find({ 
+          user: userId,
+          published: false,
+          scheduledDate: { $gt: new Date() }
+        }).sort({ scheduledDate: 1 });
 
     return res.status(200).json({
       success: true,
@@ -108,6 +281,7 @@ export const getScheduledPolls = async (req: Request, res: Response) => {
 
 /**
  * Get a single scheduled poll by ID
+ * Published polls include their results (vote counts per option, total voters)
  */
 export const getScheduledPollById = async (req: Request, res: Response) => {
   try {
@@ -196,7 +370,7 @@ export const updateScheduledPoll = async (req: Request, res: Response) => {
     }
 
     // Process options if provided
-    let processedOptions;
+    let parsedOptions;
     if (options) {
       if (!Array.isArray(options)) {
         return res.status(400).json({
@@ -213,28 +387,14 @@ export const updateScheduledPoll = async (req: Request, res: Response) => {
         });
       }
 
-      processedOptions = options.map(option => {
-        if (typeof option === 'string') return option;
-        if (typeof option === 'object' && option.text) return option.text;
-        return String(option);
-      });
+      parsedOptions = parseOptions(options);
     }
 
-    const scheduledPoll = await ScheduledPoll.findOneAndUpdate(
-      {
-        _id: id,
-        user: userId,
-        published: false,
-      },
-      {
-        ...(question && { question }),
-        ...(processedOptions && { options: processedOptions }),
-        ...(isAnonymous !== undefined && { isAnonymous }),
-        ...(allowsMultipleAnswers !== undefined && { allowsMultipleAnswers }),
-        ...(scheduledDate && { scheduledDate: new Date(scheduledDate) }),
-      },
-      { new: true }
-    );
+    const scheduledPoll = await ScheduledPoll.findOne({
+      _id: id,
+      user: userId,
+      published: false,
+    });
 
     if (!scheduledPoll) {
       return res.status(404).json({
@@ -243,6 +403,52 @@ export const updateScheduledPoll = async (req: Request, res: Response) => {
       });
     }
 
+    // Quiz and closing settings depend on each other, so the result of the update is validated as a whole
+    // Optional settings are cleared with null
+    const has = (field: string) => req.body[field] !== undefined;
+    const settings: PollSettings = {
+      question: question || scheduledPoll.question,
+      options: parsedOptions ? parsedOptions.texts : scheduledPoll.options,
+      allowsMultipleAnswers: allowsMultipleAnswers !== undefined ? allowsMultipleAnswers : scheduledPoll.allowsMultipleAnswers,
+      type: has('type') ? req.body.type || 'regular' : scheduledPoll.type,
+      correctOptionId: has('correctOptionId') ? req.body.correctOptionId : scheduledPoll.correctOptionId,
+      explanation: has('explanation') ? req.body.explanation : scheduledPoll.explanation,
+      parseMode: has('parseMode') ? req.body.parseMode : scheduledPoll.parseMode,
+      questionEntities: has('questionEntities') ? req.body.questionEntities || undefined : scheduledPoll.questionEntities,
+      optionEntities: parsedOptions ? parsedOptions.entities : scheduledPoll.optionEntities,
+      explanationEntities: has('explanationEntities') ? req.body.explanationEntities || undefined : scheduledPoll.explanationEntities,
+      openPeriod: has('openPeriod') ? req.body.openPeriod : scheduledPoll.openPeriod,
+      closeDate: has('closeDate') ? (req.body.closeDate ? new Date(req.body.closeDate) : null) : scheduledPoll.closeDate,
+      scheduledDate: scheduledDate ? new Date(scheduledDate) : scheduledPoll.scheduledDate,
+    };
+
+    const validationError = validatePollSettings(settings);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        message: validationError,
+      });
+    }
+
+    // Any change except the date has to be reviewed again
+    const reopened = Object.keys(req.body).some(field => field !== 'scheduledDate')
+      && approvalService.reopenAfterEdit(scheduledPoll, userId);
+
+    scheduledPoll.set(settings);
+    if (isAnonymous !== undefined) {
+      scheduledPoll.isAnonymous = isAnonymous;
+    }
+    if (scheduledDate) {
+      approvalService.resetHold(scheduledPoll);
+    }
+    // The edit may have fixed what made a failed poll fail
+    pollService.resetAttempts(scheduledPoll);
+    await scheduledPoll.save();
+
+    if (reopened) {
+      await approvalService.notifyChanged('poll', scheduledPoll);
+    }
+
     return res.status(200).json({
       success: true,
       message: 'Scheduled poll updated successfully',
@@ -280,72 +486,143 @@ export const publishScheduledPoll = async (req: Request, res: Response) => {
       });
     }
 
-    // Find the user
-    const user = await User.findById(userId);
-    if (!user) {
-      return res.status(404).json({
+    if (!isPublishable(scheduledPoll)) {
+      return res.status(400).json({
         success: false,
-        message: 'User not found',
+        message: `Poll cannot be published before it is approved (status: ${scheduledPoll.approval?.status})`,
       });
     }
 
-    // Find the channel to get the bot token
-    const channel = await Channel.findOne({
-      $or: [
-        { _id: scheduledPoll.channelId },
-        { id: scheduledPoll.channelId },
-        { title: scheduledPoll.channelId }
-      ],
-      user: userId
+    // The scheduler or another replica may be publishing the same poll
+    const claimedPoll = await lockService.claim(ScheduledPoll, {
+      _id: id,
+      user: userId,
+      published: false,
     });
 
-    if (!channel || !channel.botToken) {
-      return res.status(404).json({
+    if (!claimedPoll) {
+      return res.status(409).json({
         success: false,
-        message: 'Channel not found or missing bot token',
+        message: 'Poll is already being published',
       });
     }
 
-    // Prepare chat_id - if it looks like a username without @, add it
-    let chatId = channel.username || channel.id;
-    if (!chatId) {
-      chatId = channel.title;
-      if (chatId && !chatId.startsWith('@') && !chatId.match(/^-?\d+$/)) {
-        chatId = '@' + chatId;
+    try {
+      // Find the user
+      const user = await User.findById(userId);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: 'User not found',
+        });
       }
+
+      // Find the channel to get the bot token; polls created before channels moved to the user
+      // document may still refer to the standalone channels collection
+      const channel = user.channels.find(c => c._id?.toString() === claimedPoll.channelId.toString())
+        || await Channel.findOne({
+          $or: [
+            ...(mongoose.Types.ObjectId.isValid(claimedPoll.channelId) ? [{ _id: claimedPoll.channelId }] : []),
+            { title: claimedPoll.channelId }
+          ],
+          user: userId
+        });
+
+      if (!channel || !channel.botToken) {
+        return res.status(404).json({
+          success: false,
+          message: 'Channel not found or missing bot token',
+        });
+      }
+
+      // The poll is kept as published, its results are collected from poll updates
+      const pollResult = await pollService.publish(claimedPoll, channel);
+
+      if (!pollResult.success) {
+        return res.status(400).json({
+          success: false,
+          message: `Failed to publish poll: ${pollResult.message}`,
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Poll published successfully',
+        poll: claimedPoll,
+      });
+    } finally {
+      await lockService.release(ScheduledPoll, id);
     }
+  } catch (error) {
+    console.error('Error publishing scheduled poll:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to publish scheduled poll',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
 
-    // Create a Telegram service instance
-    const telegramService = new TelegramService(channel.botToken);
+/**
+ * Close a published poll early with stopPoll; the final results are stored on the poll
+ */
+export const stopScheduledPoll = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?._id;
 
-    // Send the poll
-    const pollResult = await telegramService.sendPoll(chatId, {
-      question: scheduledPoll.question,
-      options: scheduledPoll.options,
-      isAnonymous: scheduledPoll.isAnonymous,
-      allowsMultipleAnswers: scheduledPoll.allowsMultipleAnswers
+    const scheduledPoll = await ScheduledPoll.findOne({
+      _id: id,
+      user: userId,
+      published: true,
     });
 
-    if (!pollResult.success) {
+    if (!scheduledPoll || !scheduledPoll.messageId || !scheduledPoll.chatId) {
+      return res.status(404).json({
+        success: false,
+        message: 'Published poll not found',
+      });
+    }
+
+    if (scheduledPoll.results?.isClosed) {
       return res.status(400).json({
         success: false,
-        message: `Failed to publish poll: ${pollResult.message}`,
+        message: 'Poll is already closed',
       });
     }
 
-    // Delete the poll instead of marking as published
-    await ScheduledPoll.findByIdAndDelete(scheduledPoll._id);
+    const user = await User.findById(userId);
+    const channel = user?.channels.find(c => c._id?.toString() === scheduledPoll.channelId.toString());
+
+    if (!channel || !channel.botToken) {
+      return res.status(404).json({
+        success: false,
+        message: 'Channel not found or missing bot token',
+      });
+    }
+
+    const stopResult = await pollService.stop(scheduledPoll, channel.botToken);
+
+    if (!stopResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: `Failed to stop poll: ${stopResult.message}`,
+      });
+    }
+
+    const stoppedPoll = await ScheduledPoll.findById(scheduledPoll._id);
 
     return res.status(200).json({
       success: true,
-      message: 'Poll published and deleted successfully',
+      message: 'Poll stopped successfully',
+      poll: stoppedPoll,
     });
   } catch (error) {
-    console.error('Error publishing scheduled poll:', error);
+    console.error('Error stopping poll:', error);
     return res.status(500).json({
       success: false,
-      message: 'Failed to publish scheduled poll',
+      message: 'Failed to stop poll',
       error: error instanceof Error ? error.message : 'Unknown error',
     });
   }
-}; 
\ No newline at end of file
+};
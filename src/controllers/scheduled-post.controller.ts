@@ -1,18 +1,26 @@
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import ScheduledPost from '../models/scheduled-post.model';
-import { publishToTelegram } from '../services/telegram.service';
-import User from '../models/user.model';
-
-// Set для хранения ID постов, которые сейчас обрабатываются
-// чтобы избежать дублирования обработки одного и того же поста
-const publishingPosts = new Set<string>();
+import postPublisher from '../services/postPublisher.service';
+import User, { IDraft } from '../models/user.model';
+import lockService from '../services/lock.service';
+import publicationService, { getScheduledPostSource } from '../services/publication.service';
+import recurringPostService from '../services/recurringPost.service';
+import schedulerService from '../services/scheduler.service';
+import approvalService, { isPublishable } from '../services/approval.service';
+import { validateMedia, normalizeMedia } from '../utils/mediaUtils';
+import { validateRecurrence, normalizeRecurrence } from '../utils/recurrenceUtils';
+import { isReschedulable, getRescheduleUpdate } from '../utils/retryUtils';
+
+// Which occurrences of a recurring post an edit or deletion applies to
+type OccurrenceScope = 'this' | 'all';
 
 /**
  * Create a new scheduled post
  */
 export const createScheduledPost = async (req: Request, res: Response) => {
   try {
-    const { channelId, text, imageUrl, imageUrls, tags, scheduledDate, imagePosition, buttons } = req.body;
+    const { channelId, text, imageUrl, imageUrls, media, tags, scheduledDate, imagePosition, buttons, recurrence, submitForReview, draftId } = req.body;
     const userId = req.user?._id;
 
     if (!channelId || !text || !scheduledDate) {
@@ -75,21 +83,71 @@ export const createScheduledPost = async (req: Request, res: Response) => {
       }
     }
 
+    // Typed media replaces imageUrl/imageUrls
+    if (media !== undefined) {
+      if ((imageUrl || (imageUrls && imageUrls.length > 0)) && media.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cannot have both media and imageUrl/imageUrls. Use media for all attachments.',
+        });
+      }
+
+      const mediaError = validateMedia(media);
+      if (mediaError) {
+        return res.status(400).json({
+          success: false,
+          message: mediaError,
+        });
+      }
+    }
+
+    // The publication of a post scheduled from a draft is recorded with the draft as its source
+    if (draftId && !req.user!.drafts?.some((draft: IDraft) => draft._id?.toString() === draftId)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Draft not found',
+      });
+    }
+
+    if (recurrence) {
+      const recurrenceError = validateRecurrence(recurrence, scheduledDateObj);
+      if (recurrenceError) {
+        return res.status(400).json({
+          success: false,
+          message: recurrenceError,
+        });
+      }
+    }
+
     const scheduledPost = new ScheduledPost({
       channelId,
       text,
       imageUrl,
       imageUrls: Array.isArray(imageUrls) ? imageUrls : [],
+      media: media ? normalizeMedia(media) : [],
       tags,
       scheduledDate: scheduledDateObj,
       imagePosition: imagePosition || 'top',
       buttons: Array.isArray(buttons) ? buttons : [],
       published: false,
       user: userId,
+      recurrence: recurrence ? normalizeRecurrence(recurrence, scheduledDateObj) : null,
+      draftId: draftId || null,
+      // Channels with approval get a draft, or a post waiting for review with submitForReview
+      approval: approvalService.createApproval(req.user!, channelId, submitForReview === true),
     });
 
+    // The first occurrence identifies the series
+    if (recurrence) {
+      scheduledPost.seriesId = scheduledPost._id as mongoose.Types.ObjectId;
+    }
+
     await scheduledPost.save();
 
+    if (scheduledPost.approval?.status === 'pending_review') {
+      await approvalService.notifySubmitted('post', scheduledPost);
+    }
+
     return res.status(201).json({
       success: true,
       message: 'Scheduled post created successfully',
@@ -114,7 +172,12 @@ export const getScheduledPosts = async (req: Request, res: Response) => {
     const scheduledPosts = await ScheduledPost.find({ 
       user: userId,
       published: false,
-      scheduledDate: { $gt: new Date() }
+      status: { $ne: 'failed' },
+      $or: [
+        { scheduledDate: { $gt: new Date() } },
+        // Posts waiting for a retry are overdue but still queued
+        { attempts: { $gt: 0 } }
+      ]
     }).sort({ scheduledDate: 1 });
 
     return res.status(200).json({
@@ -133,13 +196,15 @@ export const getScheduledPosts = async (req: Request, res: Response) => {
 
 /**
  * Delete a scheduled post
+ * For a recurring post, ?scope=all deletes this and all future occurrences; by default only this one is skipped
  */
 export const deleteScheduledPost = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const scope: OccurrenceScope = req.query.scope === 'all' ? 'all' : 'this';
     const userId = req.user?._id;
 
-    const scheduledPost = await ScheduledPost.findOneAndDelete({
+    const scheduledPost = await ScheduledPost.findOne({
       _id: id,
       user: userId,
       published: false,
@@ -152,6 +217,27 @@ export const deleteScheduledPost = async (req: Request, res: Response) => {
       });
     }
 
+    // The instance holding the lease would publish it anyway, leaving a publication without its scheduled post
+    if (scheduledPost.status === 'publishing') {
+      return res.status(409).json({
+        success: false,
+        message: 'Scheduled post is being published and cannot be deleted',
+      });
+    }
+
+    if (scheduledPost.seriesId && scope === 'all') {
+      const deletedCount = await recurringPostService.deleteFutureOccurrences(scheduledPost);
+
+      return res.status(200).json({
+        success: true,
+        message: `${deletedCount} scheduled posts deleted successfully`,
+      });
+    }
+
+    // Skipping an occurrence keeps the series going
+    await recurringPostService.scheduleNextOccurrence(scheduledPost);
+    await scheduledPost.deleteOne();
+
     return res.status(200).json({
       success: true,
       message: 'Scheduled post deleted successfully',
@@ -168,13 +254,26 @@ export const deleteScheduledPost = async (req: Request, res: Response) => {
 
 /**
  * Update a scheduled post
+ * For a recurring post, scope "this" (default) edits only this occurrence and takes it out of the series,
+ * scope "all" edits this and all future occurrences; the recurrence itself can only be changed with "all"
  */
 export const updateScheduledPost = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { text, imageUrl, imageUrls, tags, scheduledDate, imagePosition, buttons } = req.body;
+    const { text, imageUrl, imageUrls, media, tags, scheduledDate, imagePosition, buttons, recurrence } = req.body;
+    const scope: OccurrenceScope = req.body.scope === 'all' ? 'all' : 'this';
     const userId = req.user?._id;
 
+    if (media !== undefined) {
+      const mediaError = validateMedia(media);
+      if (mediaError) {
+        return res.status(400).json({
+          success: false,
+          message: mediaError,
+        });
+      }
+    }
+
     // Validate scheduledDate is in the future if provided
     if (scheduledDate) {
       const scheduledDateObj = new Date(scheduledDate);
@@ -186,23 +285,11 @@ export const updateScheduledPost = async (req: Request, res: Response) => {
       }
     }
 
-    const scheduledPost = await ScheduledPost.findOneAndUpdate(
-      {
-        _id: id,
-        user: userId,
-        published: false,
-      },
-      {
-        ...(text && { text }),
-        ...(imageUrl !== undefined && { imageUrl }),
-        ...(imageUrls && { imageUrls: Array.isArray(imageUrls) ? imageUrls : [] }),
-        ...(tags && { tags }),
-        ...(scheduledDate && { scheduledDate: new Date(scheduledDate) }),
-        ...(imagePosition && { imagePosition }),
-        ...(buttons && { buttons: Array.isArray(buttons) ? buttons : [] }),
-      },
-      { new: true }
-    );
+    const scheduledPost = await ScheduledPost.findOne({
+      _id: id,
+      user: userId,
+      published: false,
+    });
 
     if (!scheduledPost) {
       return res.status(404).json({
@@ -211,10 +298,95 @@ export const updateScheduledPost = async (req: Request, res: Response) => {
       });
     }
 
+    if (scheduledPost.seriesId && scope === 'this' && recurrence !== undefined) {
+      return res.status(400).json({
+        success: false,
+        message: 'Recurrence can only be changed for all future occurrences (scope: "all")',
+      });
+    }
+
+    if (recurrence) {
+      const recurrenceError = validateRecurrence(recurrence, scheduledDate ? new Date(scheduledDate) : scheduledPost.scheduledDate);
+      if (recurrenceError) {
+        return res.status(400).json({
+          success: false,
+          message: recurrenceError,
+        });
+      }
+    }
+
+    // The date and recurrence of a series belong to the occurrence that continues it
+    const head = scheduledPost.seriesId && scope === 'all'
+      ? await recurringPostService.findSeriesHead(scheduledPost.seriesId)
+      : null;
+
+    if (scheduledDate && !isReschedulable((head || scheduledPost).status)) {
+      return res.status(409).json({
+        success: false,
+        message: 'Scheduled post is being published and cannot be rescheduled',
+      });
+    }
+
+    const contentUpdate = {
+      ...(text && { text }),
+      ...(imageUrl !== undefined && { imageUrl }),
+      ...(imageUrls && { imageUrls: Array.isArray(imageUrls) ? imageUrls : [] }),
+      ...(media && { media: normalizeMedia(media) }),
+      ...(tags && { tags }),
+      ...(imagePosition && { imagePosition }),
+      ...(buttons && { buttons: Array.isArray(buttons) ? buttons : [] }),
+    };
+
+    // Changed content has to be reviewed again
+    const reopened = Object.keys(contentUpdate).length > 0 && approvalService.reopenAfterEdit(scheduledPost, userId);
+
+    if (scheduledPost.seriesId && scope === 'all') {
+      await recurringPostService.updateFutureOccurrences(scheduledPost, {
+        ...contentUpdate,
+        ...(reopened && { 'approval.status': 'pending_review' }),
+      });
+
+      if (head && (scheduledDate || recurrence !== undefined)) {
+        const dtStart = scheduledDate ? new Date(scheduledDate) : head.scheduledDate;
+        if (scheduledDate) {
+          head.set(getRescheduleUpdate(head.status, dtStart));
+          approvalService.resetHold(head);
+        }
+        // A changed rule or date restarts the series from this occurrence
+        if (recurrence === undefined) {
+          head.set('recurrence.dtStart', dtStart);
+        } else {
+          head.recurrence = recurrence ? normalizeRecurrence(recurrence, dtStart) : null;
+        }
+        await head.save();
+      }
+    } else {
+      if (scheduledPost.seriesId) {
+        // An occurrence edited on its own leaves the series, which continues with the next occurrence
+        await recurringPostService.scheduleNextOccurrence(scheduledPost);
+      } else if (recurrence) {
+        scheduledPost.recurrence = normalizeRecurrence(recurrence, scheduledDate ? new Date(scheduledDate) : scheduledPost.scheduledDate);
+        scheduledPost.seriesId = scheduledPost._id as mongoose.Types.ObjectId;
+      }
+
+      scheduledPost.set(contentUpdate);
+      if (scheduledDate) {
+        scheduledPost.set(getRescheduleUpdate(scheduledPost.status, new Date(scheduledDate)));
+        approvalService.resetHold(scheduledPost);
+      }
+      await scheduledPost.save();
+    }
+
+    if (reopened) {
+      await approvalService.notifyChanged('post', scheduledPost);
+    }
+
+    const updatedPost = await ScheduledPost.findById(scheduledPost._id);
+
     return res.status(200).json({
       success: true,
       message: 'Scheduled post updated successfully',
-      data: scheduledPost,
+      data: updatedPost,
     });
   } catch (error) {
     console.error('Error updating scheduled post:', error);
@@ -236,7 +408,6 @@ export const publishScheduledPost = async (req: Request, res: Response) => {
     const userId = req.user?._id;
 
     console.log(`[CONTROLLER] Publishing scheduled post: ${id} for user ${userId}`);
-    console.log(`[CONTROLLER] Current processing posts: ${Array.from(publishingPosts).join(', ')}`);
 
     // Find the post
     const scheduledPost = await ScheduledPost.findOne({
@@ -253,6 +424,13 @@ export const publishScheduledPost = async (req: Request, res: Response) => {
       });
     }
 
+    if (!isPublishable(scheduledPost)) {
+      return res.status(400).json({
+        success: false,
+        message: `Post cannot be published before it is approved (status: ${scheduledPost.approval?.status})`,
+      });
+    }
+
     console.log(`[CONTROLLER] Found scheduled post: ${JSON.stringify({
       id: scheduledPost._id,
       channelId: scheduledPost.channelId,
@@ -263,11 +441,15 @@ export const publishScheduledPost = async (req: Request, res: Response) => {
       buttonCount: scheduledPost.buttons?.length || 0
     })}`);
 
-    // Убедимся, что мы не обрабатываем один и тот же запланированный пост несколько раз
-    const alreadyProcessing = publishingPosts.has(id);
-    console.log(`[CONTROLLER] Post ${id} is already being processed: ${alreadyProcessing}`);
+    // Убедимся, что пост не публикуется одновременно планировщиком или другим запросом
+    // (в том числе на другой реплике сервера)
+    const claimedPost = await lockService.claim(ScheduledPost, {
+      _id: id,
+      user: userId,
+      published: false,
+    });
     
-    if (alreadyProcessing) {
+    if (!claimedPost) {
       console.log(`[CONTROLLER] Post ${id} is already being processed, skipping duplicate request`);
       return res.status(200).json({
         success: true,
@@ -275,9 +457,6 @@ export const publishScheduledPost = async (req: Request, res: Response) => {
       });
     }
 
-    // Добавляем ID поста в список обрабатываемых
-    publishingPosts.add(id);
-
     try {
       // Find the user
       const user = await User.findById(userId);
@@ -311,38 +490,66 @@ export const publishScheduledPost = async (req: Request, res: Response) => {
 
       console.log(`[CONTROLLER] Ready to publish with params: imagePosition=${imagePosition}, buttons=${JSON.stringify(buttons)}`);
 
+      // Manual attempts count towards the attempt limit like the scheduler's
+      scheduledPost.attempts = (scheduledPost.attempts || 0) + 1;
+      await scheduledPost.save();
+
       // Publish to Telegram
-      const result = await publishToTelegram(
-        channel.username,
-        channel.botToken,
-        scheduledPost.text,
-        scheduledPost.imageUrl,
-        scheduledPost.imageUrls,
-        scheduledPost.tags,
+      const result = await postPublisher.publish(channel.username, channel.botToken, {
+        text: scheduledPost.text,
+        imageUrl: scheduledPost.imageUrl,
+        imageUrls: scheduledPost.imageUrls,
+        media: scheduledPost.media,
+        tags: scheduledPost.tags,
         imagePosition,
         buttons
-      );
+      });
 
       console.log(`[CONTROLLER] Publish result: ${JSON.stringify(result)}`);
 
       if (!result.success) {
+        await schedulerService.handlePublishFailure(scheduledPost, result);
+
         return res.status(500).json({
           success: false,
           message: `Failed to publish: ${result.message}`,
         });
       }
 
-      // Delete the post instead of marking as published
-      await ScheduledPost.findByIdAndDelete(scheduledPost._id);
-      console.log(`[CONTROLLER] Deleted scheduled post after successful publishing: ${id}`);
+      scheduledPost.status = 'published';
+      scheduledPost.published = true;
+      scheduledPost.publishedAt = new Date();
+      scheduledPost.nextAttemptAt = null;
+      scheduledPost.lastError = undefined;
+      await scheduledPost.save();
+      console.log(`[CONTROLLER] Marked scheduled post as published: ${id}`);
+
+      await publicationService.recordPublication({
+        userId: scheduledPost.user,
+        channel,
+        chatId: result.chatId || channel.username,
+        messageIds: result.messageIds || [],
+        messages: result.messages,
+        text: result.text || scheduledPost.text,
+        imageUrl: scheduledPost.imageUrl,
+        imageUrls: scheduledPost.imageUrls,
+        media: scheduledPost.media,
+        tags: scheduledPost.tags,
+        imagePosition,
+        buttons,
+        ...getScheduledPostSource(scheduledPost, 'manual')
+      });
+
+      await recurringPostService.scheduleNextOccurrence(scheduledPost);
 
       return res.status(200).json({
         success: true,
-        message: 'Post published and deleted successfully',
+        message: 'Post published successfully',
+        data: scheduledPost,
       });
     } finally {
-      // Удаляем ID из списка обрабатываемых в любом случае
-      publishingPosts.delete(id);
+      // Освобождаем захват в любом случае
+      await lockService.release(ScheduledPost, id);
     }
   } catch (error) {
     console.error('[CONTROLLER] Error publishing scheduled post:', error);
@@ -386,4 +593,79 @@ export const getScheduledPostById = async (req: Request, res: Response) => {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
   }
-}; 
\ No newline at end of file
+}; 
+/**
+ * Get scheduled posts that failed to publish
+ */
+export const getFailedScheduledPosts = async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?._id;
+    const failedPosts = await ScheduledPost.find({
+      user: userId,
+      status: 'failed',
+    }).sort({ updatedAt: -1 });
+
+    return res.status(200).json({
+      success: true,
+      posts: failedPosts,
+    });
+  } catch (error) {
+    console.error('Error getting failed scheduled posts:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to get failed scheduled posts',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Put a failed scheduled post back into the queue for immediate publishing
+ */
+export const retryScheduledPost = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?._id;
+
+    const scheduledPost = await ScheduledPost.findOneAndUpdate(
+      {
+        _id: id,
+        user: userId,
+        status: 'failed',
+      },
+      {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: null,
+        lastError: null,
+        // The scheduler picks up overdue posts on its next run
+        scheduledDate: new Date(),
+      },
+      { new: true }
+    );
+
+    if (!scheduledPost) {
+      return res.status(404).json({
+        success: false,
+        message: 'Failed scheduled post not found',
+      });
+    }
+
+    // Reviewers are notified again if the post is still not approved when it is due
+    approvalService.resetHold(scheduledPost);
+    await scheduledPost.save();
+
+    return res.status(200).json({
+      success: true,
+      message: 'Scheduled post queued for retry',
+      data: scheduledPost,
+    });
+  } catch (error) {
+    console.error('Error retrying scheduled post:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to retry scheduled post',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
@@ -1,8 +1,11 @@
-import { Request, Response } from 'express';
+import { Request, RequestHandler, Response } from 'express';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import User from '../models/user.model';
 import config from '../config/config';
+import telegramUpdateService from '../services/telegramUpdate.service';
+import telegramRateLimiter from '../services/telegramRateLimiter.service';
+import { getBotId, maskBotToken } from '../utils/botTokenCrypto';
 
 // Telegram bot token from config
 const BOT_TOKEN = config.telegramBotToken;
@@ -112,6 +115,60 @@ export const verifyTelegramLogin = async (req: Request, res: Response): Promise<
   }
 };
 
+// Receive an update of a channel bot; the URL and secret token are registered with setWebhook
+export const receiveWebhookUpdate = async (req: Request, res: Response): Promise<void> => {
+  const { channelBotId } = req.params;
+
+  if (!telegramUpdateService.isValidWebhookSecret(channelBotId, req.get('X-Telegram-Bot-Api-Secret-Token'))) {
+    res.status(401).json({
+      success: false,
+      message: 'Invalid secret token',
+    });
+    return;
+  }
+
+  if (!req.body || typeof req.body.update_id !== 'number') {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid update',
+    });
+    return;
+  }
+
+  try {
+    await telegramUpdateService.handleUpdate(channelBotId, req.body);
+    res.status(200).json({ success: true });
+  } catch (error) {
+    // Telegram repeats the delivery, the update is processed then
+    console.error(`Error handling Telegram update of bot ${channelBotId}:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Error handling update',
+    });
+  }
+};
+
+// Queue depth of the Bot API rate limiter per bot and chat, limited to the bots of the user's channels
+export const getRateLimitMetrics: RequestHandler = (req, res) => {
+  const botIds = new Set<string>();
+  for (const channel of req.user?.channels || []) {
+    if (!channel.botToken) {
+      continue;
+    }
+    try {
+      botIds.add(getBotId(channel.botToken));
+    } catch (error) {
+      // A token encrypted with a key that is no longer configured cannot be used to publish either
+      console.warn(`Cannot read the bot token of channel ${channel.username}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  res.status(200).json({
+    success: true,
+    data: telegramRateLimiter.getMetrics(Array.from(botIds)),
+  });
+};
+
 // Validate Telegram authentication data
 function isValidTelegramAuth(authData: TelegramAuthData): boolean {
   // Create a data check string by sorting the received fields alphabetically
@@ -122,7 +179,7 @@ function isValidTelegramAuth(authData: TelegramAuthData): boolean {
     .join('\n');
 
   console.log('Data check string:', dataCheckString);
-  console.log('Bot token for validation:', BOT_TOKEN);
+  console.log('Bot token for validation:', maskBotToken(BOT_TOKEN));
 
   // Create a secret key by hashing the bot token with SHA-256
   const secretKey = crypto
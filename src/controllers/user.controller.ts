@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import User from '../models/user.model';
+import { calculateRuleNextScheduledDate, isValidTimeZone } from '../utils/dateUtils';
 
 // Get current user
 export const getCurrentUser = async (req: Request, res: Response): Promise<void> => {
@@ -28,4 +29,56 @@ export const getCurrentUser = async (req: Request, res: Response): Promise<void>
       error: (error as Error).message,
     });
   }
-}; 
\ No newline at end of file
+};
+
+// Update settings of the current user
+export const updateCurrentUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // @ts-ignore - We'll add user to req with auth middleware
+    const userId = req.user.id;
+    const { timezone } = req.body;
+
+    if (timezone && !isValidTimeZone(timezone)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid timezone, use an IANA name such as Europe/Berlin',
+      });
+      return;
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    if (timezone !== undefined && (timezone || null) !== (user.timezone || null)) {
+      user.timezone = timezone || null;
+
+      // Rules without their own time zone follow the user's one
+      for (const rule of user.autoPostingRules || []) {
+        if (rule.status === 'active' && !rule.timezone) {
+          rule.nextScheduled = calculateRuleNextScheduledDate(user, rule);
+        }
+      }
+    }
+
+    await user.save();
+
+    res.status(200).json({
+      success: true,
+      user,
+    });
+  } catch (error) {
+    console.error('Update current user error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating user data',
+      error: (error as Error).message,
+    });
+  }
+};
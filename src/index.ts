@@ -11,10 +11,16 @@ import stripeRoutes from './routes/stripe.routes';
 import uploadRoutes from './routes/upload.routes';
 import scheduledPostRoutes from './routes/scheduled-post.routes';
 import scheduledPollRoutes from './routes/scheduled-poll.routes';
+import campaignRoutes from './routes/campaign.routes';
+import calendarRoutes from './routes/calendar.routes';
+import approvalRoutes from './routes/approval.routes';
 import draftRoutes from './routes/draft.routes';
 import autoPostingRoutes from './routes/autoposting.routes';
+import publishedPostRoutes from './routes/published-post.routes';
 import CreditService from './services/credit.service';
 import schedulerService from './services/scheduler.service';
+import botTokenService from './services/botToken.service';
+import telegramUpdateService from './services/telegramUpdate.service';
 import path from 'path';
 
 // Initialize express app
@@ -55,7 +61,7 @@ app.use('/api/stripe', stripeRoutes);
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Статический маршрут для загруженных файлов
+// Статический маршрут для загруженных файлов (при STORAGE_DRIVER=s3 файлы отдает бакет)
 app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 
 // All other routes (which use parsed JSON bodies)
@@ -67,8 +73,12 @@ app.use('/api/ai', aiRoutes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/scheduled-posts', scheduledPostRoutes);
 app.use('/api/scheduled-polls', scheduledPollRoutes);
+app.use('/api/campaigns', campaignRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/approvals', approvalRoutes);
 app.use('/api/drafts', draftRoutes);
 app.use('/api/autoposting', autoPostingRoutes);
+app.use('/api/published-posts', publishedPostRoutes);
 
 // Default route
 app.get('/', (_req: Request, res: Response) => {
@@ -102,6 +112,10 @@ const setupScheduler = () => {
 
   // Start the scheduler for scheduled posts
   schedulerService.start();
+
+  // Receive updates of channel bots (webhooks or long polling)
+  telegramUpdateService.start()
+    .catch(error => console.error('Error starting Telegram updates:', error));
 };
 
 // Connect to MongoDB and start server
@@ -110,6 +124,9 @@ const startServer = async (): Promise<void> => {
     await mongoose.connect(config.mongodbUri);
     console.log('Connected to MongoDB');
 
+    // Encrypt bot tokens saved in plain text or with a rotated-out key
+    await botTokenService.reencryptStoredTokens();
+
     const PORT = config.port;
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT} in ${config.nodeEnv} mode`);
@@ -0,0 +1,94 @@
+import mongoose, { Schema } from 'mongoose';
+
+// draft - written, not sent to review yet; pending_review - waiting for a reviewer;
+// approved - published at the scheduled time; rejected - sent back to the author with a comment
+export type ApprovalStatus = 'draft' | 'pending_review' | 'approved' | 'rejected';
+
+export const APPROVAL_STATUSES: ApprovalStatus[] = ['draft', 'pending_review', 'approved', 'rejected'];
+
+// What happened to the item; comments without a status change are 'comment'
+export type ApprovalAction = 'comment' | 'submitted' | 'approved' | 'rejected' | 'changed';
+
+export interface IApprovalComment {
+  author: mongoose.Types.ObjectId;
+  action: ApprovalAction;
+  text?: string | null;
+  createdAt: Date;
+}
+
+// Review state of a scheduled post or poll in a channel with approval enabled
+export interface IApproval {
+  status: ApprovalStatus;
+  reviewerIds: mongoose.Types.ObjectId[]; // Copied from the channel settings when the item is created
+  comments: IApprovalComment[];
+  submittedAt?: Date | null;
+  reviewedBy?: mongoose.Types.ObjectId | null;
+  reviewedAt?: Date | null;
+  heldAt?: Date | null; // Set when the item was due but not approved; reviewers are notified once
+}
+
+const ApprovalCommentSchema = new Schema<IApprovalComment>(
+  {
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ['comment', 'submitted', 'approved', 'rejected', 'changed'],
+      required: true,
+    },
+    text: {
+      type: String,
+      default: null,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+// Embedded in scheduled posts and polls
+export const ApprovalSchema = new Schema<IApproval>(
+  {
+    status: {
+      type: String,
+      enum: APPROVAL_STATUSES,
+      required: true,
+    },
+    reviewerIds: {
+      type: [Schema.Types.ObjectId],
+      ref: 'User',
+      default: [],
+    },
+    comments: {
+      type: [ApprovalCommentSchema],
+      default: [],
+    },
+    submittedAt: {
+      type: Date,
+      default: null,
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+    heldAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    _id: false,
+  }
+);
@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Outcome of a campaign in one channel, read from its scheduled post
+export type CampaignChannelStatus = 'pending' | 'publishing' | 'published' | 'failed' | 'paused' | 'cancelled';
+
+// Spreading of a campaign over time: channel N is published N * spacing minutes after the first one,
+// plus a random offset of up to jitter minutes
+export interface CampaignStagger {
+  spacingMinutes: number;
+  jitterMinutes: number;
+  order: 'listed' | 'random';
+}
+
+// One piece of content published or scheduled to several channels at once
+// Every channel gets its own scheduled post with the campaignId, so publishing, retries and
+// health pauses work the same way as for single posts
+export interface ICampaign extends Document {
+  user: mongoose.Types.ObjectId;
+  title: string;
+  draftId?: string | null; // Draft the content was taken from
+  channelIds: string[];
+  scheduledDate: Date; // Publication in the first channel
+  stagger?: CampaignStagger | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CampaignSchema = new Schema<ICampaign>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    draftId: {
+      type: String,
+      default: null,
+    },
+    channelIds: {
+      type: [String],
+      default: [],
+    },
+    scheduledDate: {
+      type: Date,
+      required: true,
+    },
+    stagger: {
+      type: new Schema<CampaignStagger>({
+        spacingMinutes: { type: Number, required: true },
+        jitterMinutes: { type: Number, default: 0 },
+        order: { type: String, enum: ['listed', 'random'], default: 'listed' },
+      }, { _id: false }),
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+CampaignSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model<ICampaign>('Campaign', CampaignSchema);
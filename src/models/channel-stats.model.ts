@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Member count of a channel, one sample per channel and hour
+export interface IChannelStats extends Document {
+  user: mongoose.Types.ObjectId;
+  channelId: string;
+  chatId?: string;
+  memberCount: number;
+  collectedAt: Date; // start of the hour the sample belongs to
+}
+
+const ChannelStatsSchema = new Schema<IChannelStats>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    channelId: {
+      type: String,
+      required: true,
+    },
+    chatId: {
+      type: String,
+      required: false,
+    },
+    memberCount: {
+      type: Number,
+      required: true,
+    },
+    collectedAt: {
+      type: Date,
+      required: true,
+    },
+  }
+);
+
+ChannelStatsSchema.index({ channelId: 1, collectedAt: 1 }, { unique: true });
+
+export default mongoose.model<IChannelStats>('ChannelStats', ChannelStatsSchema);
@@ -0,0 +1,39 @@
+import { Schema } from 'mongoose';
+
+export type PostMediaType = 'photo' | 'video' | 'animation' | 'document' | 'audio';
+
+export const POST_MEDIA_TYPES: PostMediaType[] = ['photo', 'video', 'animation', 'document', 'audio'];
+
+// A media attachment of a post or draft
+export interface IPostMedia {
+  type: PostMediaType;
+  url: string;
+  fileName?: string;
+  mimeType?: string;
+}
+
+// Embedded in scheduled posts, drafts and published posts
+export const PostMediaSchema = new Schema<IPostMedia>(
+  {
+    type: {
+      type: String,
+      enum: POST_MEDIA_TYPES,
+      required: true,
+    },
+    url: {
+      type: String,
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: false,
+    },
+    mimeType: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    _id: false,
+  }
+);
@@ -0,0 +1,58 @@
+import { Schema } from 'mongoose';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+// Weekday codes as in RRULE BYDAY, in week order
+export const RECURRENCE_WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+// An RRULE-style recurrence of a scheduled post
+// The series starts at dtStart, which is also the time of day of every occurrence
+export interface IPostRecurrence {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: string[]; // WEEKLY only; empty means the weekday of dtStart
+  dtStart: Date;
+  until?: Date | null;
+  count?: number | null; // Occurrences including dtStart; skipped dates are counted too
+  exDates: Date[];
+}
+
+// Embedded in scheduled posts
+export const PostRecurrenceSchema = new Schema<IPostRecurrence>(
+  {
+    freq: {
+      type: String,
+      enum: RECURRENCE_FREQUENCIES,
+      required: true,
+    },
+    interval: {
+      type: Number,
+      default: 1,
+    },
+    byDay: {
+      type: [String],
+      default: [],
+    },
+    dtStart: {
+      type: Date,
+      required: true,
+    },
+    until: {
+      type: Date,
+      default: null,
+    },
+    count: {
+      type: Number,
+      default: null,
+    },
+    exDates: {
+      type: [Date],
+      default: [],
+    },
+  },
+  {
+    _id: false,
+  }
+);
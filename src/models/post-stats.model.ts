@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { PostReactionCount, PostReactionCountSchema } from './published-post.model';
+
+// A sample of the engagement of a published post, collected periodically to build its time series
+export interface IPostStats extends Document {
+  user: mongoose.Types.ObjectId;
+  publishedPost: mongoose.Types.ObjectId;
+  channelId: string;
+  views: number | null;
+  reactions: PostReactionCount[];
+  reactionCount: number;
+  collectedAt: Date;
+}
+
+const PostStatsSchema = new Schema<IPostStats>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    publishedPost: {
+      type: Schema.Types.ObjectId,
+      ref: 'PublishedPost',
+      required: true,
+    },
+    channelId: {
+      type: String,
+      required: true,
+    },
+    views: {
+      type: Number,
+      default: null,
+    },
+    reactions: {
+      type: [PostReactionCountSchema],
+      default: [],
+    },
+    reactionCount: {
+      type: Number,
+      default: 0,
+    },
+    collectedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  }
+);
+
+PostStatsSchema.index({ publishedPost: 1, collectedAt: 1 });
+
+export default mongoose.model<IPostStats>('PostStats', PostStatsSchema);
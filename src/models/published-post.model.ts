@@ -0,0 +1,174 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IPostMedia, PostMediaSchema, POST_MEDIA_TYPES, PostMediaType } from './post-media.model';
+
+export type PublicationSource = 'manual' | 'scheduled' | 'autoposting' | 'draft';
+
+export const PUBLICATION_SOURCES: PublicationSource[] = ['manual', 'scheduled', 'autoposting', 'draft'];
+
+// A single Telegram message that is part of a published post
+// type - text messages are edited with editMessageText, media with editMessageCaption/editMessageMedia
+// role - main message, album item, separate "Links" message with buttons or full text of a long caption
+export interface PublishedMessage {
+  messageId: number;
+  type: 'text' | PostMediaType;
+  role: 'main' | 'album' | 'links' | 'continuation';
+}
+
+// Reaction counter, reaction is an emoji, custom:<id> for custom emoji or "paid" for Telegram Stars
+export interface PostReactionCount {
+  reaction: string;
+  count: number;
+}
+
+// Latest engagement numbers of a post, the history is kept in PostStats samples
+// views - only known for public channels (read from the t.me embed widget), null otherwise
+export interface PublishedPostStats {
+  views: number | null;
+  reactions: PostReactionCount[];
+  reactionCount: number;
+  collectedAt?: Date | null;
+  nextCollectAt?: Date | null; // when the analytics collector samples the post again
+}
+
+export const PostReactionCountSchema = new Schema<PostReactionCount>({
+  reaction: { type: String, required: true },
+  count: { type: Number, default: 0 },
+}, { _id: false });
+
+export interface IPublishedPost extends Document {
+  user: mongoose.Types.ObjectId;
+  channelId: string;
+  channelUsername: string;
+  channelTitle?: string;
+  chatId: string;
+  messageIds: number[];
+  messages: PublishedMessage[];
+  text: string;
+  imageUrl?: string;
+  imageUrls?: string[];
+  media?: IPostMedia[];
+  tags: string[];
+  imagePosition?: 'top' | 'bottom';
+  buttons?: { text: string; url: string }[];
+  source: PublicationSource;
+  sourceId?: string; // ID of the scheduled post, autoposting rule or draft
+  scheduledPostId?: string | null; // Scheduled post the publication went out from, also when its source is a draft
+  publishedAt: Date;
+  editedAt?: Date | null;
+  deletedAt?: Date | null;
+  stats?: PublishedPostStats;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PublishedPostSchema = new Schema<IPublishedPost>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    channelId: {
+      type: String,
+      required: true,
+    },
+    channelUsername: {
+      type: String,
+      required: true,
+    },
+    channelTitle: {
+      type: String,
+      required: false,
+    },
+    chatId: {
+      type: String,
+      required: true,
+    },
+    messageIds: {
+      type: [Number],
+      default: [],
+    },
+    messages: {
+      type: [{
+        messageId: Number,
+        type: { type: String, enum: ['text', ...POST_MEDIA_TYPES] },
+        role: { type: String, enum: ['main', 'album', 'links', 'continuation'] },
+      }],
+      default: [],
+    },
+    text: {
+      type: String,
+      default: '',
+    },
+    imageUrl: {
+      type: String,
+      required: false,
+    },
+    imageUrls: {
+      type: [String],
+      default: [],
+    },
+    media: {
+      type: [PostMediaSchema],
+      default: [],
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    imagePosition: {
+      type: String,
+      enum: ['top', 'bottom'],
+    },
+    buttons: {
+      type: [{
+        text: String,
+        url: String
+      }],
+      default: [],
+    },
+    source: {
+      type: String,
+      enum: PUBLICATION_SOURCES,
+      required: true,
+    },
+    sourceId: {
+      type: String,
+      required: false,
+    },
+    scheduledPostId: {
+      type: String,
+      default: null,
+    },
+    publishedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    stats: {
+      views: { type: Number, default: null },
+      reactions: { type: [PostReactionCountSchema], default: [] },
+      reactionCount: { type: Number, default: 0 },
+      collectedAt: { type: Date, default: null },
+      nextCollectAt: { type: Date, default: null },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PublishedPostSchema.index({ user: 1, publishedAt: -1 });
+PublishedPostSchema.index({ user: 1, channelId: 1, publishedAt: -1 });
+PublishedPostSchema.index({ channelId: 1, messageIds: 1 });
+PublishedPostSchema.index({ publishedAt: -1, 'stats.nextCollectAt': 1 });
+PublishedPostSchema.index({ scheduledPostId: 1 });
+
+export default mongoose.model<IPublishedPost>('PublishedPost', PublishedPostSchema);
@@ -1,4 +1,31 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IApproval, ApprovalSchema } from './approval.model';
+
+export type PollType = 'regular' | 'quiz';
+
+export const POLL_TYPES: PollType[] = ['regular', 'quiz'];
+
+export type PollParseMode = 'HTML' | 'Markdown' | 'MarkdownV2';
+
+export const POLL_PARSE_MODES: PollParseMode[] = ['HTML', 'Markdown', 'MarkdownV2'];
+
+// Telegram MessageEntity; question and options only support custom_emoji entities
+export interface PollMessageEntity {
+  type: string;
+  offset: number;
+  length: number;
+  url?: string;
+  custom_emoji_id?: string;
+  [key: string]: any;
+}
+
+// Vote counts of a published poll, updated from poll updates and stopPoll
+export interface PollResults {
+  options: { text: string; voterCount: number }[];
+  totalVoterCount: number;
+  isClosed: boolean;
+  updatedAt: Date;
+}
 
 export interface IScheduledPoll extends Document {
   user: mongoose.Types.ObjectId;
@@ -7,8 +34,30 @@ export interface IScheduledPoll extends Document {
   options: string[];
   isAnonymous: boolean;
   allowsMultipleAnswers: boolean;
+  type: PollType;
+  correctOptionId?: number | null; // Index of the correct option, quiz only
+  explanation?: string | null; // Shown after a wrong quiz answer, up to 200 characters
+  parseMode?: PollParseMode | null; // Formatting of question, options and explanation without explicit entities
+  questionEntities?: PollMessageEntity[];
+  optionEntities?: PollMessageEntity[][]; // Entities of each option, by option index
+  explanationEntities?: PollMessageEntity[];
+  openPeriod?: number | null; // Seconds the poll stays open after publishing, 5-600
+  closeDate?: Date | null; // When the poll closes, 5-600 seconds after publishing
   scheduledDate: Date;
   published: boolean;
+  paused: boolean; // Not published while the channel is unhealthy
+  failed: boolean; // Gave up after a permanent error or too many attempts; editing or rescheduling puts it back into the queue
+  attempts: number;
+  nextAttemptAt?: Date | null;
+  lastError?: string | null;
+  approval?: IApproval | null; // Set when the channel requires approval; published only once approved
+  publishedAt?: Date | null;
+  chatId?: string | null;
+  messageId?: number | null;
+  telegramPollId?: string | null; // Poll ID assigned by Telegram, poll updates refer to it
+  results?: PollResults | null;
+  lockedBy?: string | null;
+  lockedUntil?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -46,6 +95,44 @@ const ScheduledPollSchema = new Schema<IScheduledPoll>(
       type: Boolean,
       default: false,
     },
+    type: {
+      type: String,
+      enum: POLL_TYPES,
+      default: 'regular',
+    },
+    correctOptionId: {
+      type: Number,
+      default: null,
+    },
+    explanation: {
+      type: String,
+      default: null,
+    },
+    parseMode: {
+      type: String,
+      enum: [...POLL_PARSE_MODES, null],
+      default: null,
+    },
+    questionEntities: {
+      type: [Schema.Types.Mixed],
+      default: undefined,
+    },
+    optionEntities: {
+      type: [[Schema.Types.Mixed]],
+      default: undefined,
+    },
+    explanationEntities: {
+      type: [Schema.Types.Mixed],
+      default: undefined,
+    },
+    openPeriod: {
+      type: Number,
+      default: null,
+    },
+    closeDate: {
+      type: Date,
+      default: null,
+    },
     scheduledDate: {
       type: Date,
       required: true,
@@ -54,10 +141,76 @@ const ScheduledPollSchema = new Schema<IScheduledPoll>(
       type: Boolean,
       default: false,
     },
+    paused: {
+      type: Boolean,
+      default: false,
+    },
+    failed: {
+      type: Boolean,
+      default: false,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    publishedAt: {
+      type: Date,
+      default: null,
+    },
+    chatId: {
+      type: String,
+      default: null,
+    },
+    messageId: {
+      type: Number,
+      default: null,
+    },
+    telegramPollId: {
+      type: String,
+      default: null,
+    },
+    results: {
+      type: {
+        _id: false,
+        options: [{
+          _id: false,
+          text: String,
+          voterCount: { type: Number, default: 0 },
+        }],
+        totalVoterCount: { type: Number, default: 0 },
+        isClosed: { type: Boolean, default: false },
+        updatedAt: Date,
+      },
+      default: null,
+    },
+    // Lease held by the scheduler instance that is publishing this poll
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    approval: {
+      type: ApprovalSchema,
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+ScheduledPollSchema.index({ telegramPollId: 1 });
+ScheduledPollSchema.index({ 'approval.reviewerIds': 1, 'approval.status': 1 });
+
 export default mongoose.model<IScheduledPoll>('ScheduledPoll', ScheduledPollSchema); 
\ No newline at end of file
@@ -1,4 +1,10 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IPostMedia, PostMediaSchema } from './post-media.model';
+import { IPostRecurrence, PostRecurrenceSchema } from './post-recurrence.model';
+import { IApproval, ApprovalSchema } from './approval.model';
+
+// paused - waiting for the channel to become healthy again, then returns to pending
+export type ScheduledPostStatus = 'pending' | 'publishing' | 'published' | 'failed' | 'paused';
 
 export interface IScheduledPost extends Document {
   user: mongoose.Types.ObjectId;
@@ -6,11 +12,25 @@ export interface IScheduledPost extends Document {
   text: string;
   imageUrl?: string;
   imageUrls?: string[];
+  media?: IPostMedia[]; // Typed media; takes precedence over imageUrl/imageUrls
   tags: string[];
   scheduledDate: Date;
   published: boolean;
+  status: ScheduledPostStatus;
+  attempts: number;
+  nextAttemptAt?: Date | null;
+  lastError?: string;
+  publishedAt?: Date | null;
+  lockedBy?: string | null;
+  lockedUntil?: Date | null;
   imagePosition?: 'top' | 'bottom';
   buttons?: { text: string; url: string }[];
+  // Set on the pending occurrence that continues the series; occurrences edited on their own have none
+  recurrence?: IPostRecurrence | null;
+  seriesId?: mongoose.Types.ObjectId | null;
+  campaignId?: mongoose.Types.ObjectId | null; // Set when the post was created for several channels at once
+  draftId?: string | null; // Draft the content was taken from; the publication is recorded with the draft as its source
+  approval?: IApproval | null; // Set when the channel requires approval; published only once approved
   createdAt: Date;
   updatedAt: Date;
 }
@@ -38,6 +58,10 @@ const ScheduledPostSchema = new Schema<IScheduledPost>(
       type: [String],
       default: [],
     },
+    media: {
+      type: [PostMediaSchema],
+      default: [],
+    },
     tags: {
       type: [String],
       default: [],
@@ -50,6 +74,36 @@ const ScheduledPostSchema = new Schema<IScheduledPost>(
       type: Boolean,
       default: false,
     },
+    status: {
+      type: String,
+      enum: ['pending', 'publishing', 'published', 'failed', 'paused'],
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      required: false,
+    },
+    publishedAt: {
+      type: Date,
+      default: null,
+    },
+    // Lease held by the scheduler instance that is publishing this post
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
     imagePosition: {
       type: String,
       enum: ['top', 'bottom'],
@@ -62,10 +116,36 @@ const ScheduledPostSchema = new Schema<IScheduledPost>(
       }],
       default: [],
     },
+    recurrence: {
+      type: PostRecurrenceSchema,
+      default: null,
+    },
+    // _id of the first occurrence of a recurring post
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    campaignId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Campaign',
+      default: null,
+    },
+    draftId: {
+      type: String,
+      default: null,
+    },
+    approval: {
+      type: ApprovalSchema,
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+ScheduledPostSchema.index({ seriesId: 1, published: 1 });
+ScheduledPostSchema.index({ campaignId: 1 });
+ScheduledPostSchema.index({ 'approval.reviewerIds': 1, 'approval.status': 1 });
+
 export default mongoose.model<IScheduledPost>('ScheduledPost', ScheduledPostSchema); 
\ No newline at end of file
@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { POST_MEDIA_TYPES, PostMediaType } from './post-media.model';
+
+// Telegram file_id of media we have already sent
+// file_id values are only valid for the bot that received them, so entries are per bot
+export interface ITelegramFile extends Document {
+  botId: string; // Numeric part of the bot token, the token itself is never stored
+  source: string; // Original URL of the media
+  type: PostMediaType;
+  fileId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TelegramFileSchema = new Schema<ITelegramFile>(
+  {
+    botId: {
+      type: String,
+      required: true,
+    },
+    source: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: POST_MEDIA_TYPES,
+      required: true,
+    },
+    fileId: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+TelegramFileSchema.index({ botId: 1, source: 1, type: 1 }, { unique: true });
+
+export default mongoose.model<ITelegramFile>('TelegramFile', TelegramFileSchema);
@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Updates are kept for a month, long enough to investigate and replay them
+const UPDATE_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+// An update received from Telegram for one of the channel bots
+export interface ITelegramUpdate extends Document {
+  botId: string; // Numeric part of the bot token
+  updateId: number;
+  type: string; // channel_post, edited_channel_post, poll, poll_answer, message_reaction_count, my_chat_member, ...
+  chatId?: string;
+  payload: Record<string, any>; // The update object as sent by Telegram
+  processedAt?: Date | null;
+  receivedAt: Date;
+}
+
+const TelegramUpdateSchema = new Schema<ITelegramUpdate>(
+  {
+    botId: {
+      type: String,
+      required: true,
+    },
+    updateId: {
+      type: Number,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    chatId: {
+      type: String,
+      required: false,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    processedAt: {
+      type: Date,
+      default: null,
+    },
+    receivedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  }
+);
+
+// Telegram repeats webhook deliveries that were not acknowledged
+TelegramUpdateSchema.index({ botId: 1, updateId: 1 }, { unique: true });
+TelegramUpdateSchema.index({ type: 1, chatId: 1, receivedAt: -1 });
+TelegramUpdateSchema.index({ receivedAt: 1 }, { expireAfterSeconds: UPDATE_RETENTION_SECONDS });
+
+export default mongoose.model<ITelegramUpdate>('TelegramUpdate', TelegramUpdateSchema);
@@ -1,13 +1,68 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { IPostMedia, PostMediaSchema } from './post-media.model';
+import { maskBotToken } from '../utils/botTokenCrypto';
 
 // Channel interface
+// unknown - not checked yet, unhealthy - the bot cannot publish: its jobs are paused until the channel recovers
+export type ChannelHealthStatus = 'unknown' | 'healthy' | 'unhealthy';
+
+// Time of day when nothing is published to a channel, "HH:MM" in the user's time zone; may span midnight
+export interface IQuietHours {
+  start: string;
+  end: string;
+}
+
+// Posts, polls and autoposting output of a channel with approval enabled are published only after a review
+export interface IChannelApproval {
+  enabled: boolean;
+  reviewerIds: mongoose.Types.ObjectId[]; // Users who may approve; the channel owner if empty
+}
+
 export interface IChannel {
   _id?: mongoose.Types.ObjectId;
   username: string;
   title: string;
   botToken?: string;
+  // Filled in from Telegram when the bot is verified (getChat/getChatMember)
+  chatId?: string; // Numeric chat ID, does not change when the channel is renamed
+  chatTitle?: string; // Title of the channel in Telegram
+  photoUrl?: string; // Channel photo copied to our storage
+  photoId?: string; // file_unique_id of the copied photo, to skip downloading it again
+  memberCount?: number;
+  botUsername?: string;
+  verifiedAt?: Date;
+  // Result of the periodic health check (see ChannelHealthService)
+  healthStatus?: ChannelHealthStatus;
+  healthError?: string | null;
+  healthErrorCode?: string | null;
+  healthCheckedAt?: Date;
+  quietHours?: IQuietHours | null; // Respected by autoposting rules
+  approval?: IChannelApproval | null;
 }
 
+const QuietHoursSchema = new Schema<IQuietHours>({
+  start: {
+    type: String,
+    required: true,
+  },
+  end: {
+    type: String,
+    required: true,
+  },
+}, { _id: false });
+
+const ChannelApprovalSchema = new Schema<IChannelApproval>({
+  enabled: {
+    type: Boolean,
+    default: false,
+  },
+  reviewerIds: {
+    type: [Schema.Types.ObjectId],
+    ref: 'User',
+    default: [],
+  },
+}, { _id: false });
+
 // Channel schema
 const ChannelSchema = new Schema<IChannel>({
   username: {
@@ -23,9 +78,46 @@ const ChannelSchema = new Schema<IChannel>({
   botToken: {
     type: String,
     trim: true,
-  }
+  },
+  chatId: String,
+  chatTitle: String,
+  photoUrl: String,
+  photoId: String,
+  memberCount: Number,
+  botUsername: String,
+  verifiedAt: Date,
+  healthStatus: {
+    type: String,
+    enum: ['unknown', 'healthy', 'unhealthy'],
+    default: 'unknown',
+  },
+  healthError: {
+    type: String,
+    default: null,
+  },
+  healthErrorCode: {
+    type: String,
+    default: null,
+  },
+  healthCheckedAt: Date,
+  quietHours: {
+    type: QuietHoursSchema,
+    default: null,
+  },
+  approval: {
+    type: ChannelApprovalSchema,
+    default: null,
+  },
 }, { _id: true });
 
+// The bot token is stored encrypted and never leaves the API, not even encrypted
+ChannelSchema.set('toJSON', {
+  transform: (_doc, ret) => {
+    ret.botToken = maskBotToken(ret.botToken);
+    return ret;
+  }
+});
+
 // AutoPosting Rule interface
 export enum Frequency {
   DAILY = 'daily',
@@ -43,12 +135,14 @@ export interface IAutoPostingRule {
   _id?: mongoose.Types.ObjectId;
   name: string;
   topic: string;
-  status: 'active' | 'inactive';
+  status: 'active' | 'inactive' | 'paused'; // paused - stopped while the channel is unhealthy
   frequency: Frequency;
   customInterval?: number;
   customTimeUnit?: TimeUnit;
   preferredTime?: string; // Format: "HH:MM"
+  preferredTimes?: string[]; // Daily slots "HH:MM" or windows "HH:MM-HH:MM" (random time inside); replace preferredTime when set
   preferredDays?: string[]; // Array of weekdays: ['monday', 'wednesday', etc.]
+  timezone?: string | null; // IANA time zone of preferredTime/preferredDays; the user's time zone if not set
   channelId: mongoose.Types.ObjectId | string;
   imageGeneration: boolean;
   keywords?: string[];
@@ -60,6 +154,8 @@ export interface IAutoPostingRule {
   contentHistory?: string[]; // Store content summaries for duplicate checking
   nextScheduled?: Date | null;
   lastPublished?: Date | null;
+  lockedBy?: string | null; // Scheduler instance currently running this rule
+  lockedUntil?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -74,7 +170,7 @@ export interface IAutoPostingHistory {
   imageUrl?: string;
   buttons?: { text: string; url: string }[];
   imagePosition?: 'top' | 'bottom';
-  status: 'success' | 'failed';
+  status: 'success' | 'failed' | 'pending_review'; // pending_review - the output waits for approval as a scheduled post
   error?: string;
   publishedAt: Date;
 }
@@ -94,7 +190,7 @@ const AutoPostingRuleSchema = new Schema<IAutoPostingRule>(
     },
     status: {
       type: String,
-      enum: ['active', 'inactive'],
+      enum: ['active', 'inactive', 'paused'],
       default: 'active',
     },
     frequency: {
@@ -114,10 +210,18 @@ const AutoPostingRuleSchema = new Schema<IAutoPostingRule>(
       type: String,
       default: '12:00',
     },
+    preferredTimes: {
+      type: [String],
+      default: [],
+    },
     preferredDays: {
       type: [String],
       default: ['monday', 'wednesday', 'friday'],
     },
+    timezone: {
+      type: String,
+      default: null,
+    },
     channelId: {
       type: Schema.Types.ObjectId,
       required: true,
@@ -166,6 +270,14 @@ const AutoPostingRuleSchema = new Schema<IAutoPostingRule>(
       type: Date,
       default: null,
     },
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -206,7 +318,7 @@ const AutoPostingHistorySchema = new Schema<IAutoPostingHistory>(
     },
     status: {
       type: String,
-      enum: ['success', 'failed'],
+      enum: ['success', 'failed', 'pending_review'],
       required: true,
     },
     error: {
@@ -229,6 +341,7 @@ export interface IDraft {
   content: string;
   imageUrl?: string;
   imageUrls?: string[];
+  media?: IPostMedia[]; // Typed media; takes precedence over imageUrl/imageUrls
   tags?: string[];
   imagePosition?: string; // 'top' | 'bottom'
   buttons?: { text: string; url: string }[];
@@ -256,6 +369,10 @@ const DraftSchema = new Schema<IDraft>(
       type: [String],
       default: [],
     },
+    media: {
+      type: [PostMediaSchema],
+      default: [],
+    },
     tags: {
       type: [String],
       default: [],
@@ -334,6 +451,7 @@ export interface IUser extends Document {
   firstName?: string;
   lastName?: string;
   photoUrl?: string;
+  timezone?: string | null; // IANA time zone for schedules; the server time zone if not set
   channels: IChannel[];
   drafts?: IDraft[];
   autoPostingRules?: IAutoPostingRule[];
@@ -380,6 +498,10 @@ const UserSchema = new Schema<IUser>(
     photoUrl: {
       type: String,
     },
+    timezone: {
+      type: String,
+      default: null,
+    },
     channels: {
       type: [ChannelSchema],
       default: [],
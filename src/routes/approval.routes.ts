@@ -0,0 +1,30 @@
+import express, { Router } from 'express';
+import {
+  getReviewQueue,
+  submitForReview,
+  approveItem,
+  rejectItem,
+  addReviewComment
+} from '../controllers/approval.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+
+const router: Router = express.Router();
+
+// All routes are protected
+router.use(authMiddleware);
+
+// Posts and polls waiting for the current user's review
+router.get('/', getReviewQueue as any);
+
+// :type is posts or polls
+// Send a draft or rejected item to review
+router.post('/:type/:id/submit', submitForReview as any);
+
+// Approve or reject an item waiting for review
+router.post('/:type/:id/approve', approveItem as any);
+router.post('/:type/:id/reject', rejectItem as any);
+
+// Comment without changing the status
+router.post('/:type/:id/comments', addReviewComment as any);
+
+export default router;
@@ -10,6 +10,9 @@ router.use(authenticateJWT);
 // Get all autoposting rules
 router.get('/rules', autoPostingController.getAutoPostingRules);
 
+// Compare autoposting rules by engagement
+router.get('/rules/analytics', autoPostingController.getAutoPostingAnalytics);
+
 // Get a specific autoposting rule
 router.get('/rules/:id', autoPostingController.getAutoPostingRuleById);
 
@@ -0,0 +1,16 @@
+import express, { Router } from 'express';
+import { getCalendar, rescheduleCalendarEntry } from '../controllers/calendar.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+
+const router: Router = express.Router();
+
+// All routes are protected
+router.use(authMiddleware);
+
+// Posts, polls, recurring occurrences and autoposting runs in a date range
+router.get('/', getCalendar as any);
+
+// Move a calendar entry to another date
+router.patch('/reschedule', rescheduleCalendarEntry as any);
+
+export default router;
@@ -0,0 +1,25 @@
+import express, { Router } from 'express';
+import { createCampaign, getCampaigns, getCampaignById, getCampaignTimeline, cancelCampaign } from '../controllers/campaign.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+
+const router: Router = express.Router();
+
+// All routes are protected
+router.use(authMiddleware);
+
+// Publish or schedule content to several channels at once
+router.post('/', createCampaign as any);
+
+// Get campaigns with the outcome in each channel
+router.get('/', getCampaigns as any);
+
+// Get a single campaign by ID
+router.get('/:id', getCampaignById as any);
+
+// Get the publications of a campaign in time order
+router.get('/:id/timeline', getCampaignTimeline as any);
+
+// Cancel the channels that were not published yet
+router.delete('/:id', cancelCampaign as any);
+
+export default router;
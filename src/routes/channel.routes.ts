@@ -4,7 +4,9 @@ import {
   addChannel,
   updateChannel,
   deleteChannel,
-  getChannelLimits
+  getChannelLimits,
+  checkChannelHealth,
+  getChannelAnalytics
 } from '../controllers/channel.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 
@@ -25,6 +27,12 @@ router.post('/', addChannel);
 // Обновить канал
 router.put('/:channelId', updateChannel);
 
+// Проверить бота и права в канале прямо сейчас
+router.post('/:channelId/health-check', checkChannelHealth);
+
+// Аналитика канала: подписчики, просмотры и реакции
+router.get('/:channelId/analytics', getChannelAnalytics);
+
 // Удалить канал
 router.delete('/:channelId', deleteChannel);
 
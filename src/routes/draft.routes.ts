@@ -37,4 +37,7 @@ router.delete('/:id', deleteDraft);
 // Upload an image for a draft - используем uploadDraft для сохранения в правильную папку
 router.post('/upload-image', uploadDraft.single('image'), uploadDraftImage);
 
+// Upload a video, GIF, document or audio file for a draft (field 'file')
+router.post('/upload-media', uploadDraft.single('file'), uploadDraftImage);
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,35 @@
+import express, { Router } from 'express';
+import {
+  getPublishedPosts,
+  getPublishedPostById,
+  getPublishedPostAnalytics,
+  editPublishedPostText,
+  editPublishedPostMedia,
+  editPublishedPostButtons,
+  deletePublishedPost
+} from '../controllers/published-post.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+
+const router: Router = express.Router();
+
+// All routes are protected
+router.use(authMiddleware);
+
+// Get published posts with optional channelId, source and date range filters
+router.get('/', getPublishedPosts as any);
+
+// Get a single published post by ID
+router.get('/:id', getPublishedPostById as any);
+
+// Get views and reactions of a published post over time
+router.get('/:id/analytics', getPublishedPostAnalytics as any);
+
+// Edit a published post in the channel
+router.put('/:id/text', editPublishedPostText as any);
+router.put('/:id/media', editPublishedPostMedia as any);
+router.put('/:id/buttons', editPublishedPostButtons as any);
+
+// Delete a published post from the channel
+router.delete('/:id', deletePublishedPost as any);
+
+export default router;
@@ -1,5 +1,5 @@
 import express, { Router } from 'express';
-import { createScheduledPoll, getScheduledPolls, getScheduledPollById, deleteScheduledPoll, updateScheduledPoll, publishScheduledPoll } from '../controllers/scheduled-poll.controller';
+import { createScheduledPoll, getScheduledPolls, getScheduledPollById, deleteScheduledPoll, updateScheduledPoll, publishScheduledPoll, stopScheduledPoll } from '../controllers/scheduled-poll.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 
 const router: Router = express.Router();
@@ -25,4 +25,7 @@ router.put('/:id', updateScheduledPoll as any);
 // Publish a scheduled poll immediately
 router.post('/:id/publish', publishScheduledPoll as any);
 
+// Close a published poll early
+router.post('/:id/stop', stopScheduledPoll as any);
+
 export default router; 
\ No newline at end of file
@@ -1,5 +1,5 @@
 import express, { Router } from 'express';
-import { createScheduledPost, getScheduledPosts, getScheduledPostById, deleteScheduledPost, updateScheduledPost, publishScheduledPost } from '../controllers/scheduled-post.controller';
+import { createScheduledPost, getScheduledPosts, getScheduledPostById, deleteScheduledPost, updateScheduledPost, publishScheduledPost, getFailedScheduledPosts, retryScheduledPost } from '../controllers/scheduled-post.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 
 const router: Router = express.Router();
@@ -13,6 +13,9 @@ router.post('/', createScheduledPost as any);
 // Get all scheduled posts for the authenticated user
 router.get('/', getScheduledPosts as any);
 
+// Get scheduled posts that failed to publish
+router.get('/failed', getFailedScheduledPosts as any);
+
 // Get a single scheduled post by ID
 router.get('/:id', getScheduledPostById as any);
 
@@ -25,4 +28,7 @@ router.put('/:id', updateScheduledPost as any);
 // Publish a scheduled post immediately
 router.post('/:id/publish', publishScheduledPost as any);
 
+// Queue a failed scheduled post for another attempt
+router.post('/:id/retry', retryScheduledPost as any);
+
 export default router; 
\ No newline at end of file
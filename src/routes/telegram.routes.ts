@@ -1,9 +1,16 @@
 import express, { Router } from 'express';
-import { verifyTelegramLogin } from '../controllers/telegram.controller';
+import { verifyTelegramLogin, receiveWebhookUpdate, getRateLimitMetrics } from '../controllers/telegram.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
 
 const router: Router = express.Router();
 
 // Telegram authentication route
 router.post('/auth', verifyTelegramLogin);
 
+// Updates of channel bots, authenticated by the secret token header instead of a JWT
+router.post('/webhook/:channelBotId', receiveWebhookUpdate);
+
+// Queue depth of outgoing Bot API calls
+router.get('/metrics', authMiddleware, getRateLimitMetrics);
+
 export default router; 
\ No newline at end of file
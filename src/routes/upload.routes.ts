@@ -9,6 +9,10 @@ const router = express.Router();
 // и uploadRegular.single('image') для обработки загружаемого файла
 router.post('/image', authMiddleware, uploadRegular.single('image'), uploadImage);
 
+// Маршрут для загрузки видео, GIF, документов и аудио (поле 'file')
+// Ответ содержит объект media с типом файла для поста
+router.post('/media', authMiddleware, uploadRegular.single('file'), uploadImage);
+
 // Маршрут для удаления изображений
 // Используем middleware authMiddleware для проверки авторизации
 router.delete('/image/:filename', authMiddleware, deleteImage);
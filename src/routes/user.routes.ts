@@ -1,10 +1,11 @@
 import express, { Router } from 'express';
-import { getCurrentUser } from '../controllers/user.controller';
+import { getCurrentUser, updateCurrentUser } from '../controllers/user.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 
 const router: Router = express.Router();
 
 // Protected routes
 router.get('/me', authMiddleware, getCurrentUser);
+router.put('/me', authMiddleware, updateCurrentUser);
 
 export default router; 
\ No newline at end of file
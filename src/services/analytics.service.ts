@@ -0,0 +1,460 @@
+import mongoose from 'mongoose';
+import fetch from 'node-fetch';
+import * as cheerio from 'cheerio';
+import User, { IUser, IChannel, IAutoPostingRule } from '../models/user.model';
+import PublishedPost, { IPublishedPost, PostReactionCount } from '../models/published-post.model';
+import PostStats from '../models/post-stats.model';
+import ChannelStats from '../models/channel-stats.model';
+import { TelegramService, TelegramMessageReactionCountUpdate, TelegramReactionType } from './telegram.service';
+import { formatChatId } from './postPublisher.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Posts get most of their views in the first days: they are sampled hourly for two days,
+// then daily until they are a month old
+const HOURLY_SAMPLING_MS = 2 * DAY_MS;
+const TRACKING_WINDOW_MS = 30 * DAY_MS;
+
+// Public web preview of channel posts, it shows view and reaction counters without MTProto
+const TELEGRAM_WEB_URL = 'https://t.me';
+const WIDGET_REQUEST_DELAY_MS = 300;
+const WIDGET_TIMEOUT_MS = 15000;
+
+// A channel together with the user that owns it
+interface ChannelTarget {
+  user: IUser;
+  channel: IChannel;
+}
+
+interface WidgetStats {
+  views: number | null;
+  reactions: PostReactionCount[] | null; // null when the widget does not show reactions
+}
+
+export interface EngagementSummary {
+  postsCount: number;
+  totalViews: number;
+  averageViews: number | null;
+  totalReactions: number;
+  averageReactions: number;
+  engagementRate: number | null; // reactions per view
+}
+
+export interface PostAnalytics {
+  postId: string;
+  channelId: string;
+  publishedAt: Date;
+  views: number | null;
+  reactions: PostReactionCount[];
+  reactionCount: number;
+  engagementRate: number | null;
+  collectedAt: Date | null;
+  history: { collectedAt: Date; views: number | null; reactionCount: number; reactions: PostReactionCount[] }[];
+}
+
+export interface ChannelAnalytics {
+  channelId: string;
+  memberCount: number | null;
+  memberHistory: { collectedAt: Date; memberCount: number }[];
+  summary: EngagementSummary;
+  topPosts: { postId: string; text: string; publishedAt: Date; views: number | null; reactionCount: number }[];
+}
+
+export interface RuleEngagement extends EngagementSummary {
+  ruleId: string;
+  name: string;
+  channelId: string;
+  status: IAutoPostingRule['status'];
+}
+
+class AnalyticsService {
+  /**
+   * Collect analytics for all channels: member counts and views/reactions of published posts
+   * that are due for sampling; reactions of private channels arrive as bot updates
+   * @returns Number of sampled posts
+   */
+  async collect(): Promise<number> {
+    const users = await User.find({ 'channels.botToken': { $nin: [null, ''] } });
+    const targets: ChannelTarget[] = users.flatMap(user => user.channels
+      .filter(channel => channel.botToken && channel.healthStatus !== 'unhealthy')
+      .map(channel => ({ user, channel })));
+
+    let sampledCount = 0;
+    for (const target of targets) {
+      try {
+        await this.collectMemberCount(target);
+        sampledCount += await this.collectPostStats(target);
+      } catch (error) {
+        console.error(`[ANALYTICS] Error collecting analytics of channel ${target.channel.username}:`, error);
+      }
+    }
+
+    return sampledCount;
+  }
+
+  /**
+   * Store the current reactions of a published message from a message_reaction_count update
+   * Reactions of any message of an album or a long post are counted for the post
+   */
+  async applyReactionCount(channelId: string, update: TelegramMessageReactionCountUpdate): Promise<boolean> {
+    const reactions = update.reactions.map(reaction => ({
+      reaction: getReactionKey(reaction.type),
+      count: reaction.total_count
+    }));
+
+    const result = await PublishedPost.updateOne(
+      { channelId, messageIds: update.message_id },
+      {
+        $set: {
+          'stats.reactions': reactions,
+          'stats.reactionCount': sumReactions(reactions)
+        }
+      }
+    );
+
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Get the latest numbers and the time series of a post
+   */
+  async getPostAnalytics(post: IPublishedPost): Promise<PostAnalytics> {
+    const history = await PostStats.find({ publishedPost: post._id })
+      .sort({ collectedAt: 1 })
+      .select('collectedAt views reactionCount reactions -_id')
+      .lean();
+
+    const views = post.stats?.views ?? null;
+    const reactionCount = post.stats?.reactionCount || 0;
+
+    return {
+      postId: (post._id as mongoose.Types.ObjectId).toString(),
+      channelId: post.channelId,
+      publishedAt: post.publishedAt,
+      views,
+      reactions: post.stats?.reactions || [],
+      reactionCount,
+      engagementRate: views ? reactionCount / views : null,
+      collectedAt: post.stats?.collectedAt || null,
+      history
+    };
+  }
+
+  /**
+   * Get the member count history and the engagement of posts published to a channel
+   */
+  async getChannelAnalytics(
+    userId: mongoose.Types.ObjectId | string,
+    channel: IChannel,
+    range: { from?: Date; to?: Date }
+  ): Promise<ChannelAnalytics> {
+    const channelId = channel._id!.toString();
+    const filter = { ...this.buildPostFilter(userId, range), channelId };
+
+    const [summaries, topPosts, memberHistory] = await Promise.all([
+      this.summarize(filter, null),
+      PublishedPost.find(filter)
+        .sort({ 'stats.views': -1, 'stats.reactionCount': -1 })
+        .limit(10)
+        .select('text publishedAt stats.views stats.reactionCount'),
+      ChannelStats.find({
+        user: userId,
+        channelId,
+        collectedAt: {
+          $gte: range.from || new Date(Date.now() - TRACKING_WINDOW_MS),
+          ...(range.to && { $lte: range.to })
+        }
+      })
+        .sort({ collectedAt: 1 })
+        .select('collectedAt memberCount -_id')
+        .lean()
+    ]);
+
+    return {
+      channelId,
+      memberCount: channel.memberCount ?? null,
+      memberHistory,
+      summary: summaries.get(null) || emptySummary(),
+      topPosts: topPosts.map(post => ({
+        postId: (post._id as mongoose.Types.ObjectId).toString(),
+        text: post.text.substring(0, 200),
+        publishedAt: post.publishedAt,
+        views: post.stats?.views ?? null,
+        reactionCount: post.stats?.reactionCount || 0
+      }))
+    };
+  }
+
+  /**
+   * Compare autoposting rules by the engagement of the posts they published
+   * @returns Rules sorted by engagement rate, then by average reactions
+   */
+  async getRuleEngagement(
+    userId: mongoose.Types.ObjectId | string,
+    rules: IAutoPostingRule[],
+    range: { from?: Date; to?: Date }
+  ): Promise<RuleEngagement[]> {
+    const summaries = await this.summarize({ ...this.buildPostFilter(userId, range), source: 'autoposting' }, '$sourceId');
+
+    return rules
+      .map(rule => ({
+        ruleId: rule._id!.toString(),
+        name: rule.name,
+        channelId: rule.channelId.toString(),
+        status: rule.status,
+        ...(summaries.get(rule._id!.toString()) || emptySummary())
+      }))
+      .sort((a, b) =>
+        (b.engagementRate ?? -1) - (a.engagementRate ?? -1) || b.averageReactions - a.averageReactions
+      );
+  }
+
+  /**
+   * Store the member count of a channel, at most one sample per hour
+   */
+  private async collectMemberCount({ user, channel }: ChannelTarget): Promise<void> {
+    const telegramService = new TelegramService(channel.botToken!);
+    const result = await telegramService.getChatMemberCount(channel.chatId || formatChatId(channel.username));
+    if (!result.success || result.data === undefined) {
+      return;
+    }
+
+    const hour = new Date();
+    hour.setMinutes(0, 0, 0);
+
+    try {
+      await ChannelStats.updateOne(
+        { channelId: channel._id!.toString(), collectedAt: hour },
+        { $set: { user: user._id, chatId: channel.chatId, memberCount: result.data } },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      // Another instance stored the sample for this hour at the same time
+      if (error?.code !== 11000) {
+        throw error;
+      }
+    }
+
+    // Positional update, so the rest of the user document is not overwritten
+    await User.updateOne(
+      { _id: user._id, 'channels._id': channel._id },
+      { $set: { 'channels.$.memberCount': result.data } }
+    );
+  }
+
+  /**
+   * Sample the posts of a channel that are due
+   * @returns Number of sampled posts
+   */
+  private async collectPostStats({ user, channel }: ChannelTarget): Promise<number> {
+    const now = new Date();
+    const channelId = channel._id!.toString();
+    const dueFilter = {
+      user: user._id,
+      channelId,
+      deletedAt: null,
+      publishedAt: { $gte: new Date(now.getTime() - TRACKING_WINDOW_MS) },
+      $or: [
+        { 'stats.nextCollectAt': null },
+        { 'stats.nextCollectAt': { $lte: now } }
+      ]
+    };
+
+    // Private channels have no web preview, their views are unknown
+    const isPublic = !/^-?\d+$/.test(channel.username);
+    const username = channel.username.replace(/^@/, '');
+
+    const posts = await PublishedPost.find(dueFilter).sort({ publishedAt: -1 });
+    let sampledCount = 0;
+
+    for (const post of posts) {
+      // Claim the post, so several instances do not sample it twice
+      const claim = await PublishedPost.updateOne(
+        { _id: post._id, ...dueFilter },
+        { $set: { 'stats.nextCollectAt': getNextCollectAt(post.publishedAt, now) } }
+      );
+      if (claim.modifiedCount === 0) {
+        continue;
+      }
+
+      const messageId = post.messages.find(message => message.role === 'main')?.messageId ?? post.messageIds[0];
+      const widgetStats = isPublic && messageId ? await this.fetchWidgetStats(username, messageId) : null;
+
+      const views = widgetStats?.views ?? post.stats?.views ?? null;
+      const reactions = widgetStats?.reactions ?? post.stats?.reactions ?? [];
+      const reactionCount = sumReactions(reactions);
+
+      await PublishedPost.updateOne(
+        { _id: post._id },
+        {
+          $set: {
+            'stats.views': views,
+            'stats.reactions': reactions,
+            'stats.reactionCount': reactionCount,
+            'stats.collectedAt': now
+          }
+        }
+      );
+
+      await PostStats.create({
+        user: user._id,
+        publishedPost: post._id,
+        channelId,
+        views,
+        reactions,
+        reactionCount,
+        collectedAt: now
+      });
+
+      sampledCount++;
+
+      if (widgetStats) {
+        await new Promise(resolve => setTimeout(resolve, WIDGET_REQUEST_DELAY_MS));
+      }
+    }
+
+    return sampledCount;
+  }
+
+  /**
+   * Read the view and reaction counters of a public channel post from its embed widget
+   * @returns Counters or null if the post is not available (deleted, private channel, t.me is down)
+   */
+  private async fetchWidgetStats(username: string, messageId: number): Promise<WidgetStats | null> {
+    try {
+      const response = await fetch(`${TELEGRAM_WEB_URL}/${username}/${messageId}?embed=1&mode=tme`, {
+        timeout: WIDGET_TIMEOUT_MS
+      });
+      if (!response.ok) {
+        return null;
+      }
+
+      return parseWidgetStats(await response.text());
+    } catch (error) {
+      console.error(`[ANALYTICS] Error reading widget of ${username}/${messageId}:`, error);
+      return null;
+    }
+  }
+
+  private buildPostFilter(userId: mongoose.Types.ObjectId | string, range: { from?: Date; to?: Date }): Record<string, any> {
+    return {
+      user: new mongoose.Types.ObjectId(userId.toString()),
+      deletedAt: null,
+      ...((range.from || range.to) && {
+        publishedAt: {
+          ...(range.from && { $gte: range.from }),
+          ...(range.to && { $lte: range.to })
+        }
+      })
+    };
+  }
+
+  /**
+   * Aggregate the engagement of matching posts
+   * @param groupBy Field expression to group by, null for a single summary
+   */
+  private async summarize(filter: Record<string, any>, groupBy: string | null): Promise<Map<string | null, EngagementSummary>> {
+    const groups = await PublishedPost.aggregate([
+      { $match: filter },
+      {
+        $group: {
+          _id: groupBy,
+          postsCount: { $sum: 1 },
+          postsWithViews: { $sum: { $cond: [{ $isNumber: '$stats.views' }, 1, 0] } },
+          totalViews: { $sum: { $ifNull: ['$stats.views', 0] } },
+          totalReactions: { $sum: { $ifNull: ['$stats.reactionCount', 0] } },
+          // Reactions of posts without known views would inflate the rate
+          reactionsWithViews: {
+            $sum: { $cond: [{ $isNumber: '$stats.views' }, { $ifNull: ['$stats.reactionCount', 0] }, 0] }
+          }
+        }
+      }
+    ]);
+
+    return new Map(groups.map(group => [group._id, {
+      postsCount: group.postsCount,
+      totalViews: group.totalViews,
+      averageViews: group.postsWithViews > 0 ? Math.round(group.totalViews / group.postsWithViews) : null,
+      totalReactions: group.totalReactions,
+      averageReactions: Math.round(group.totalReactions / group.postsCount * 100) / 100,
+      engagementRate: group.totalViews > 0 ? group.reactionsWithViews / group.totalViews : null
+    }]));
+  }
+}
+
+/**
+ * Parse counters like "950", "1.2K" or "3M" shown by Telegram
+ */
+export const parseCompactNumber = (value: string): number | null => {
+  const match = value.trim().replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*([KMB])?$/i);
+  if (!match) {
+    return null;
+  }
+
+  const multipliers: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9 };
+  return Math.round(parseFloat(match[1]) * (match[2] ? multipliers[match[2].toUpperCase()] : 1));
+};
+
+/**
+ * Read the counters from the HTML of a post widget
+ * @returns null if the widget shows an error instead of the post
+ */
+const parseWidgetStats = (html: string): WidgetStats | null => {
+  const $ = cheerio.load(html);
+  if ($('.tgme_widget_message_error').length > 0) {
+    return null;
+  }
+
+  const views = parseCompactNumber($('.tgme_widget_message_views').first().text());
+  const reactionElements = $('.tgme_widget_message_reactions .tgme_reaction');
+
+  const reactions = reactionElements.toArray()
+    .map(element => {
+      const $reaction = $(element);
+      const customEmojiId = $reaction.find('tg-emoji').attr('emoji-id');
+      const reaction = $reaction.hasClass('tgme_reaction_paid')
+        ? 'paid'
+        : customEmojiId ? `custom:${customEmojiId}` : $reaction.find('.emoji').text().trim();
+      const count = parseCompactNumber($reaction.text().match(/([\d.,]+\s*[KMB]?)\s*$/i)?.[1] || '');
+
+      return { reaction, count: count || 0 };
+    })
+    .filter(reaction => reaction.reaction);
+
+  return {
+    views,
+    reactions: reactionElements.length > 0 ? reactions : null
+  };
+};
+
+const getReactionKey = (type: TelegramReactionType): string => {
+  switch (type.type) {
+    case 'emoji':
+      return type.emoji;
+    case 'custom_emoji':
+      return `custom:${type.custom_emoji_id}`;
+    default:
+      return 'paid';
+  }
+};
+
+const sumReactions = (reactions: PostReactionCount[]): number => {
+  return reactions.reduce((sum, reaction) => sum + reaction.count, 0);
+};
+
+const getNextCollectAt = (publishedAt: Date, now: Date): Date => {
+  const age = now.getTime() - publishedAt.getTime();
+  return new Date(now.getTime() + (age < HOURLY_SAMPLING_MS ? HOUR_MS : DAY_MS));
+};
+
+const emptySummary = (): EngagementSummary => ({
+  postsCount: 0,
+  totalViews: 0,
+  averageViews: null,
+  totalReactions: 0,
+  averageReactions: 0,
+  engagementRate: null
+});
+
+export default new AnalyticsService();
@@ -0,0 +1,313 @@
+import mongoose from 'mongoose';
+import ScheduledPost, { IScheduledPost } from '../models/scheduled-post.model';
+import ScheduledPoll, { IScheduledPoll } from '../models/scheduled-poll.model';
+import { IApproval, ApprovalAction, ApprovalStatus } from '../models/approval.model';
+import { IUser, IChannel } from '../models/user.model';
+import notificationService from './notification.service';
+
+export type ReviewItemType = 'post' | 'poll';
+
+export type ReviewItem = IScheduledPost | IScheduledPoll;
+
+export type ApprovalResult =
+  | { success: true }
+  | { success: false; status: number; message: string };
+
+// Items the scheduler may publish: no approval required, or approved
+export const publishableFilter = { 'approval.status': { $in: [null, 'approved'] } };
+
+// Items that are due but cannot be published yet
+const unapprovedFilter = { 'approval.status': { $in: ['draft', 'pending_review', 'rejected'] } };
+
+const MAX_EXCERPT_LENGTH = 60;
+
+/**
+ * Check whether an item may be published: its channel does not require approval or it was approved
+ */
+export const isPublishable = (item: { approval?: IApproval | null }): boolean => {
+  return !item.approval || item.approval.status === 'approved';
+};
+
+const describeItem = (type: ReviewItemType, item: ReviewItem): string => {
+  const text = type === 'post' ? (item as IScheduledPost).text : (item as IScheduledPoll).question;
+  const firstLine = text.trim().split('\n')[0];
+  const excerpt = firstLine.length > MAX_EXCERPT_LENGTH ? `${firstLine.slice(0, MAX_EXCERPT_LENGTH - 1)}…` : firstLine;
+  return `${type === 'post' ? 'Post' : 'Poll'} "${excerpt}"`;
+};
+
+const isSameUser = (a: mongoose.Types.ObjectId | string | null | undefined, b: mongoose.Types.ObjectId | string) => {
+  return !!a && a.toString() === b.toString();
+};
+
+/**
+ * Optional review of posts before they are published.
+ * An item moves draft -> pending_review -> approved/rejected; a rejected item can be submitted again.
+ * The scheduler publishes only approved items and holds the others when they are due.
+ */
+class ApprovalService {
+  /**
+   * Review state of a new item for a channel
+   * @param submit Send the item to review right away instead of keeping it as a draft
+   * @returns The state or null if the channel does not require approval
+   */
+  createApproval(user: IUser, channelId: string, submit: boolean): IApproval | null {
+    const channel = user.channels.find(channel =>
+      channel._id?.toString() === channelId.toString() || channel.username === channelId
+    );
+    return this.createChannelApproval(channel, user._id as mongoose.Types.ObjectId, submit);
+  }
+
+  /**
+   * Review state of a new item for a channel that is already loaded
+   */
+  createChannelApproval(channel: IChannel | undefined, authorId: mongoose.Types.ObjectId, submit: boolean): IApproval | null {
+    if (!channel?.approval?.enabled) {
+      return null;
+    }
+
+    const now = new Date();
+    return {
+      status: submit ? 'pending_review' : 'draft',
+      // The owner of the channel reviews when no reviewers are set
+      reviewerIds: channel.approval.reviewerIds.length > 0 ? [...channel.approval.reviewerIds] : [authorId],
+      comments: submit ? [{ author: authorId, action: 'submitted', createdAt: now }] : [],
+      submittedAt: submit ? now : null,
+      reviewedBy: null,
+      reviewedAt: null,
+      heldAt: null,
+    };
+  }
+
+  /**
+   * Review state of the next occurrence of a recurring post
+   * Approved content stays approved, so an approved series keeps running
+   */
+  inheritApproval(approval?: IApproval | null): IApproval | null {
+    if (!approval) {
+      return null;
+    }
+
+    return {
+      status: approval.status,
+      reviewerIds: [...approval.reviewerIds],
+      comments: [],
+      submittedAt: approval.submittedAt || null,
+      reviewedBy: approval.reviewedBy || null,
+      reviewedAt: approval.reviewedAt || null,
+      heldAt: null,
+    };
+  }
+
+  /**
+   * Turn content generated by an autoposting rule into a scheduled post waiting for review
+   * The post is due right away, so it is published by the scheduler as soon as it is approved
+   */
+  async createAutoPostingReviewPost(
+    user: IUser,
+    channel: IChannel,
+    content: { text: string; imageUrl?: string; buttons?: { text: string; url: string }[]; imagePosition: 'top' | 'bottom' }
+  ): Promise<IScheduledPost> {
+    const post = await ScheduledPost.create({
+      user: user._id,
+      channelId: channel._id!.toString(),
+      text: content.text,
+      imageUrl: content.imageUrl,
+      buttons: content.buttons || [],
+      imagePosition: content.imagePosition,
+      scheduledDate: new Date(),
+      published: false,
+      status: 'pending',
+      approval: this.createChannelApproval(channel, user._id as mongoose.Types.ObjectId, true),
+    });
+
+    await this.notifySubmitted('post', post);
+    return post;
+  }
+
+  isOwner(item: ReviewItem, userId: mongoose.Types.ObjectId | string): boolean {
+    return isSameUser(item.user, userId);
+  }
+
+  isReviewer(item: ReviewItem, userId: mongoose.Types.ObjectId | string): boolean {
+    return !!item.approval?.reviewerIds.some(reviewerId => isSameUser(reviewerId, userId));
+  }
+
+  /**
+   * Send a draft or rejected item to review and notify the reviewers
+   */
+  async submit(type: ReviewItemType, item: ReviewItem, authorId: mongoose.Types.ObjectId, comment?: string): Promise<ApprovalResult> {
+    const status = item.approval?.status;
+    if (status !== 'draft' && status !== 'rejected') {
+      return { success: false, status: 400, message: `Only drafts and rejected items can be submitted for review (status: ${status})` };
+    }
+
+    this.setStatus(item, 'pending_review', authorId, 'submitted', comment);
+    item.set('approval.submittedAt', new Date());
+    await item.save();
+
+    await this.notifySubmitted(type, item, comment);
+    return { success: true };
+  }
+
+  /**
+   * Notify the reviewers of an item that was sent to review
+   */
+  async notifySubmitted(type: ReviewItemType, item: ReviewItem, comment?: string): Promise<void> {
+    await notificationService.notifyUsers(
+      item.approval?.reviewerIds || [],
+      `${describeItem(type, item)} scheduled for ${item.scheduledDate.toISOString()} is waiting for your review.${comment ? `\n\n${comment}` : ''}`
+    );
+  }
+
+  /**
+   * Approve or reject an item waiting for review and notify the author
+   * A held item that is approved is published by the next scheduler run
+   */
+  async review(
+    type: ReviewItemType,
+    item: ReviewItem,
+    reviewerId: mongoose.Types.ObjectId,
+    decision: 'approved' | 'rejected',
+    comment?: string
+  ): Promise<ApprovalResult> {
+    if (item.approval?.status !== 'pending_review') {
+      return { success: false, status: 400, message: `Only items waiting for review can be ${decision} (status: ${item.approval?.status})` };
+    }
+
+    this.setStatus(item, decision, reviewerId, decision, comment);
+    item.set('approval.reviewedBy', reviewerId);
+    item.set('approval.reviewedAt', new Date());
+    await item.save();
+
+    await notificationService.notifyUsers(
+      [item.user],
+      `${describeItem(type, item)} was ${decision}.${comment ? `\n\n${comment}` : ''}`
+    );
+    return { success: true };
+  }
+
+  /**
+   * Add a comment without changing the status
+   */
+  async addComment(item: ReviewItem, authorId: mongoose.Types.ObjectId, text: string): Promise<void> {
+    item.approval!.comments.push({ author: authorId, action: 'comment', text, createdAt: new Date() });
+    await item.save();
+  }
+
+  /**
+   * Send a submitted or approved item back to review after its content was changed
+   * The caller saves the item
+   * @returns Whether the reviewers need to be notified
+   */
+  reopenAfterEdit(item: ReviewItem, authorId: mongoose.Types.ObjectId): boolean {
+    const status = item.approval?.status;
+    if (status !== 'approved' && status !== 'pending_review') {
+      return false;
+    }
+
+    this.setStatus(item, 'pending_review', authorId, 'changed');
+    return true;
+  }
+
+  /**
+   * Clear the hold of a rescheduled item, so the reviewers are notified again if it is still not approved when due
+   * The caller saves the item
+   */
+  resetHold(item: ReviewItem): void {
+    if (item.approval?.heldAt) {
+      item.set('approval.heldAt', null);
+    }
+  }
+
+  /**
+   * Notify the reviewers that an item was changed after it was submitted
+   */
+  async notifyChanged(type: ReviewItemType, item: ReviewItem): Promise<void> {
+    await notificationService.notifyUsers(
+      item.approval?.reviewerIds || [],
+      `${describeItem(type, item)} scheduled for ${item.scheduledDate.toISOString()} was changed and is waiting for your review again.`
+    );
+  }
+
+  /**
+   * Drop the review of unpublished items of a channel after approval was turned off
+   * @returns Number of released items
+   */
+  async releaseChannelItems(userId: mongoose.Types.ObjectId, channelId: string): Promise<number> {
+    const filter = { user: userId, channelId, published: false, approval: { $ne: null } };
+    const [posts, polls] = await Promise.all([
+      ScheduledPost.updateMany(filter, { $set: { approval: null } }),
+      ScheduledPoll.updateMany(filter, { $set: { approval: null } }),
+    ]);
+
+    const released = posts.modifiedCount + polls.modifiedCount;
+    if (released > 0) {
+      console.log(`[APPROVAL] Approval turned off for channel ${channelId}, released ${released} item(s)`);
+    }
+    return released;
+  }
+
+  /**
+   * Items waiting for a reviewer, earliest first
+   */
+  async getReviewQueue(reviewerId: mongoose.Types.ObjectId, status: ApprovalStatus = 'pending_review'): Promise<{ posts: IScheduledPost[]; polls: IScheduledPoll[] }> {
+    const filter = { published: false, 'approval.reviewerIds': reviewerId, 'approval.status': status };
+    const [posts, polls] = await Promise.all([
+      ScheduledPost.find(filter).sort({ scheduledDate: 1 }),
+      ScheduledPoll.find(filter).sort({ scheduledDate: 1 }),
+    ]);
+    return { posts, polls };
+  }
+
+  /**
+   * Hold due items that are not approved and notify their reviewers once
+   * Held items stay in the queue and are published when they are approved
+   * @returns Number of newly held items
+   */
+  async holdUnapprovedItems(): Promise<number> {
+    const now = new Date();
+    const dueFilter = { published: false, scheduledDate: { $lte: now }, 'approval.heldAt': null, ...unapprovedFilter };
+    let held = 0;
+
+    const sources: [ReviewItemType, ReviewItem[]][] = [
+      ['post', await ScheduledPost.find(dueFilter)],
+      ['poll', await ScheduledPoll.find(dueFilter)],
+    ];
+
+    for (const [type, items] of sources) {
+      for (const item of items) {
+        // Another instance may have held the item in the meantime
+        const model = (type === 'post' ? ScheduledPost : ScheduledPoll) as mongoose.Model<ReviewItem>;
+        const result = await model.updateOne(
+          { _id: item._id, 'approval.heldAt': null, ...unapprovedFilter },
+          { $set: { 'approval.heldAt': now } }
+        );
+        if (result.modifiedCount === 0) {
+          continue;
+        }
+
+        held++;
+        console.log(`[APPROVAL] Held ${type} ${item._id}: due at ${item.scheduledDate.toISOString()} but ${item.approval?.status}`);
+        await notificationService.notifyUsers(
+          item.approval?.reviewerIds || [],
+          `${describeItem(type, item)} was due at ${item.scheduledDate.toISOString()} but is not approved (${item.approval?.status}). It will be published as soon as it is approved.`
+        );
+      }
+    }
+
+    return held;
+  }
+
+  private setStatus(
+    item: ReviewItem,
+    status: ApprovalStatus,
+    authorId: mongoose.Types.ObjectId,
+    action: ApprovalAction,
+    text?: string
+  ): void {
+    item.set('approval.status', status);
+    item.approval!.comments.push({ author: authorId, action, text: text || null, createdAt: new Date() });
+  }
+}
+
+export default new ApprovalService();
@@ -1,10 +1,15 @@
 import User from '../models/user.model';
 import { generateText, generateImage } from './openai.service';
-import { publishToChannel } from './telegram.service';
-import { calculateNextScheduledDate } from '../utils/dateUtils';
+import postPublisher from './postPublisher.service';
+import { calculateRuleNextScheduledDate } from '../utils/dateUtils';
 import webScraperService from './webScraper.service';
 import contentDuplicationService from './contentDuplication.service';
 import logger from '../utils/logger';
+import lockService, { INSTANCE_ID } from './lock.service';
+import publicationService from './publication.service';
+import approvalService from './approval.service';
+import { CreditService } from './credit.service';
+import mongoose from 'mongoose';
 
 class AutoPostingService {
   /**
@@ -22,24 +27,54 @@ class AutoPostingService {
       
       let processedCount = 0;
       
-      for (const user of users) {
-        if (!user.autoPostingRules) continue;
+      for (const candidate of users) {
+        if (!candidate.autoPostingRules) continue;
         
         // Filter rules that are due for publishing
-        const dueRules = user.autoPostingRules.filter(rule => 
-          rule.status === 'active' && 
-          rule.nextScheduled && 
-          rule.nextScheduled <= new Date()
-        );
+        const dueRuleIds = candidate.autoPostingRules
+          .filter(rule => 
+            rule.status === 'active' && 
+            rule.nextScheduled && 
+            rule.nextScheduled <= new Date()
+          )
+          .map(rule => rule._id!);
+        
+        if (dueRuleIds.length === 0) continue;
+        
+        // Claim due rules so that other scheduler instances skip them
+        const claimedRuleIds: mongoose.Types.ObjectId[] = [];
+        for (const ruleId of dueRuleIds) {
+          if (await lockService.claimAutoPostingRule(candidate._id as mongoose.Types.ObjectId, ruleId)) {
+            claimedRuleIds.push(ruleId);
+          } else {
+            logger.info(`AutoPostingService: Rule ${ruleId} is being processed by another instance, skipping`, {
+              instanceId: INSTANCE_ID
+            });
+          }
+        }
+        
+        if (claimedRuleIds.length === 0) continue;
+        
+        // Reload the user to work with the state after claiming
+        const user = await User.findById(candidate._id);
+        if (!user || !user.autoPostingRules) {
+          await this.releaseRules(candidate._id as mongoose.Types.ObjectId, claimedRuleIds);
+          continue;
+        }
         
-        if (dueRules.length === 0) continue;
+        const dueRules = user.autoPostingRules.filter(rule =>
+          claimedRuleIds.some(ruleId => ruleId.toString() === rule._id?.toString())
+        );
         
         for (const rule of dueRules) {
+          // Credits taken for this run, given back if the run fails
+          let chargedCredits = 0;
+
           try {
-            // Check if user has enough credits
-            let requiredCredits = rule.imageGeneration ? 3 : 1; // 1 for text, +2 for image
+            // Take the credits up front; other rules of the user may be running on other instances
+            const requiredCredits = rule.imageGeneration ? 3 : 1; // 1 for text, +2 for image
             
-            if (user.aiCredits < requiredCredits) {
+            if (!(await CreditService.chargeCredits(user._id as mongoose.Types.ObjectId, requiredCredits))) {
               logger.warn(`AutoPostingService: User ${user._id} doesn't have enough credits for rule ${rule._id}`, {
                 userId: user._id,
                 ruleId: rule._id,
@@ -61,16 +96,11 @@ class AutoPostingService {
               });
               
               // Still update the next scheduled date
-              rule.nextScheduled = calculateNextScheduledDate({
-                frequency: rule.frequency,
-                customInterval: rule.customInterval,
-                customTimeUnit: rule.customTimeUnit,
-                preferredTime: rule.preferredTime,
-                preferredDays: rule.preferredDays
-              });
+              rule.nextScheduled = calculateRuleNextScheduledDate(user, rule);
               
               continue;
             }
+            chargedCredits = requiredCredits;
             
             // Generate content
             const topic = rule.topic;
@@ -227,7 +257,7 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
                   : `Create an abstract image related to finance and technology`;
                 
                 logger.info(`AutoPostingService: Generating image for rule ${rule._id} with prompt: ${imagePrompt}`);
-                generatedImageUrl = await generateImage(imagePrompt);
+                generatedImageUrl = await generateImage(imagePrompt, user._id as mongoose.Types.ObjectId);
                 logger.info(`AutoPostingService: Successfully generated image for rule ${rule._id}. URL: ${generatedImageUrl}`);
               } catch (error) {
                 logger.warn(`AutoPostingService: Failed to generate image for rule ${rule._id}, continuing without image`, {
@@ -240,8 +270,9 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
                 // Just continue without an image
                 generatedImageUrl = null;
                 
-                // Adjust required credits since we're not generating an image
-                user.aiCredits += 2; // Add back the 2 credits for image generation
+                // Give back the 2 credits for image generation
+                await CreditService.refundCredits(user._id as mongoose.Types.ObjectId, 2);
+                chargedCredits -= 2;
               }
             }
             
@@ -259,28 +290,53 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
               contentLength: generatedText.length
             });
             
-            const publishResult = await publishToChannel({
-              channelUsername: channel.username,
-              botToken: channel.botToken || '',
-              text: generatedText,
-              imageUrl: generatedImageUrl || undefined,
-              buttons: rule.buttons,
-              imagePosition: rule.imagePosition || 'bottom' // Use 'bottom' as default to show image as link preview
-            });
+            // Channels with approval get the output as a post waiting for review instead
+            const reviewPost = channel.approval?.enabled
+              ? await approvalService.createAutoPostingReviewPost(user, channel, {
+                  text: generatedText,
+                  imageUrl: generatedImageUrl || undefined,
+                  buttons: rule.buttons,
+                  imagePosition: rule.imagePosition || 'bottom'
+                })
+              : null;
+
+            const publishResult = reviewPost
+              ? { success: true, message: 'Waiting for approval' }
+              : await postPublisher.publish(channel.username, channel.botToken || '', {
+                  text: generatedText,
+                  imageUrl: generatedImageUrl || undefined,
+                  buttons: rule.buttons,
+                  imagePosition: rule.imagePosition || 'bottom' // Use 'bottom' as default to show image as link preview
+                });
             
-            if (!publishResult.success) {
+            if (reviewPost) {
+              logger.info(`AutoPostingService: Output of rule ${rule._id} is waiting for approval as post ${reviewPost._id}`);
+            } else if (!publishResult.success) {
               logger.error(`AutoPostingService: Failed to publish to Telegram for rule ${rule._id}`, {
-                error: publishResult.error
+                error: publishResult.message
               });
             } else {
               logger.info(`AutoPostingService: Successfully published to Telegram for rule ${rule._id}`, {
-                messageId: publishResult.messageId
+                messageIds: publishResult.messageIds
+              });
+              
+              await publicationService.recordPublication({
+                userId: user._id as mongoose.Types.ObjectId,
+                channel,
+                chatId: publishResult.chatId || channel.username,
+                messageIds: publishResult.messageIds || [],
+                messages: publishResult.messages,
+                text: generatedText,
+                imageUrl: generatedImageUrl || undefined,
+                imagePosition: rule.imagePosition || 'bottom',
+                buttons: rule.buttons,
+                source: 'autoposting',
+                sourceId: rule._id?.toString()
               });
             }
             
-            // Update user's credits
-            user.aiCredits -= requiredCredits;
-            user.totalCreditsUsed += requiredCredits;
+            // The credits are spent once the content went out or waits for review, even if Telegram rejected it
+            chargedCredits = 0;
             
             // Update rule's lastPublished date
             rule.lastPublished = new Date();
@@ -308,13 +364,7 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
             }
             
             // Calculate and update next scheduled date
-            rule.nextScheduled = calculateNextScheduledDate({
-              frequency: rule.frequency,
-              customInterval: rule.customInterval,
-              customTimeUnit: rule.customTimeUnit,
-              preferredTime: rule.preferredTime,
-              preferredDays: rule.preferredDays
-            });
+            rule.nextScheduled = calculateRuleNextScheduledDate(user, rule);
             
             // Add to history
             if (!user.autoPostingHistory) {
@@ -324,13 +374,13 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
             user.autoPostingHistory.push({
               ruleId: rule._id!,
               ruleName: rule.name,
-              postId: publishResult.messageId,
+              postId: reviewPost ? String(reviewPost._id) : publishResult.messageIds?.[0]?.toString(),
               content: generatedText,
               imageUrl: generatedImageUrl || undefined,
               buttons: rule.buttons,
               imagePosition: rule.imagePosition || 'bottom',
-              status: publishResult.success ? 'success' : 'failed',
-              error: publishResult.success ? undefined : publishResult.error,
+              status: reviewPost ? 'pending_review' : publishResult.success ? 'success' : 'failed',
+              error: publishResult.success ? undefined : publishResult.message,
               publishedAt: new Date()
             });
             
@@ -348,6 +398,13 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
               error: error instanceof Error ? error.message : 'Unknown error'
             });
             
+            if (chargedCredits > 0) {
+              await CreditService.refundCredits(user._id as mongoose.Types.ObjectId, chargedCredits)
+                .catch(refundError => logger.error(`AutoPostingService: Error refunding credits for rule ${rule._id}`, {
+                  error: refundError instanceof Error ? refundError.message : 'Unknown error'
+                }));
+            }
+            
             // Add to history as failed
             if (!user.autoPostingHistory) {
               user.autoPostingHistory = [];
@@ -362,18 +419,16 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
             });
             
             // Still update the next scheduled date
-            rule.nextScheduled = calculateNextScheduledDate({
-              frequency: rule.frequency,
-              customInterval: rule.customInterval,
-              customTimeUnit: rule.customTimeUnit,
-              preferredTime: rule.preferredTime,
-              preferredDays: rule.preferredDays
-            });
+            rule.nextScheduled = calculateRuleNextScheduledDate(user, rule);
           }
         }
         
-        // Save user changes
-        await user.save();
+        // Save user changes and hand the rules back to the pool
+        try {
+          await user.save();
+        } finally {
+          await this.releaseRules(user._id as mongoose.Types.ObjectId, claimedRuleIds);
+        }
       }
       
       logger.info(`AutoPostingService: Completed processing ${processedCount} rules`);
@@ -386,6 +441,21 @@ Focus on making the content feel current, newsworthy, and valuable to readers.`;
       return 0;
     }
   }
+
+  /**
+   * Release autoposting rules claimed by this instance
+   */
+  private async releaseRules(userId: mongoose.Types.ObjectId, ruleIds: mongoose.Types.ObjectId[]): Promise<void> {
+    for (const ruleId of ruleIds) {
+      try {
+        await lockService.releaseAutoPostingRule(userId, ruleId);
+      } catch (error) {
+        logger.error(`AutoPostingService: Error releasing rule ${ruleId}`, {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
 }
 
 export default new AutoPostingService(); 
\ No newline at end of file
@@ -0,0 +1,57 @@
+import User from '../models/user.model';
+import Channel from '../models/channel.model';
+import { decryptBotToken, encryptBotToken, needsReencryption } from '../utils/botTokenCrypto';
+
+class BotTokenService {
+  /**
+   * Encrypt bot tokens stored in plain text and re-encrypt tokens written with an old key
+   * Runs on startup, so adding a new key in front of BOT_TOKEN_ENCRYPTION_KEYS rotates all tokens;
+   * the old key can be removed after the next start
+   * @returns Number of updated tokens
+   */
+  async reencryptStoredTokens(): Promise<number> {
+    let updatedCount = 0;
+
+    try {
+      const users = await User.find({ 'channels.botToken': { $nin: [null, ''] } });
+
+      for (const user of users) {
+        let changed = false;
+
+        for (const channel of user.channels) {
+          if (needsReencryption(channel.botToken)) {
+            channel.botToken = encryptBotToken(decryptBotToken(channel.botToken!));
+            changed = true;
+            updatedCount++;
+          }
+        }
+
+        if (changed) {
+          await user.save();
+        }
+      }
+
+      // Standalone channels collection used by older scheduled polls
+      const channels = await Channel.find({ botToken: { $nin: [null, ''] } });
+
+      for (const channel of channels) {
+        if (needsReencryption(channel.botToken)) {
+          channel.botToken = encryptBotToken(decryptBotToken(channel.botToken!));
+          await channel.save();
+          updatedCount++;
+        }
+      }
+
+      if (updatedCount > 0) {
+        console.log(`[BOT TOKEN SERVICE] Encrypted ${updatedCount} bot tokens with the current key`);
+      }
+    } catch (error) {
+      // Tokens that were not updated keep working: plain and old-key tokens are still decrypted
+      console.error('[BOT TOKEN SERVICE] Error re-encrypting bot tokens:', error);
+    }
+
+    return updatedCount;
+  }
+}
+
+export default new BotTokenService();
@@ -0,0 +1,266 @@
+import mongoose from 'mongoose';
+import ScheduledPost, { IScheduledPost } from '../models/scheduled-post.model';
+import ScheduledPoll, { IScheduledPoll } from '../models/scheduled-poll.model';
+import { IUser, IAutoPostingRule } from '../models/user.model';
+import { ApprovalStatus } from '../models/approval.model';
+import recurringPostService from './recurringPost.service';
+import approvalService from './approval.service';
+import pollService from './poll.service';
+import lockService from './lock.service';
+import { getOccurrencesBetween } from '../utils/recurrenceUtils';
+import { calculateRuleNextScheduledDate } from '../utils/dateUtils';
+import { getRescheduleUpdate, isReschedulable } from '../utils/retryUtils';
+
+// Projected entries per series or rule, so a rule running every few minutes does not flood the calendar
+const MAX_PROJECTED_ENTRIES = 500;
+
+// Runs calculated per autoposting rule, so a frequent rule with a range far ahead does not block the request
+const MAX_PROJECTION_STEPS = 10000;
+
+const MAX_TITLE_LENGTH = 100;
+
+// post - one-off post or created occurrence of a series, occurrence - occurrence of a series not created yet,
+// poll - scheduled poll, autoposting - projected run of an autoposting rule
+export type CalendarEntryType = 'post' | 'occurrence' | 'poll' | 'autoposting';
+
+export const CALENDAR_ENTRY_TYPES: CalendarEntryType[] = ['post', 'occurrence', 'poll', 'autoposting'];
+
+export interface CalendarEntry {
+  type: CalendarEntryType;
+  id: string; // Post, poll or rule ID; the post carrying the recurrence for occurrences
+  date: Date;
+  channelId: string;
+  title: string;
+  status: string; // Status of the post or poll, projected for occurrences and autoposting runs
+  seriesId: string | null;
+  campaignId: string | null;
+  approvalStatus: ApprovalStatus | null; // Null when the channel does not require approval
+}
+
+export interface CalendarQuery {
+  from: Date;
+  to: Date;
+  channelId?: string;
+}
+
+export interface RescheduleParams {
+  type: CalendarEntryType;
+  id: string;
+  date: Date;
+  occurrenceDate?: Date; // Date of the occurrence or autoposting run being moved
+}
+
+export type RescheduleResult =
+  | { success: true; entry: CalendarEntry }
+  | { success: false; status: number; message: string };
+
+const toTitle = (text: string): string => {
+  const firstLine = text.trim().split('\n')[0];
+  return firstLine.length > MAX_TITLE_LENGTH ? `${firstLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : firstLine;
+};
+
+const postToEntry = (post: IScheduledPost, type: CalendarEntryType = 'post', date: Date = post.scheduledDate): CalendarEntry => ({
+  type,
+  id: String(post._id),
+  date,
+  channelId: post.channelId,
+  title: toTitle(post.text),
+  status: type === 'occurrence' ? 'projected' : post.status,
+  seriesId: post.seriesId ? post.seriesId.toString() : null,
+  campaignId: post.campaignId ? post.campaignId.toString() : null,
+  approvalStatus: post.approval?.status || null,
+});
+
+const pollToEntry = (poll: IScheduledPoll): CalendarEntry => ({
+  type: 'poll',
+  id: String(poll._id),
+  date: poll.scheduledDate,
+  channelId: poll.channelId,
+  title: toTitle(poll.question),
+  status: poll.published ? 'published' : poll.failed ? 'failed' : poll.paused ? 'paused' : 'pending',
+  seriesId: null,
+  campaignId: null,
+  approvalStatus: poll.approval?.status || null,
+});
+
+/**
+ * ID of the channel an autoposting rule publishes to; older rules reference the channel by username
+ */
+const getRuleChannelId = (user: IUser, rule: IAutoPostingRule): string => {
+  const channel = user.channels.find(channel =>
+    channel._id?.toString() === rule.channelId?.toString() || channel.username === rule.channelId
+  );
+  return channel?._id ? channel._id.toString() : String(rule.channelId);
+};
+
+const ruleRunToEntry = (user: IUser, rule: IAutoPostingRule, date: Date): CalendarEntry => ({
+  type: 'autoposting',
+  id: String(rule._id),
+  date,
+  channelId: getRuleChannelId(user, rule),
+  title: rule.name,
+  status: 'projected',
+  seriesId: null,
+  campaignId: null,
+  approvalStatus: null,
+});
+
+class CalendarService {
+  /**
+   * Everything scheduled for a user in a date range, earliest first:
+   * posts and polls, occurrences of recurring posts and projected autoposting runs
+   */
+  async getEntries(user: IUser, query: CalendarQuery): Promise<CalendarEntry[]> {
+    const { from, to, channelId } = query;
+    const channelFilter = channelId ? { channelId } : {};
+
+    const [posts, seriesHeads, polls] = await Promise.all([
+      ScheduledPost.find({ user: user._id, scheduledDate: { $gte: from, $lte: to }, ...channelFilter }),
+      // A series that started before the range can still have occurrences in it
+      ScheduledPost.find({ user: user._id, published: false, recurrence: { $ne: null }, scheduledDate: { $lte: to }, ...channelFilter }),
+      ScheduledPoll.find({ user: user._id, scheduledDate: { $gte: from, $lte: to }, ...channelFilter }),
+    ]);
+
+    const entries: CalendarEntry[] = [
+      ...posts.map(post => postToEntry(post)),
+      ...polls.map(pollToEntry),
+    ];
+
+    for (const head of seriesHeads) {
+      // The head itself is one of the posts, occurrences follow it
+      const after = new Date(Math.max(head.scheduledDate.getTime(), from.getTime() - 1));
+      for (const date of getOccurrencesBetween(head.recurrence!, after, to, MAX_PROJECTED_ENTRIES, user.timezone)) {
+        entries.push(postToEntry(head, 'occurrence', date));
+      }
+    }
+
+    for (const rule of user.autoPostingRules || []) {
+      if (rule.status !== 'active' || !rule.nextScheduled) {
+        continue;
+      }
+      if (channelId && getRuleChannelId(user, rule) !== channelId) {
+        continue;
+      }
+
+      entries.push(...this.projectRuleRuns(user, rule, from, to));
+    }
+
+    return entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * Move a calendar entry to another date
+   * Posts and polls are moved on their own (an occurrence leaves its series), an occurrence that has not
+   * been created yet becomes a separate post, and for autoposting only the next run can be moved
+   */
+  async reschedule(user: IUser, params: RescheduleParams): Promise<RescheduleResult> {
+    const { type, id, date, occurrenceDate } = params;
+
+    // Posts and polls are looked up by ID, autoposting rules are matched as strings
+    if (type !== 'autoposting' && !mongoose.Types.ObjectId.isValid(id)) {
+      return { success: false, status: 404, message: 'Calendar entry not found' };
+    }
+
+    switch (type) {
+      case 'post': {
+        const post = await ScheduledPost.findOne({ _id: id, user: user._id, published: false });
+        if (!post) {
+          return { success: false, status: 404, message: 'Scheduled post not found or already published' };
+        }
+        if (!isReschedulable(post.status)) {
+          return { success: false, status: 409, message: 'Scheduled post is being published and cannot be rescheduled' };
+        }
+
+        // A moved occurrence leaves the series, which continues with the next occurrence
+        if (post.recurrence) {
+          await recurringPostService.scheduleNextOccurrence(post);
+        }
+
+        post.set(getRescheduleUpdate(post.status, date));
+        approvalService.resetHold(post);
+        await post.save();
+        return { success: true, entry: postToEntry(post) };
+      }
+
+      case 'occurrence': {
+        if (!occurrenceDate) {
+          return { success: false, status: 400, message: 'occurrenceDate is required to move an occurrence' };
+        }
+
+        const head = await ScheduledPost.findOne({ _id: id, user: user._id, published: false, recurrence: { $ne: null } });
+        if (!head) {
+          return { success: false, status: 404, message: 'Recurring post not found' };
+        }
+
+        const movedPost = await recurringPostService.moveOccurrence(head, occurrenceDate, date);
+        if (!movedPost) {
+          return { success: false, status: 400, message: 'occurrenceDate is not an upcoming occurrence of the series' };
+        }
+        return { success: true, entry: postToEntry(movedPost) };
+      }
+
+      case 'poll': {
+        const poll = await ScheduledPoll.findOne({ _id: id, user: user._id, published: false });
+        if (!poll) {
+          return { success: false, status: 404, message: 'Scheduled poll not found or already published' };
+        }
+
+        // closeDate is relative to publishing, so it moves with the poll
+        if (poll.closeDate) {
+          poll.closeDate = new Date(poll.closeDate.getTime() + date.getTime() - poll.scheduledDate.getTime());
+        }
+        poll.scheduledDate = date;
+        approvalService.resetHold(poll);
+        pollService.resetAttempts(poll);
+        await poll.save();
+        return { success: true, entry: pollToEntry(poll) };
+      }
+
+      case 'autoposting': {
+        const rule = user.autoPostingRules?.find(rule => String(rule._id) === id);
+        if (!rule) {
+          return { success: false, status: 404, message: 'Autoposting rule not found' };
+        }
+        if (rule.status !== 'active') {
+          return { success: false, status: 400, message: 'Only runs of active autoposting rules can be moved' };
+        }
+        if (occurrenceDate && rule.nextScheduled && occurrenceDate.getTime() !== rule.nextScheduled.getTime()) {
+          return { success: false, status: 400, message: 'Only the next run of an autoposting rule can be moved' };
+        }
+
+        // Later runs are calculated from the moved one
+        const moved = await lockService.rescheduleAutoPostingRule(user._id as mongoose.Types.ObjectId, id, date);
+        if (!moved) {
+          return { success: false, status: 409, message: 'Autoposting rule is running and its next run cannot be moved' };
+        }
+        rule.nextScheduled = date;
+        return { success: true, entry: ruleRunToEntry(user, rule, date) };
+      }
+    }
+  }
+
+  /**
+   * Runs of an autoposting rule in a date range, starting from its next run
+   * Windows of preferred times pick a random minute, so projected times inside a window are approximate
+   */
+  private projectRuleRuns(user: IUser, rule: IAutoPostingRule, from: Date, to: Date): CalendarEntry[] {
+    const entries: CalendarEntry[] = [];
+    let date = new Date(rule.nextScheduled!);
+
+    for (let step = 0; step < MAX_PROJECTION_STEPS && date <= to && entries.length < MAX_PROJECTED_ENTRIES; step++) {
+      if (date >= from) {
+        entries.push(ruleRunToEntry(user, rule, date));
+      }
+
+      const nextDate = calculateRuleNextScheduledDate(user, rule, date);
+      if (nextDate <= date) {
+        break;
+      }
+      date = nextDate;
+    }
+
+    return entries;
+  }
+}
+
+export default new CalendarService();
@@ -0,0 +1,254 @@
+import mongoose from 'mongoose';
+import Campaign, { ICampaign, CampaignChannelStatus, CampaignStagger } from '../models/campaign.model';
+import ScheduledPost, { IScheduledPost } from '../models/scheduled-post.model';
+import PublishedPost from '../models/published-post.model';
+import { IChannel } from '../models/user.model';
+import { IPostMedia } from '../models/post-media.model';
+import approvalService from './approval.service';
+
+// Content of a campaign; every channel gets a copy
+export interface CampaignContent {
+  text: string;
+  imageUrl?: string;
+  imageUrls?: string[];
+  media?: IPostMedia[];
+  tags?: string[];
+  imagePosition?: 'top' | 'bottom';
+  buttons?: { text: string; url: string }[];
+}
+
+// Fields a channel can change in the campaign content
+export type CampaignChannelOverride = Partial<Pick<CampaignContent, 'text' | 'buttons' | 'tags' | 'imagePosition'>>;
+
+export interface CampaignTarget {
+  channel: IChannel;
+  override?: CampaignChannelOverride;
+}
+
+interface CreateCampaignParams {
+  userId: mongoose.Types.ObjectId | string;
+  title: string;
+  draftId?: string;
+  content: CampaignContent;
+  targets: CampaignTarget[];
+  scheduledDate: Date;
+  stagger?: CampaignStagger | null;
+  submitForReview?: boolean; // Posts in channels with approval are sent to review instead of kept as drafts
+}
+
+export interface CampaignChannelOutcome {
+  channelId: string;
+  status: CampaignChannelStatus;
+  scheduledPostId: string | null;
+  scheduledDate: Date | null;
+  attempts: number;
+  error: string | null;
+  publishedAt: Date | null;
+  publishedPostId: string | null;
+}
+
+export interface CampaignSummary {
+  total: number;
+  pending: number;
+  published: number;
+  failed: number;
+  cancelled: number;
+}
+
+// scheduled - nothing published yet, completed - published everywhere,
+// partially_failed/failed - nothing left to publish and some/all channels failed
+export type CampaignStatus = 'scheduled' | 'in_progress' | 'completed' | 'partially_failed' | 'failed' | 'cancelled';
+
+export interface CampaignReport {
+  campaign: ICampaign;
+  status: CampaignStatus;
+  summary: CampaignSummary;
+  channels: CampaignChannelOutcome[];
+}
+
+class CampaignService {
+  /**
+   * Create a campaign and a scheduled post for each of its channels
+   */
+  async create(params: CreateCampaignParams): Promise<ICampaign> {
+    const campaign = await Campaign.create({
+      user: params.userId,
+      title: params.title,
+      draftId: params.draftId || null,
+      channelIds: params.targets.map(target => target.channel._id!.toString()),
+      scheduledDate: params.scheduledDate,
+      stagger: params.stagger || null,
+    });
+
+    const targets = params.stagger?.order === 'random' ? shuffle(params.targets) : params.targets;
+    const dates = getStaggeredDates(params.scheduledDate, targets.length, params.stagger);
+
+    const authorId = params.userId as mongoose.Types.ObjectId;
+    let posts: IScheduledPost[];
+    try {
+      posts = await ScheduledPost.insertMany(targets.map(({ channel, override = {} }, index) => ({
+        user: authorId,
+        channelId: channel._id!.toString(),
+        text: override.text || params.content.text,
+        imageUrl: params.content.imageUrl,
+        imageUrls: params.content.imageUrls || [],
+        media: params.content.media || [],
+        tags: override.tags || params.content.tags || [],
+        imagePosition: override.imagePosition || params.content.imagePosition || 'top',
+        buttons: override.buttons || params.content.buttons || [],
+        scheduledDate: dates[index],
+        published: false,
+        status: 'pending',
+        campaignId: campaign._id as mongoose.Types.ObjectId,
+        draftId: params.draftId || null,
+        approval: approvalService.createChannelApproval(channel, authorId, params.submitForReview === true),
+      })));
+    } catch (error) {
+      // Posts inserted before the failure go too, so no campaign is left without some of its channels
+      await ScheduledPost.deleteMany({ campaignId: campaign._id });
+      await Campaign.deleteOne({ _id: campaign._id });
+      throw error;
+    }
+
+    for (const post of posts) {
+      if (post.approval?.status === 'pending_review') {
+        await approvalService.notifySubmitted('post', post);
+      }
+    }
+
+    console.log(`[CAMPAIGN] Created campaign ${campaign._id} for ${targets.length} channels, scheduled from ${dates[0].toISOString()} to ${dates[dates.length - 1].toISOString()}`);
+    return campaign;
+  }
+
+  /**
+   * Build the outcome of campaigns in each of their channels
+   */
+  async getReports(campaigns: ICampaign[]): Promise<CampaignReport[]> {
+    const campaignIds = campaigns.map(campaign => campaign._id as mongoose.Types.ObjectId);
+    const posts = await ScheduledPost.find({ campaignId: { $in: campaignIds } });
+
+    // Published posts point back to the scheduled post they came from; older records only through sourceId
+    const publishedIds = posts.filter(post => post.published).map(post => String(post._id));
+    const publishedPosts = await PublishedPost.find({
+      $or: [
+        { scheduledPostId: { $in: publishedIds } },
+        { source: { $in: ['scheduled', 'manual'] }, sourceId: { $in: publishedIds } },
+      ],
+    }).select('_id sourceId scheduledPostId');
+    const publishedPostIds = new Map(publishedPosts.map(publishedPost => [
+      publishedPost.scheduledPostId || publishedPost.sourceId,
+      String(publishedPost._id),
+    ]));
+
+    return campaigns.map(campaign => {
+      const campaignPosts = posts.filter(post => post.campaignId?.toString() === String(campaign._id));
+      const channels = campaign.channelIds.map(channelId => getChannelOutcome(
+        channelId,
+        campaignPosts.find(post => post.channelId === channelId),
+        publishedPostIds
+      ));
+
+      const summary = summarize(channels);
+      return { campaign, status: getCampaignStatus(summary), summary, channels };
+    });
+  }
+
+  /**
+   * Cancel the channels of a campaign that were not published yet
+   * Posts that are being published right now are left alone
+   * @returns Number of cancelled channels
+   */
+  async cancel(campaign: ICampaign): Promise<number> {
+    const result = await ScheduledPost.deleteMany({
+      campaignId: campaign._id,
+      published: false,
+      status: { $ne: 'publishing' },
+    });
+
+    return result.deletedCount;
+  }
+}
+
+/**
+ * Publication dates of the channels of a campaign in their order
+ * Random offsets never move a channel before the campaign start
+ */
+export const getStaggeredDates = (start: Date, count: number, stagger?: CampaignStagger | null): Date[] => {
+  return Array.from({ length: count }, (_, index) => {
+    if (!stagger || index === 0) {
+      return new Date(start);
+    }
+
+    const offsetMinutes = index * stagger.spacingMinutes + Math.random() * stagger.jitterMinutes;
+    return new Date(start.getTime() + Math.round(offsetMinutes * 60) * 1000);
+  });
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Outcome of a campaign in a channel; a missing post means the channel was cancelled
+ */
+const getChannelOutcome = (
+  channelId: string,
+  post: IScheduledPost | undefined,
+  publishedPostIds: Map<string | undefined, string>
+): CampaignChannelOutcome => {
+  if (!post) {
+    return {
+      channelId,
+      status: 'cancelled',
+      scheduledPostId: null,
+      scheduledDate: null,
+      attempts: 0,
+      error: null,
+      publishedAt: null,
+      publishedPostId: null,
+    };
+  }
+
+  return {
+    channelId,
+    status: post.published ? 'published' : post.status || 'pending',
+    scheduledPostId: String(post._id),
+    scheduledDate: post.scheduledDate,
+    attempts: post.attempts || 0,
+    error: post.lastError || null,
+    publishedAt: post.publishedAt || null,
+    publishedPostId: publishedPostIds.get(String(post._id)) || null,
+  };
+};
+
+const summarize = (channels: CampaignChannelOutcome[]): CampaignSummary => {
+  const count = (statuses: CampaignChannelStatus[]) => channels.filter(channel => statuses.includes(channel.status)).length;
+
+  return {
+    total: channels.length,
+    pending: count(['pending', 'publishing', 'paused']),
+    published: count(['published']),
+    failed: count(['failed']),
+    cancelled: count(['cancelled']),
+  };
+};
+
+const getCampaignStatus = (summary: CampaignSummary): CampaignStatus => {
+  if (summary.pending > 0) {
+    return summary.published + summary.failed > 0 ? 'in_progress' : 'scheduled';
+  }
+  if (summary.cancelled === summary.total) {
+    return 'cancelled';
+  }
+  if (summary.failed === 0) {
+    return 'completed';
+  }
+  return summary.published > 0 ? 'partially_failed' : 'failed';
+};
+
+export default new CampaignService();
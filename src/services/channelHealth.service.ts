@@ -0,0 +1,169 @@
+import User, { IUser, IChannel, ChannelHealthStatus } from '../models/user.model';
+import ScheduledPost from '../models/scheduled-post.model';
+import ScheduledPoll from '../models/scheduled-poll.model';
+import channelVerificationService, { ChannelVerificationResult } from './channelVerification.service';
+
+export interface ChannelHealthCheckResult {
+  channelId: string;
+  status: ChannelHealthStatus;
+  error?: string | null;
+  errorCode?: string | null;
+}
+
+class ChannelHealthService {
+  /**
+   * Re-validate the bot of every channel
+   * Channels whose bot lost access are marked unhealthy and their scheduled posts, polls and
+   * autoposting rules are paused; they are resumed once a later check succeeds
+   * @returns Number of unhealthy channels
+   */
+  async checkAllChannels(): Promise<number> {
+    const users = await User.find({ 'channels.botToken': { $nin: [null, ''] } });
+    let unhealthyCount = 0;
+
+    for (const user of users) {
+      try {
+        for (const channel of user.channels) {
+          if (!channel.botToken) {
+            continue;
+          }
+
+          const result = await this.checkChannel(user, channel);
+          if (result.status === 'unhealthy') {
+            unhealthyCount++;
+          }
+        }
+
+        await user.save();
+      } catch (error) {
+        console.error(`[CHANNEL HEALTH] Error checking channels of user ${user._id}:`, error);
+      }
+    }
+
+    return unhealthyCount;
+  }
+
+  /**
+   * Check a single channel and pause or resume its jobs
+   * Changes are made on the user document, the caller must save it
+   */
+  async checkChannel(user: IUser, channel: IChannel): Promise<ChannelHealthCheckResult> {
+    const channelId = channel._id!.toString();
+    const botToken = channel.botToken || '';
+
+    // The numeric chat ID still works after the channel username was changed
+    const verification = await channelVerificationService.verify(channel.chatId || channel.username, botToken);
+
+    if (!verification.valid && verification.errorCode === 'TELEGRAM_ERROR') {
+      // Telegram is unavailable or rate limited: nothing is known about the bot, keep the previous status
+      console.warn(`[CHANNEL HEALTH] Could not check channel ${channel.username}: ${verification.message}`);
+      channel.healthError = verification.message;
+      channel.healthCheckedAt = new Date();
+      return { channelId, status: channel.healthStatus || 'unknown', error: verification.message };
+    }
+
+    if (!verification.valid) {
+      if (channel.healthStatus !== 'unhealthy') {
+        console.warn(`[CHANNEL HEALTH] Channel ${channel.username} became unhealthy: ${verification.message}`);
+      }
+
+      channel.healthStatus = 'unhealthy';
+      channel.healthError = verification.message;
+      channel.healthErrorCode = verification.errorCode;
+      channel.healthCheckedAt = new Date();
+
+      await this.pauseChannelJobs(user, channelId);
+      return { channelId, status: 'unhealthy', error: verification.message, errorCode: verification.errorCode };
+    }
+
+    if (channel.healthStatus === 'unhealthy') {
+      console.log(`[CHANNEL HEALTH] Channel ${channel.username} recovered`);
+    }
+
+    this.updateUsername(channel, verification);
+    await channelVerificationService.applyVerification(channel, botToken, verification);
+
+    // Resuming is idempotent, so jobs paused by an interrupted earlier check are resumed as well
+    await this.resumeChannelJobs(user, channelId);
+    return { channelId, status: 'healthy' };
+  }
+
+  /**
+   * Stop publishing to a channel: pending posts and polls are kept, active rules are paused
+   */
+  private async pauseChannelJobs(user: IUser, channelId: string): Promise<void> {
+    const [posts, polls] = await Promise.all([
+      ScheduledPost.updateMany(
+        { user: user._id, channelId, published: false, status: { $in: ['pending', null] } },
+        { $set: { status: 'paused' } }
+      ),
+      ScheduledPoll.updateMany(
+        { user: user._id, channelId, published: false, paused: { $ne: true } },
+        { $set: { paused: true } }
+      )
+    ]);
+
+    let rulesCount = 0;
+    for (const rule of user.autoPostingRules || []) {
+      if (rule.channelId.toString() === channelId && rule.status === 'active') {
+        rule.status = 'paused';
+        rulesCount++;
+      }
+    }
+
+    if (posts.modifiedCount > 0 || polls.modifiedCount > 0 || rulesCount > 0) {
+      console.log(`[CHANNEL HEALTH] Paused ${posts.modifiedCount} posts, ${polls.modifiedCount} polls and ${rulesCount} autoposting rules of channel ${channelId}`);
+    }
+  }
+
+  /**
+   * Return jobs paused by the health check to their normal state
+   * Overdue posts and rules are published on the next scheduler run
+   * Changes to autoposting rules are made on the user document, the caller must save it
+   */
+  async resumeChannelJobs(user: IUser, channelId: string): Promise<void> {
+    const [posts, polls] = await Promise.all([
+      ScheduledPost.updateMany(
+        { user: user._id, channelId, status: 'paused' },
+        { $set: { status: 'pending' } }
+      ),
+      ScheduledPoll.updateMany(
+        { user: user._id, channelId, paused: true },
+        { $set: { paused: false } }
+      )
+    ]);
+
+    let rulesCount = 0;
+    for (const rule of user.autoPostingRules || []) {
+      if (rule.channelId.toString() === channelId && rule.status === 'paused') {
+        rule.status = 'active';
+        rulesCount++;
+      }
+    }
+
+    if (posts.modifiedCount > 0 || polls.modifiedCount > 0 || rulesCount > 0) {
+      console.log(`[CHANNEL HEALTH] Resumed ${posts.modifiedCount} posts, ${polls.modifiedCount} polls and ${rulesCount} autoposting rules of channel ${channelId}`);
+    }
+  }
+
+  /**
+   * Follow a renamed channel: posts are published by username, so it must match Telegram
+   * Channels that lost their public username are addressed by the numeric chat ID
+   */
+  private updateUsername(channel: IChannel, verification: ChannelVerificationResult): void {
+    const chat = verification.chat;
+    if (!chat) {
+      return;
+    }
+
+    const currentUsername = channel.username.replace(/^@/, '').toLowerCase();
+    const newUsername = chat.username || chat.chatId;
+
+    if (chat.username ? currentUsername !== chat.username.toLowerCase() : !/^-?\d+$/.test(channel.username)) {
+      console.log(`[CHANNEL HEALTH] Channel ${channel.username} was renamed to ${newUsername}`);
+      channel.username = newUsername;
+    }
+  }
+}
+
+export default new ChannelHealthService();
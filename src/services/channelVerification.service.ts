@@ -0,0 +1,178 @@
+import { IChannel } from '../models/user.model';
+import { TelegramService, TelegramChatMember, TelegramQueryResult } from './telegram.service';
+import { formatChatId } from './postPublisher.service';
+import storageService from './storage.service';
+
+// Why a channel cannot be used for publishing
+// TELEGRAM_ERROR - Telegram could not be reached or returned an unexpected error, the check should be repeated later
+export type ChannelVerificationErrorCode =
+  | 'INVALID_BOT_TOKEN'
+  | 'CHAT_NOT_FOUND'
+  | 'BOT_NOT_ADMIN'
+  | 'MISSING_RIGHTS'
+  | 'TELEGRAM_ERROR';
+
+// Administrator rights the bot needs to publish, edit and delete posts
+export type ChannelRight = 'can_post_messages' | 'can_edit_messages' | 'can_delete_messages';
+
+export interface ChannelVerificationResult {
+  valid: boolean;
+  errorCode?: ChannelVerificationErrorCode;
+  message?: string;
+  missingRights?: ChannelRight[];
+  chat?: {
+    chatId: string;
+    title?: string;
+    username?: string;
+    photoFileId?: string;
+    photoId?: string;
+    memberCount?: number;
+    botUsername?: string;
+  };
+}
+
+class ChannelVerificationService {
+  /**
+   * Check that the bot token is valid and the bot can publish to the channel
+   * Calls getMe, getChat and getChatMember; the member count is optional information
+   * @param username Channel @username or numeric chat ID
+   */
+  async verify(username: string, botToken: string): Promise<ChannelVerificationResult> {
+    const telegramService = new TelegramService(botToken);
+
+    const botResult = await telegramService.getMe();
+    if (!botResult.success || !botResult.data) {
+      return botResult.errorCode === 401 || botResult.errorCode === 404
+        ? { valid: false, errorCode: 'INVALID_BOT_TOKEN', message: 'Bot token is invalid or has been revoked' }
+        : telegramError(botResult);
+    }
+    const bot = botResult.data;
+
+    const chatResult = await telegramService.getChat(formatChatId(username));
+    if (!chatResult.success || !chatResult.data) {
+      // 400 "chat not found" or 403 "bot is not a member of the channel chat"
+      return chatResult.errorCode === 400 || chatResult.errorCode === 403
+        ? { valid: false, errorCode: 'CHAT_NOT_FOUND', message: `Channel ${username} was not found or the bot is not a member of it` }
+        : telegramError(chatResult);
+    }
+    const chat = chatResult.data;
+    const chatId = chat.id.toString();
+
+    const memberResult = await telegramService.getChatMember(chatId, bot.id);
+    if (!memberResult.success || !memberResult.data) {
+      return memberResult.errorCode === 400 || memberResult.errorCode === 403
+        ? { valid: false, errorCode: 'BOT_NOT_ADMIN', message: `Bot @${bot.username} is not an administrator of the channel` }
+        : telegramError(memberResult);
+    }
+
+    const member = memberResult.data;
+    if (member.status !== 'administrator' && member.status !== 'creator') {
+      return { valid: false, errorCode: 'BOT_NOT_ADMIN', message: `Bot @${bot.username} is not an administrator of the channel` };
+    }
+
+    const missingRights = getMissingRights(member, chat.type === 'channel');
+    if (missingRights.length > 0) {
+      return {
+        valid: false,
+        errorCode: 'MISSING_RIGHTS',
+        message: `Bot @${bot.username} is missing administrator rights: ${missingRights.join(', ')}`,
+        missingRights
+      };
+    }
+
+    const memberCountResult = await telegramService.getChatMemberCount(chatId);
+
+    return {
+      valid: true,
+      chat: {
+        chatId,
+        title: chat.title,
+        username: chat.username,
+        photoFileId: chat.photo?.small_file_id,
+        photoId: chat.photo?.small_file_unique_id,
+        memberCount: memberCountResult.success ? memberCountResult.data : undefined,
+        botUsername: bot.username
+      }
+    };
+  }
+
+  /**
+   * Store the data of a verified channel on the channel subdocument
+   * The channel photo is copied to our storage: Telegram file links contain the bot token
+   */
+  async applyVerification(channel: IChannel, botToken: string, result: ChannelVerificationResult): Promise<void> {
+    if (!result.valid || !result.chat) {
+      return;
+    }
+
+    const { chat } = result;
+    channel.chatId = chat.chatId;
+    channel.chatTitle = chat.title;
+    channel.memberCount = chat.memberCount;
+    channel.botUsername = chat.botUsername;
+    channel.verifiedAt = new Date();
+    channel.healthStatus = 'healthy';
+    channel.healthError = null;
+    channel.healthErrorCode = null;
+    channel.healthCheckedAt = channel.verifiedAt;
+
+    if (!chat.photoFileId) {
+      channel.photoUrl = undefined;
+      channel.photoId = undefined;
+    } else if (chat.photoId !== channel.photoId || !channel.photoUrl) {
+      const photoUrl = await this.copyChannelPhoto(botToken, chat.chatId, chat.photoFileId);
+      if (photoUrl) {
+        channel.photoUrl = photoUrl;
+        channel.photoId = chat.photoId;
+      }
+    }
+  }
+
+  /**
+   * Download the channel photo from Telegram and save it to storage
+   * @returns Public URL of the photo or null if it could not be copied
+   */
+  private async copyChannelPhoto(botToken: string, chatId: string, fileId: string): Promise<string | null> {
+    try {
+      const telegramService = new TelegramService(botToken);
+      const fileResult = await telegramService.getFile(fileId);
+      if (!fileResult.success || !fileResult.data?.file_path) {
+        return null;
+      }
+
+      const data = await telegramService.downloadFile(fileResult.data.file_path);
+      if (!data) {
+        return null;
+      }
+
+      return await storageService.saveFile(`channels/${chatId}.jpg`, data, 'image/jpeg');
+    } catch (error) {
+      // The photo is cosmetic, verification succeeds without it
+      console.error(`[CHANNEL VERIFICATION] Error copying photo of chat ${chatId}:`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Rights missing for publishing; groups do not have post/edit rights, admins can always post and edit there
+ */
+const getMissingRights = (member: TelegramChatMember, isChannel: boolean): ChannelRight[] => {
+  if (member.status === 'creator') {
+    return [];
+  }
+
+  const requiredRights: ChannelRight[] = isChannel
+    ? ['can_post_messages', 'can_edit_messages', 'can_delete_messages']
+    : ['can_delete_messages'];
+
+  return requiredRights.filter(right => !member[right]);
+};
+
+const telegramError = (result: TelegramQueryResult<unknown>): ChannelVerificationResult => ({
+  valid: false,
+  errorCode: 'TELEGRAM_ERROR',
+  message: `Could not check the channel in Telegram: ${result.message || 'Unknown error'}`
+});
+
+export default new ChannelVerificationService();
@@ -1,19 +1,9 @@
-import fs from 'fs';
-import path from 'path';
-import { promisify } from 'util';
 import User from '../models/user.model';
+import ScheduledPost from '../models/scheduled-post.model';
+import PublishedPost from '../models/published-post.model';
 import mongoose from 'mongoose';
-
-// Convert callback-based fs functions to Promise-based
-const readdir = promisify(fs.readdir);
-const stat = promisify(fs.stat);
-const unlink = promisify(fs.unlink);
-const readFile = promisify(fs.readFile);
-
-// Path to the uploads folder
-const uploadsDir = path.join(__dirname, '../../uploads');
-const metadataDir = path.join(uploadsDir, '.metadata');
-const draftsDir = path.join(uploadsDir, 'drafts');
+import storageDriver, { StoredObject } from './storage';
+import storageService, { DRAFTS_PREFIX, GENERATED_IMAGES_PREFIX } from './storage.service';
 
 // Calculate the cutoff date (7 days ago)
 const getExpirationDate = (): Date => {
@@ -23,39 +13,74 @@ const getExpirationDate = (): Date => {
 };
 
 /**
- * Gets the creation date of an image using its timestamp file if available,
- * otherwise falls back to the file's mtime
- * @param filename The image filename
- * @param fileStat The file's stat object containing mtime
- * @returns The creation date of the file
+ * List regular uploads: files in the root of the storage, without drafts and generated images
+ * The upload date is the object's modification date (objects are never modified after upload)
  */
-const getImageCreationDate = async (filename: string, fileStat: fs.Stats): Promise<Date> => {
-  try {
-    // Check if we have a timestamp file for this image
-    const timestampPath = path.join(metadataDir, `${filename}.meta`);
-    if (fs.existsSync(timestampPath)) {
-      const timestamp = await readFile(timestampPath, 'utf8');
-      const creationDate = new Date(timestamp);
-      return creationDate;
-    }
-  } catch (error) {
-    console.error(`Error reading timestamp for ${filename}, falling back to mtime:`, error);
-  }
-  
-  // Fall back to file modification time if no timestamp or error
-  return fileStat.mtime;
+const listRootFiles = async (): Promise<StoredObject[]> => {
+  const objects = await storageDriver.list('');
+  return objects.filter(object => !object.key.includes('/'));
+};
+
+type UrlCondition = { $regex: string; $options?: string };
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Count users whose drafts reference a file in imageUrl, imageUrls or typed media
+ */
+const countDraftReferences = (condition: UrlCondition): Promise<number> => {
+  return User.countDocuments({
+    $or: [
+      { 'drafts.imageUrl': condition },
+      { 'drafts.imageUrls': condition },
+      { 'drafts.media.url': condition }
+    ]
+  });
 };
 
 /**
- * Check if a file is a draft image or related to drafts
- * @param filePath The full path to the file
- * @returns True if the file is related to drafts
+ * Count scheduled posts that are not published yet and reference a file,
+ * including the posts that continue recurring series
+ * Polls have no media, so they never reference a file
  */
-const isDraftImage = (filePath: string): boolean => {
-  // Check if the path contains /drafts/ directory
-  return filePath.includes('/drafts/') || filePath.includes('\\drafts\\');
+const countScheduledReferences = (condition: UrlCondition): Promise<number> => {
+  return ScheduledPost.countDocuments({
+    status: { $ne: 'published' },
+    $or: [
+      { imageUrl: condition },
+      { imageUrls: condition },
+      { 'media.url': condition }
+    ]
+  });
 };
 
+/**
+ * Count publications that were not deleted from their channel and reference a file
+ */
+const countPublishedReferences = (condition: UrlCondition): Promise<number> => {
+  return PublishedPost.countDocuments({
+    deletedAt: null,
+    $or: [
+      { imageUrl: condition },
+      { imageUrls: condition },
+      { 'media.url': condition }
+    ]
+  });
+};
+
+/**
+ * Count users whose autoposting history links a file
+ */
+const countAutoPostingHistoryReferences = (condition: UrlCondition): Promise<number> => {
+  return User.countDocuments({ 'autoPostingHistory.imageUrl': condition });
+};
+
+/**
+ * Условие поиска файла из корня uploads: любой URL, содержащий имя файла
+ * (/uploads/<file>, /uploads/drafts/<file>, с доменом или без)
+ */
+const getUploadCondition = (filename: string): UrlCondition => ({ $regex: escapeRegex(filename), $options: 'i' });
+
 /**
  * Проверяет, используется ли изображение в черновиках любых пользователей
  * @param filename Имя файла для проверки
@@ -69,31 +94,9 @@ const isImageUsedInDrafts = async (filename: string): Promise<boolean> => {
       return true; // Для безопасности возвращаем true, чтобы не удалять файл
     }
 
-    // Расширенные шаблоны URL, которые могут содержать этот файл
-    const possibleUrls = [
-      `/uploads/${filename}`,
-      `uploads/${filename}`,
-      `/uploads/drafts/${filename}`,
-      `uploads/drafts/${filename}`,
-      // Добавляем варианты с доменом
-      `http://localhost:5000/uploads/${filename}`,
-      `http://localhost:5000/uploads/drafts/${filename}`,
-      // Добавляем варианты с production URL
-      `https://evgeniis-macbook-pro.tail10cf98.ts.net/uploads/${filename}`,
-      `https://evgeniis-macbook-pro.tail10cf98.ts.net/uploads/drafts/${filename}`
-    ];
-
     // Ищем пользователей, у которых в черновиках используется это изображение
-    const usersWithImageInDrafts = await User.find({
-      $or: [
-        { 'drafts.imageUrl': { $in: possibleUrls } },
-        { 'drafts.imageUrls': { $in: possibleUrls } },
-        // Дополнительная проверка: ищем по частичному совпадению имени файла
-        { 'drafts.imageUrl': { $regex: filename, $options: 'i' } },
-        { 'drafts.imageUrls': { $regex: filename, $options: 'i' } }
-      ]
-    }).countDocuments();
-    
+    const usersWithImageInDrafts = await countDraftReferences(getUploadCondition(filename));
+
     if (usersWithImageInDrafts > 0) {
       console.log(`Image ${filename} is used in drafts of ${usersWithImageInDrafts} users - skipping deletion`);
       return true;
@@ -108,42 +111,19 @@ const isImageUsedInDrafts = async (filename: string): Promise<boolean> => {
 };
 
 /**
- * Cleanup any metadata files that might have been accidentally created for draft images
- * This should be run once on server startup to fix any inconsistencies
+ * Check if an upload is still referenced by a draft or a scheduled post that is not published yet
+ * @param filename Name of the file in the root of the storage
  */
-export const cleanupDraftMetadata = async (): Promise<void> => {
-  try {
-    if (!fs.existsSync(metadataDir) || !fs.existsSync(draftsDir)) {
-      return;
-    }
+const isImageInUse = async (filename: string): Promise<boolean> => {
+  if (await isImageUsedInDrafts(filename)) {
+    return true;
+  }
 
-    console.log('Cleaning up metadata for draft images...');
-    
-    // Get all files in drafts directory
-    const draftFiles = await readdir(draftsDir);
-    let removedMetadataCount = 0;
-    
-    // Get all metadata files
-    const metadataFiles = await readdir(metadataDir);
-    
-    // Check each metadata file
-    for (const metaFile of metadataFiles) {
-      // Extract original filename from metadata filename (remove .meta extension)
-      const originalFilename = metaFile.replace('.meta', '');
-      
-      // Check if this metadata belongs to a draft file
-      if (draftFiles.includes(originalFilename)) {
-        // This is metadata for a draft file, which should not exist
-        const metadataPath = path.join(metadataDir, metaFile);
-        await unlink(metadataPath);
-        removedMetadataCount++;
-        console.log(`Removed metadata for draft file: ${originalFilename}`);
-      }
-    }
-    
-    console.log(`Draft metadata cleanup completed. Removed ${removedMetadataCount} metadata files.`);
+  try {
+    return await countScheduledReferences(getUploadCondition(filename)) > 0;
   } catch (error) {
-    console.error('Error during draft metadata cleanup:', error);
+    console.error(`Error checking if image ${filename} is used in scheduled posts:`, error);
+    return true;
   }
 };
 
@@ -153,76 +133,40 @@ export const cleanupDraftMetadata = async (): Promise<void> => {
  */
 export const cleanupOldImages = async (): Promise<void> => {
   try {
-    // Make sure the uploads directory exists
-    if (!fs.existsSync(uploadsDir)) {
-      console.log('Uploads directory does not exist. Nothing to clean up.');
-      return;
-    }
-
     console.log('Starting cleanup of old images...');
     
-    // Get all files in uploads directory (excluding subdirectories)
-    const files = await readdir(uploadsDir);
+    // Get all regular uploads (drafts and generated images live in their own folders)
+    const files = await listRootFiles();
     const cutoffDate = getExpirationDate();
     let deletedCount = 0;
     let skippedCount = 0;
     
     // Process each file
-    for (const file of files) {
+    for (const { key: file, lastModified } of files) {
       try {
-        // Skip directories (like the drafts folder) and metadata directory
-        const filePath = path.join(uploadsDir, file);
-        const fileStat = await stat(filePath);
-        
-        if (fileStat.isDirectory() || file === '.metadata') {
-          continue;
-        }
-        
-        // Skip any file that might be related to drafts (double check)
-        if (isDraftImage(filePath)) {
-          console.log(`Skipping draft-related image: ${file}`);
-          continue;
-        }
-        
-        // Additional safety check: skip any file that contains "drafts" in its name or path
-        if (file.includes('drafts') || filePath.includes('drafts')) {
-          console.log(`Skipping file with 'drafts' in name/path: ${file}`);
-          continue;
-        }
-        
-        // Get the creation date of the image (either from timestamp or mtime)
-        const creationDate = await getImageCreationDate(file, fileStat);
-        
         // Check if the file is older than the cutoff date
-        if (creationDate < cutoffDate) {
-          // Проверяем, используется ли файл в черновиках пользователей
-          const isUsedInDrafts = await isImageUsedInDrafts(file);
+        if (lastModified < cutoffDate) {
+          // Проверяем, используется ли файл в черновиках или запланированных постах
+          const isUsed = await isImageInUse(file);
           
-          if (isUsedInDrafts) {
-            // Если файл используется в черновиках, пропускаем его
+          if (isUsed) {
+            // Если файл используется, пропускаем его
             skippedCount++;
-            console.log(`Skipping file used in drafts: ${file}`);
+            console.log(`Skipping file still in use: ${file}`);
             continue;
           }
           
-          // Файл старше 7 дней и не используется в черновиках - можно удалять
-          await unlink(filePath);
+          // Файл старше 7 дней и нигде не используется - можно удалять
+          await storageDriver.delete(file);
           deletedCount++;
           console.log(`Deleted old image: ${file}`);
-          
-          // Also clean up the timestamp file if it exists
-          const timestampPath = path.join(metadataDir, `${file}.meta`);
-          if (fs.existsSync(timestampPath)) {
-            await unlink(timestampPath);
-            console.log(`Deleted timestamp file for: ${file}`);
-          }
         }
       } catch (fileError) {
         console.error(`Error processing file ${file}:`, fileError);
       }
     }
     
-    console.log(`Cleanup completed. Deleted ${deletedCount} old images. Skipped ${skippedCount} images used in drafts.`);
+    console.log(`Cleanup completed. Deleted ${deletedCount} old images. Skipped ${skippedCount} images still in use.`);
   } catch (error) {
     console.error('Error during image cleanup:', error);
   }
@@ -234,60 +178,33 @@ export const cleanupOldImages = async (): Promise<void> => {
  */
 export const moveMisplacedDraftImages = async (): Promise<void> => {
   try {
-    if (!fs.existsSync(uploadsDir)) {
-      console.log('Uploads directory does not exist. Nothing to move.');
-      return;
-    }
-
     console.log('Checking for misplaced draft images in main uploads folder...');
     
-    // Get all files in main uploads directory (excluding subdirectories)
-    const files = await readdir(uploadsDir);
+    // Get all files in the root of the storage (excluding drafts and generated images)
+    const files = await listRootFiles();
     let movedCount = 0;
     
     // Process each file
-    for (const file of files) {
+    for (const { key: file } of files) {
       try {
-        const filePath = path.join(uploadsDir, file);
-        const fileStat = await stat(filePath);
-        
-        // Skip directories
-        if (fileStat.isDirectory()) {
-          continue;
-        }
-        
         // Check if this file is used in drafts
         const isUsedInDrafts = await isImageUsedInDrafts(file);
         
         if (isUsedInDrafts) {
           // This file is used in drafts but is in the wrong location
           // Move it to the drafts folder
-          const draftsFilePath = path.join(draftsDir, file);
+          const draftsKey = `${DRAFTS_PREFIX}${file}`;
           
           // Check if file already exists in drafts folder
-          if (!fs.existsSync(draftsFilePath)) {
+          if (!(await storageDriver.stat(draftsKey))) {
             // Move the file
-            fs.renameSync(filePath, draftsFilePath);
+            await storageDriver.move(file, draftsKey);
             movedCount++;
             console.log(`Moved draft image from main folder to drafts folder: ${file}`);
-            
-            // Remove any timestamp file for this image (since it's now a draft)
-            const timestampPath = path.join(metadataDir, `${file}.meta`);
-            if (fs.existsSync(timestampPath)) {
-              fs.unlinkSync(timestampPath);
-              console.log(`Removed timestamp file for moved draft image: ${file}`);
-            }
           } else {
             // File already exists in drafts folder, remove the duplicate from main folder
-            fs.unlinkSync(filePath);
+            await storageDriver.delete(file);
             console.log(`Removed duplicate draft image from main folder: ${file}`);
-            
-            // Remove any timestamp file
-            const timestampPath = path.join(metadataDir, `${file}.meta`);
-            if (fs.existsSync(timestampPath)) {
-              fs.unlinkSync(timestampPath);
-              console.log(`Removed timestamp file for duplicate draft image: ${file}`);
-            }
           }
         }
       } catch (fileError) {
@@ -299,4 +216,73 @@ export const moveMisplacedDraftImages = async (): Promise<void> => {
   } catch (error) {
     console.error('Error during draft image relocation:', error);
   }
-}; 
\ No newline at end of file
+}; 
+// Generated AI images are kept longer than regular uploads: they may be scheduled weeks ahead
+const GENERATED_IMAGE_RETENTION_DAYS = 30;
+
+/**
+ * Check if a generated image is still referenced by a draft, a scheduled post that is not published yet,
+ * a publication that is still in its channel or the autoposting history
+ * @param relativeUrl Path of the image relative to uploads, e.g. generated/<userId>/<file>.png
+ */
+const isGeneratedImageInUse = async (relativeUrl: string): Promise<boolean> => {
+  try {
+    if (mongoose.connection.readyState !== 1) {
+      console.error('Cannot check generated image usage: Database connection not established');
+      return true;
+    }
+
+    const pattern = { $regex: escapeRegex(relativeUrl) };
+
+    const counts = await Promise.all([
+      countDraftReferences(pattern),
+      countScheduledReferences(pattern),
+      countPublishedReferences(pattern),
+      countAutoPostingHistoryReferences(pattern)
+    ]);
+
+    return counts.some(count => count > 0);
+  } catch (error) {
+    console.error(`Error checking if generated image ${relativeUrl} is in use:`, error);
+    return true;
+  }
+};
+
+/**
+ * Delete generated AI images older than the retention period that are no longer used,
+ * releasing the storage they take in the owner's quota
+ */
+export const cleanupOldGeneratedImages = async (): Promise<void> => {
+  try {
+    console.log('Starting cleanup of old generated images...');
+
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - GENERATED_IMAGE_RETENTION_DAYS);
+    let deletedCount = 0;
+
+    // Images are stored per user: generated/<userId>/<file>
+    const images = await storageDriver.list(GENERATED_IMAGES_PREFIX);
+
+    for (const image of images) {
+      try {
+        const userId = image.key.substring(GENERATED_IMAGES_PREFIX.length).split('/')[0];
+        if (!mongoose.Types.ObjectId.isValid(userId)) {
+          continue;
+        }
+
+        if (image.lastModified >= cutoffDate || await isGeneratedImageInUse(image.key)) {
+          continue;
+        }
+
+        await storageService.deleteFile(userId, image.key);
+        deletedCount++;
+      } catch (fileError) {
+        console.error(`Error processing generated image ${image.key}:`, fileError);
+      }
+    }
+
+    console.log(`Generated image cleanup completed. Deleted ${deletedCount} images.`);
+  } catch (error) {
+    console.error('Error during generated image cleanup:', error);
+  }
+};
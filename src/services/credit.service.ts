@@ -94,6 +94,28 @@ export class CreditService {
     }
   }
   
+  /**
+   * Atomically take credits for an operation
+   * Concurrent operations of one user can neither overdraw the balance nor overwrite each other's charge,
+   * which happens when the balance is saved with the whole user document
+   * @returns false if the user does not have enough credits
+   */
+  public static async chargeCredits(userId: mongoose.Types.ObjectId | string, credits: number): Promise<boolean> {
+    const result = await User.updateOne(
+      { _id: userId, aiCredits: { $gte: credits } },
+      { $inc: { aiCredits: -credits, totalCreditsUsed: credits } }
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Atomically give back credits taken with chargeCredits for work that was not done
+   */
+  public static async refundCredits(userId: mongoose.Types.ObjectId | string, credits: number): Promise<void> {
+    await User.updateOne({ _id: userId }, { $inc: { aiCredits: credits, totalCreditsUsed: -credits } });
+  }
+
   /**
    * Добавляет кредиты пользователю
    */
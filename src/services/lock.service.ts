@@ -0,0 +1,154 @@
+import os from 'os';
+import mongoose, { Model, FilterQuery, UpdateQuery } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import User from '../models/user.model';
+
+// Unique identifier of this server process, stored in `lockedBy` of claimed jobs
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+
+// Default lease for publishing a single post or poll
+export const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+// Autoposting runs include scraping and AI generation, so they need a longer lease
+export const AUTOPOSTING_LEASE_MS = 15 * 60 * 1000;
+
+// A lease is free when nobody holds it or when the holder did not renew it in time (e.g. crashed)
+const freeLeaseFilter = (now: Date) => ({
+  $or: [
+    { lockedUntil: null },
+    { lockedUntil: { $lte: now } }
+  ]
+});
+
+class LockService {
+  /**
+   * Atomically claim a document for this instance
+   * @param model Mongoose model of the job collection
+   * @param filter Conditions the document must still satisfy to be claimed
+   * @param leaseMs How long the claim is valid before other instances may reclaim it
+   * @param update Additional changes applied together with the claim
+   * @returns The claimed document or null if it is held by another instance or no longer matches
+   */
+  async claim<T>(
+    model: Model<T>,
+    filter: FilterQuery<T>,
+    leaseMs: number = DEFAULT_LEASE_MS,
+    update: UpdateQuery<T> = {}
+  ): Promise<T | null> {
+    const now = new Date();
+
+    return model.findOneAndUpdate(
+      {
+        $and: [filter, freeLeaseFilter(now)]
+      } as FilterQuery<T>,
+      {
+        ...update,
+        $set: {
+          ...(update.$set || {}),
+          lockedBy: INSTANCE_ID,
+          lockedUntil: new Date(now.getTime() + leaseMs)
+        }
+      } as UpdateQuery<T>,
+      { new: true }
+    );
+  }
+
+  /**
+   * Release a document claimed by this instance
+   */
+  async release<T>(model: Model<T>, id: mongoose.Types.ObjectId | string): Promise<void> {
+    await model.updateOne(
+      { _id: id, lockedBy: INSTANCE_ID } as FilterQuery<T>,
+      { $set: { lockedBy: null, lockedUntil: null } } as UpdateQuery<T>
+    );
+  }
+
+  /**
+   * Atomically claim a due autoposting rule embedded in a user document
+   * @returns true if this instance now holds the rule
+   */
+  async claimAutoPostingRule(
+    userId: mongoose.Types.ObjectId | string,
+    ruleId: mongoose.Types.ObjectId | string,
+    leaseMs: number = AUTOPOSTING_LEASE_MS
+  ): Promise<boolean> {
+    const now = new Date();
+
+    const result = await User.updateOne(
+      {
+        _id: userId,
+        autoPostingRules: {
+          $elemMatch: {
+            _id: ruleId,
+            status: 'active',
+            // Re-check that the rule is still due: another instance may have just run it
+            nextScheduled: { $lte: now },
+            ...freeLeaseFilter(now)
+          }
+        }
+      },
+      {
+        $set: {
+          'autoPostingRules.$.lockedBy': INSTANCE_ID,
+          'autoPostingRules.$.lockedUntil': new Date(now.getTime() + leaseMs)
+        }
+      }
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Move the next run of an active autoposting rule unless an instance holds its lease
+   * A running rule sets its next run when it finishes, which would overwrite the moved date
+   * @returns false if the rule is running or no longer active
+   */
+  async rescheduleAutoPostingRule(
+    userId: mongoose.Types.ObjectId | string,
+    ruleId: mongoose.Types.ObjectId | string,
+    nextScheduled: Date
+  ): Promise<boolean> {
+    const result = await User.updateOne(
+      {
+        _id: userId,
+        autoPostingRules: {
+          $elemMatch: {
+            _id: ruleId,
+            status: 'active',
+            ...freeLeaseFilter(new Date())
+          }
+        }
+      },
+      {
+        $set: { 'autoPostingRules.$.nextScheduled': nextScheduled }
+      }
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Release an autoposting rule claimed by this instance
+   */
+  async releaseAutoPostingRule(
+    userId: mongoose.Types.ObjectId | string,
+    ruleId: mongoose.Types.ObjectId | string
+  ): Promise<void> {
+    await User.updateOne(
+      {
+        _id: userId,
+        autoPostingRules: {
+          $elemMatch: { _id: ruleId, lockedBy: INSTANCE_ID }
+        }
+      },
+      {
+        $set: {
+          'autoPostingRules.$.lockedBy': null,
+          'autoPostingRules.$.lockedUntil': null
+        }
+      }
+    );
+  }
+}
+
+export default new LockService();
@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import User from '../models/user.model';
+import config from '../config/config';
+import { TelegramService } from './telegram.service';
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+class NotificationService {
+  /**
+   * Send a message to users through the main bot (TELEGRAM_BOT_TOKEN)
+   * Only users who logged in with Telegram can be reached, the others are skipped
+   * @returns Number of users the message was delivered to
+   */
+  async notifyUsers(userIds: (mongoose.Types.ObjectId | string)[], text: string): Promise<number> {
+    if (userIds.length === 0) {
+      return 0;
+    }
+    if (!config.telegramBotToken) {
+      console.warn('[NOTIFY] TELEGRAM_BOT_TOKEN is not set, notification skipped');
+      return 0;
+    }
+
+    const users = await User.find({ _id: { $in: userIds } }).select('telegramId username');
+    const telegramService = new TelegramService(config.telegramBotToken);
+    let delivered = 0;
+
+    for (const user of users) {
+      if (!user.telegramId) {
+        console.log(`[NOTIFY] User ${user.username} has no Telegram account, notification skipped`);
+        continue;
+      }
+
+      // A user has to start the bot once before it can write to them
+      const result = await telegramService.sendMessage(user.telegramId, { text: escapeHtml(text) });
+      if (result.success) {
+        delivered++;
+      } else {
+        console.warn(`[NOTIFY] Failed to notify user ${user.username}: ${result.message}`);
+      }
+    }
+
+    return delivered;
+  }
+}
+
+export default new NotificationService();
@@ -1,6 +1,8 @@
 import axios from 'axios';
 import config from '../config/config';
+import { Types } from 'mongoose';
 import CreditService from './credit.service';
+import storageService from './storage.service';
 
 // Initialize OpenAI API client
 const openaiApiKey = config.openaiApiKey;
@@ -80,8 +82,9 @@ export const generateText = async (prompt: string): Promise<string> => {
 
 /**
  * Generate an image using OpenAI API
+ * The image is stored in the user's upload storage, the returned URL does not expire
  */
-export const generateImage = async (prompt: string): Promise<string> => {
+export const generateImage = async (prompt: string, userId: string | Types.ObjectId): Promise<string> => {
   try {
     console.log(`[OPENAI SERVICE] Generating image with prompt: "${prompt.substring(0, 100)}..."`);
     
@@ -129,26 +132,18 @@ export const generateImage = async (prompt: string): Promise<string> => {
       n: 1,
       size: "1024x1024",
       quality: "standard",
-      response_format: "url"
+      response_format: "b64_json"
     });
 
-    // Extract the generated image URL from the response
-    const imageUrl = response.data?.[0]?.url || '';
+    const imageData = response.data?.[0]?.b64_json;
     
-    console.log(`[OPENAI SERVICE] Generated image URL: ${imageUrl}`);
-    
-    if (!imageUrl) {
-      throw new Error('Error getting image URL');
+    if (!imageData) {
+      throw new Error('Error getting image data');
     }
     
-    // Проверяем валидность URL
-    try {
-      new URL(imageUrl);
-      console.log(`[OPENAI SERVICE] Image URL is valid`);
-    } catch (e) {
-      console.error(`[OPENAI SERVICE] Invalid image URL format: ${imageUrl}`);
-      throw new Error('Invalid image URL format');
-    }
+    const imageUrl = await storageService.saveGeneratedImage(userId, Buffer.from(imageData, 'base64'));
+    
+    console.log(`[OPENAI SERVICE] Generated image saved: ${imageUrl}`);
 
     return imageUrl;
   } catch (error) {
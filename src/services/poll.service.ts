@@ -0,0 +1,124 @@
+import ScheduledPoll, { IScheduledPoll } from '../models/scheduled-poll.model';
+import { IChannel } from '../models/user.model';
+import { TelegramService, TelegramResult, TelegramPoll, TelegramQueryResult } from './telegram.service';
+import { formatChatId } from './postPublisher.service';
+
+// Telegram accepts open_period and close_date between 5 and 600 seconds from now
+export const MIN_POLL_OPEN_SECONDS = 5;
+export const MAX_POLL_OPEN_SECONDS = 600;
+
+class PollService {
+  /**
+   * Send a scheduled poll to its channel and keep it as a published poll
+   * The message and poll IDs are stored, so results can be collected from poll updates and the poll can be stopped
+   */
+  async publish(poll: IScheduledPoll, channel: Pick<IChannel, 'username' | 'botToken'>): Promise<TelegramResult> {
+    const chatId = formatChatId(channel.username);
+    const telegramService = new TelegramService(channel.botToken!);
+
+    const result = await telegramService.sendPoll(chatId, {
+      question: poll.question,
+      options: poll.options,
+      isAnonymous: poll.isAnonymous,
+      allowsMultipleAnswers: poll.allowsMultipleAnswers,
+      type: poll.type,
+      correctOptionId: poll.correctOptionId ?? undefined,
+      explanation: poll.explanation || undefined,
+      parseMode: poll.parseMode || undefined,
+      questionEntities: poll.questionEntities,
+      optionEntities: poll.optionEntities,
+      explanationEntities: poll.explanationEntities,
+      openPeriod: poll.openPeriod ?? undefined,
+      closeDate: getCloseDate(poll)
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    poll.published = true;
+    poll.failed = false;
+    poll.nextAttemptAt = null;
+    poll.lastError = null;
+    poll.publishedAt = new Date();
+    poll.chatId = chatId;
+    poll.messageId = result.messageId ?? null;
+    poll.telegramPollId = result.pollId ?? null;
+    poll.results = {
+      options: poll.options.map(text => ({ text, voterCount: 0 })),
+      totalVoterCount: 0,
+      isClosed: false,
+      updatedAt: new Date()
+    };
+    await poll.save();
+
+    return result;
+  }
+
+  /**
+   * Put a poll that was edited or moved to another date back into the queue with a fresh attempt counter
+   * The caller saves the poll
+   */
+  resetAttempts(poll: IScheduledPoll): void {
+    poll.failed = false;
+    poll.attempts = 0;
+    poll.nextAttemptAt = null;
+  }
+
+  /**
+   * Store the state of a poll from a poll update or stopPoll
+   * @returns false if the poll was not published by us
+   */
+  async applyPollState(telegramPoll: TelegramPoll): Promise<boolean> {
+    const result = await ScheduledPoll.updateOne(
+      { telegramPollId: telegramPoll.id },
+      {
+        $set: {
+          results: {
+            options: telegramPoll.options.map(option => ({ text: option.text, voterCount: option.voter_count })),
+            totalVoterCount: telegramPoll.total_voter_count,
+            isClosed: telegramPoll.is_closed,
+            updatedAt: new Date()
+          }
+        }
+      }
+    );
+
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Close a published poll before users stop voting on their own
+   */
+  async stop(poll: IScheduledPoll, botToken: string): Promise<TelegramQueryResult<TelegramPoll>> {
+    const telegramService = new TelegramService(botToken);
+    const result = await telegramService.stopPoll(poll.chatId!, poll.messageId!);
+
+    if (result.success && result.data) {
+      await this.applyPollState(result.data);
+    }
+
+    return result;
+  }
+}
+
+/**
+ * close_date for sending a poll now
+ * The close date is validated against the scheduled date, but the poll may be published later by the
+ * scheduler or earlier by hand, so it is moved into the range Telegram accepts
+ */
+const getCloseDate = (poll: IScheduledPoll): Date | undefined => {
+  if (!poll.closeDate) {
+    return undefined;
+  }
+
+  // A few seconds of margin, so the date is still in range when the request reaches Telegram
+  const now = Date.now();
+  const closeAt = Math.min(
+    Math.max(poll.closeDate.getTime(), now + (MIN_POLL_OPEN_SECONDS + 5) * 1000),
+    now + (MAX_POLL_OPEN_SECONDS - 5) * 1000
+  );
+  return new Date(closeAt);
+};
+
+export default new PollService();
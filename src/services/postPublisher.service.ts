@@ -0,0 +1,376 @@
+import { PublishedMessage } from '../models/published-post.model';
+import { IPostMedia, PostMediaType } from '../models/post-media.model';
+import { TelegramService, TelegramResult, TelegramInputFile, MediaGroupItemType, buildReplyMarkup, buildImagePreview } from './telegram.service';
+import telegramFileService from './telegramFile.service';
+import { MAX_MEDIA_PER_POST } from '../utils/mediaUtils';
+
+// Telegram limits for message text and media captions
+export const MAX_MESSAGE_LENGTH = 4096;
+export const MAX_CAPTION_LENGTH = 1024;
+
+// Long captions are cut to this length, the full text is sent as a continuation message
+export const TRUNCATED_CAPTION_LENGTH = 1000;
+
+// The hidden preview link adds two line breaks and a zero-width joiner to the text
+const PREVIEW_LINK_LENGTH = 3;
+
+// Normalized post accepted by the publisher, regardless of where it comes from
+export interface PublishablePost {
+  text: string;
+  imageUrl?: string;
+  imageUrls?: string[];
+  media?: IPostMedia[];
+  tags?: string[];
+  imagePosition?: 'top' | 'bottom';
+  buttons?: { text: string; url: string }[];
+}
+
+// Result of publishing a post, including details needed to schedule a retry
+export interface PublishResult {
+  success: boolean;
+  message: string;
+  errorCode?: number;
+  retryAfter?: number;
+  messageIds?: number[];
+  messages?: PublishedMessage[];
+  chatId?: string;
+  text?: string;
+}
+
+/**
+ * Prepare the chatId, adding @ to channel usernames if necessary
+ */
+export const formatChatId = (channelUsername: string): string => {
+  if (!channelUsername.startsWith('@') && !channelUsername.match(/^-?\d+$/)) {
+    return '@' + channelUsername;
+  }
+  return channelUsername;
+};
+
+/**
+ * Split text into chunks that fit into a single Telegram message
+ * Prefers to break at a paragraph, then at a line, then at a word boundary
+ */
+export const splitText = (text: string, limit: number = MAX_MESSAGE_LENGTH): string[] => {
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > limit) {
+    let cut = rest.lastIndexOf('\n\n', limit);
+    if (cut < limit / 2) cut = rest.lastIndexOf('\n', limit);
+    if (cut < limit / 2) cut = rest.lastIndexOf(' ', limit);
+    if (cut <= 0) cut = limit;
+
+    chunks.push(rest.substring(0, cut).trimEnd());
+    rest = rest.substring(cut).trimStart();
+  }
+
+  if (rest.length > 0 || chunks.length === 0) {
+    chunks.push(rest);
+  }
+
+  return chunks;
+};
+
+/**
+ * Fit text into a media caption
+ * Text over the caption limit is shortened and returned as continuation messages with the full text
+ */
+export const buildCaption = (text: string): { caption: string; continuation: string[] } => {
+  if (text.length <= MAX_CAPTION_LENGTH) {
+    return { caption: text, continuation: [] };
+  }
+
+  return {
+    caption: text.substring(0, TRUNCATED_CAPTION_LENGTH) + '...',
+    continuation: splitText(text)
+  };
+};
+
+/**
+ * Get the media of a post, falling back to imageUrl/imageUrls for posts created before typed media
+ */
+export const resolvePostMedia = (post: { imageUrl?: string; imageUrls?: string[]; media?: IPostMedia[] }): IPostMedia[] => {
+  if (post.media && post.media.length > 0) {
+    return post.media;
+  }
+
+  if (post.imageUrls && post.imageUrls.length > 0) {
+    return post.imageUrls.map(url => ({ type: 'photo' as const, url }));
+  }
+
+  return post.imageUrl ? [{ type: 'photo', url: post.imageUrl }] : [];
+};
+
+/**
+ * Which items can share an album: photos and videos can be mixed,
+ * documents and audio only with their own type, animations are always sent alone
+ */
+const getAlbumKind = (type: PostMediaType): string | null => {
+  switch (type) {
+    case 'photo':
+    case 'video':
+      return 'visual';
+    case 'document':
+    case 'audio':
+      return type;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Split media into consecutive groups that Telegram accepts as a single album
+ */
+export const groupMedia = (media: IPostMedia[]): IPostMedia[][] => {
+  const groups: IPostMedia[][] = [];
+
+  for (const item of media) {
+    const current = groups[groups.length - 1];
+    const kind = getAlbumKind(item.type);
+
+    if (current && kind && getAlbumKind(current[0].type) === kind && current.length < MAX_MEDIA_PER_POST) {
+      current.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups;
+};
+
+/**
+ * Describe the messages returned by a successful send call
+ * @param items Media that was sent, in the same order as the returned messages; text message when omitted
+ */
+const toMessages = (
+  result: TelegramResult,
+  role: PublishedMessage['role'],
+  items?: IPostMedia[]
+): PublishedMessage[] => {
+  return (result.messageIds || []).map((messageId, index) => ({
+    messageId,
+    type: items ? (items[index] || items[0]).type : 'text',
+    role
+  }));
+};
+
+/**
+ * Single publishing pipeline for scheduled posts, manual publications and autoposting
+ *
+ * Rendering rules:
+ * - tags are appended to the text
+ * - photos at the bottom: text message with a large link preview of the first photo
+ * - a single media item is sent with sendPhoto/sendVideo/sendAnimation/sendDocument/sendAudio,
+ *   several items are sent as albums (split where Telegram does not allow mixing types)
+ * - local files from uploads/ are uploaded as multipart, Telegram file_ids are reused for media sent before
+ * - the caption goes on the first item, captions over 1024 characters are shortened
+ *   and the full text follows as a separate message
+ * - texts over 4096 characters are split into several messages
+ * - buttons are attached to the main message, albums get a separate "Links" message
+ */
+class PostPublisher {
+  async publish(channelUsername: string, botToken: string, post: PublishablePost): Promise<PublishResult> {
+    try {
+      const startTime = Date.now();
+      const chatId = formatChatId(channelUsername);
+      const telegramService = new TelegramService(botToken);
+
+      const text = post.tags && post.tags.length > 0
+        ? `${post.text}\n\n${post.tags.join(' ')}`
+        : post.text;
+      const media = resolvePostMedia(post);
+      const imagePosition = post.imagePosition || 'top';
+      const replyMarkup = buildReplyMarkup(post.buttons);
+
+      console.log(`[POST PUBLISHER] Publishing to ${chatId} - text length: ${text.length}, media: ${media.map(item => item.type).join(', ') || 'none'}, imagePosition: ${imagePosition}, buttons: ${post.buttons?.length || 0}`);
+
+      let mainResult: TelegramResult;
+      // Media sent in the main message, null for a text message
+      let mainItems: IPostMedia[] | null = null;
+      let extraGroups: IPostMedia[][] = [];
+      let followUps: string[] = [];
+      let sendLinks = false;
+
+      if (media.length > 0 && imagePosition === 'bottom' && text.trim() && media.every(item => item.type === 'photo')) {
+        // Only the first photo can be shown as a preview below the text
+        // Telegram builds the preview itself, so this still needs a publicly reachable URL
+        const [first, ...rest] = splitText(text, MAX_MESSAGE_LENGTH - PREVIEW_LINK_LENGTH);
+        const preview = buildImagePreview(first, media[0].url);
+
+        mainResult = await telegramService.sendMessage(chatId, {
+          text: preview.text,
+          link_preview_options: preview.link_preview_options,
+          reply_markup: replyMarkup
+        });
+        followUps = rest;
+      } else if (media.length > 0) {
+        const { caption, continuation } = buildCaption(text);
+        const [firstGroup, ...otherGroups] = groupMedia(media);
+
+        mainResult = await this.sendMedia(telegramService, botToken, chatId, firstGroup, caption, replyMarkup);
+        mainItems = firstGroup;
+        extraGroups = otherGroups;
+        followUps = continuation;
+        // Albums cannot carry inline buttons
+        sendLinks = !!replyMarkup && firstGroup.length > 1;
+      } else {
+        const [first, ...rest] = splitText(text);
+
+        mainResult = await telegramService.sendMessage(chatId, {
+          text: first,
+          reply_markup: replyMarkup
+        });
+        followUps = rest;
+      }
+
+      if (!mainResult.success) {
+        const errorMessage = mainResult.message || 'Unknown Telegram API error';
+        console.error(`[POST PUBLISHER] Telegram API error: ${errorMessage} (Code: ${mainResult.errorCode})`);
+        return {
+          success: false,
+          message: errorMessage,
+          errorCode: mainResult.errorCode,
+          retryAfter: mainResult.retryAfter
+        };
+      }
+
+      const messages = mainItems
+        ? toMessages(mainResult, mainItems.length > 1 ? 'album' : 'main', mainItems)
+        : toMessages(mainResult, 'main');
+
+      // The main message is already in the channel, so failures below are logged
+      // instead of failing the publication (a retry would duplicate the post)
+      for (const group of extraGroups) {
+        const result = await this.sendMedia(telegramService, botToken, chatId, group);
+        if (!result.success) {
+          console.warn(`[POST PUBLISHER] Failed to send ${group.map(item => item.type).join(', ')} to ${chatId}: ${result.message}`);
+          continue;
+        }
+        messages.push(...toMessages(result, 'album', group));
+      }
+
+      for (const chunk of followUps) {
+        const result = await telegramService.sendMessage(chatId, { text: chunk });
+        if (!result.success) {
+          console.warn(`[POST PUBLISHER] Failed to send continuation message to ${chatId}: ${result.message}`);
+          break;
+        }
+        messages.push(...toMessages(result, 'continuation'));
+      }
+
+      if (sendLinks) {
+        const result = await telegramService.sendMessage(chatId, { text: '🔗 Links:', reply_markup: replyMarkup });
+        if (result.success) {
+          messages.push(...toMessages(result, 'links'));
+        } else {
+          console.warn(`[POST PUBLISHER] Failed to send buttons for media group to ${chatId}: ${result.message}`);
+        }
+      }
+
+      console.log(`[POST PUBLISHER] Published to ${chatId} in ${Date.now() - startTime}ms, messages: ${messages.map(message => message.messageId).join(', ')}`);
+
+      return {
+        success: true,
+        message: 'Successfully published to Telegram',
+        messageIds: messages.map(message => message.messageId),
+        messages,
+        chatId,
+        text
+      };
+    } catch (error) {
+      console.error('[POST PUBLISHER] Error publishing to Telegram:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to publish to Telegram'
+      };
+    }
+  }
+
+  /**
+   * Send a group of media as one message or album
+   * Local files are uploaded as multipart and the returned file_id is cached for the next publication
+   */
+  private async sendMedia(
+    telegramService: TelegramService,
+    botToken: string,
+    chatId: string,
+    items: IPostMedia[],
+    caption?: string,
+    replyMarkup?: any
+  ): Promise<TelegramResult> {
+    let inputs = await Promise.all(items.map(item => telegramFileService.resolve(botToken, item)));
+    const send = () => items.length > 1
+      ? this.sendAlbum(telegramService, chatId, items, inputs.map(input => input.input), caption)
+      : this.sendSingleMedia(telegramService, chatId, items[0], inputs[0].input, caption, replyMarkup);
+
+    let result = await send();
+
+    // Telegram may stop accepting a cached file_id, in that case send the original files again
+    if (!result.success && inputs.some(input => input.cached) && telegramFileService.isInvalidFileIdError(result.message)) {
+      console.warn(`[POST PUBLISHER] Cached file_id rejected for ${chatId}, uploading media again`);
+      await Promise.all(items
+        .filter((_, index) => inputs[index].cached)
+        .map(item => telegramFileService.forget(botToken, item)));
+      inputs = await Promise.all(items.map(item => telegramFileService.resolve(botToken, item)));
+      result = await send();
+    }
+
+    if (result.success) {
+      await Promise.all(items.map((item, index) => {
+        const fileId = result.fileIds?.[index];
+        return !inputs[index].cached && fileId ? telegramFileService.remember(botToken, item, fileId) : null;
+      }));
+    }
+
+    return result;
+  }
+
+  /**
+   * Send one media item with the Bot API method matching its type
+   */
+  private async sendSingleMedia(
+    telegramService: TelegramService,
+    chatId: string,
+    item: IPostMedia,
+    input: TelegramInputFile,
+    caption?: string,
+    replyMarkup?: any
+  ): Promise<TelegramResult> {
+    const params = { file: input, caption, reply_markup: replyMarkup };
+
+    switch (item.type) {
+      case 'video':
+        return telegramService.sendVideo(chatId, params);
+      case 'animation':
+        return telegramService.sendAnimation(chatId, params);
+      case 'document':
+        return telegramService.sendDocument(chatId, params);
+      case 'audio':
+        return telegramService.sendAudio(chatId, params);
+      default:
+        return telegramService.sendPhoto(chatId, { photo: input, caption, reply_markup: replyMarkup });
+    }
+  }
+
+  /**
+   * Send items that can share an album as a media group, with the caption on the first item
+   */
+  private async sendAlbum(
+    telegramService: TelegramService,
+    chatId: string,
+    items: IPostMedia[],
+    inputs: TelegramInputFile[],
+    caption?: string
+  ): Promise<TelegramResult> {
+    return telegramService.sendMediaGroup(chatId, {
+      media: items.map((item, index) => ({
+        type: item.type as MediaGroupItemType,
+        media: inputs[index],
+        ...(index === 0 && caption && { caption })
+      }))
+    });
+  }
+}
+
+export default new PostPublisher();
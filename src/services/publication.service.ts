@@ -0,0 +1,342 @@
+import mongoose from 'mongoose';
+import PublishedPost, { IPublishedPost, PublicationSource, PublishedMessage } from '../models/published-post.model';
+import { IPostMedia, PostMediaType } from '../models/post-media.model';
+import { IScheduledPost } from '../models/scheduled-post.model';
+import { IChannel } from '../models/user.model';
+import { TelegramService, TelegramResult, buildReplyMarkup, buildImagePreview } from './telegram.service';
+import telegramFileService from './telegramFile.service';
+import { MAX_MESSAGE_LENGTH, MAX_CAPTION_LENGTH, TRUNCATED_CAPTION_LENGTH, resolvePostMedia } from './postPublisher.service';
+
+// Result of an edit or delete operation on a published post
+export interface PublicationEditResult {
+  success: boolean;
+  message?: string;
+  failedMessageIds?: number[];
+}
+
+interface RecordPublicationParams {
+  userId: mongoose.Types.ObjectId | string;
+  channel: IChannel;
+  chatId: string;
+  messageIds: number[];
+  messages?: PublishedMessage[];
+  text: string;
+  imageUrl?: string;
+  imageUrls?: string[];
+  media?: IPostMedia[];
+  tags?: string[];
+  imagePosition?: 'top' | 'bottom';
+  buttons?: { text: string; url: string }[];
+  source: PublicationSource;
+  sourceId?: string;
+  scheduledPostId?: string;
+}
+
+/**
+ * Source of the publication of a scheduled post; content taken from a draft is recorded as a draft publication
+ * @param source Source of a post without a draft: scheduled for the scheduler, manual for publishing right away
+ */
+export const getScheduledPostSource = (post: IScheduledPost, source: 'scheduled' | 'manual') => ({
+  source: post.draftId ? 'draft' as PublicationSource : source,
+  sourceId: post.draftId || String(post._id),
+  scheduledPostId: String(post._id),
+});
+
+class PublicationService {
+  /**
+   * Store a record of content that went out to a channel
+   * Errors are logged and swallowed: failing to write the audit record
+   * must not turn a successful publication into a failed one
+   */
+  async recordPublication(params: RecordPublicationParams): Promise<IPublishedPost | null> {
+    try {
+      const publishedPost = new PublishedPost({
+        user: params.userId,
+        channelId: params.channel._id?.toString(),
+        channelUsername: params.channel.username,
+        channelTitle: params.channel.title,
+        chatId: params.chatId,
+        messageIds: params.messageIds,
+        messages: params.messages || [],
+        text: params.text,
+        imageUrl: params.imageUrl,
+        imageUrls: params.imageUrls || [],
+        media: params.media || [],
+        tags: params.tags || [],
+        imagePosition: params.imagePosition,
+        buttons: params.buttons || [],
+        source: params.source,
+        sourceId: params.sourceId,
+        scheduledPostId: params.scheduledPostId || null,
+        publishedAt: new Date(),
+      });
+
+      await publishedPost.save();
+      console.log(`[PUBLICATION SERVICE] Recorded ${params.source} publication to ${params.chatId}, messages: ${params.messageIds.join(', ')}`);
+
+      return publishedPost;
+    } catch (error) {
+      console.error('[PUBLICATION SERVICE] Error recording publication:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace the text of a published post
+   * Text messages are edited in place, captions are edited together with
+   * the continuation message that holds the full text of a long caption
+   */
+  async editText(post: IPublishedPost, botToken: string, text: string): Promise<PublicationEditResult> {
+    const telegramService = new TelegramService(botToken);
+    const messages = getPostMessages(post);
+    const replyMarkup = buildReplyMarkup(post.buttons);
+
+    const mainMessage = messages.find(message => message.role === 'main')
+      || messages.find(message => message.role === 'album');
+
+    if (!mainMessage) {
+      return { success: false, message: 'Published post has no message to edit' };
+    }
+
+    const continuations = messages.filter(message => message.role === 'continuation');
+
+    // Messages cannot be added or removed, so posts split into several text messages are not editable
+    if ((mainMessage.type === 'text' && continuations.length > 0) || continuations.length > 1) {
+      return { success: false, message: 'Text of a post split across several messages cannot be edited' };
+    }
+
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      return { success: false, message: `Text must not exceed ${MAX_MESSAGE_LENGTH} characters` };
+    }
+
+    let result: TelegramResult;
+
+    if (mainMessage.type === 'text') {
+      // Keep the image preview for posts published with the image below the text
+      const previewItem = post.imagePosition === 'bottom'
+        ? resolvePostMedia(post).find(item => item.type === 'photo' || item.type === 'video')
+        : undefined;
+      const previewUrl = previewItem?.url;
+      result = await telegramService.editMessageText(post.chatId, mainMessage.messageId, previewUrl
+        ? { ...buildImagePreview(text, previewUrl), reply_markup: replyMarkup }
+        : { text, reply_markup: replyMarkup }
+      );
+    } else {
+      const continuation = continuations[0];
+
+      if (text.length > MAX_CAPTION_LENGTH && !continuation) {
+        return { success: false, message: `Caption must not exceed ${MAX_CAPTION_LENGTH} characters` };
+      }
+
+      result = await telegramService.editMessageCaption(post.chatId, mainMessage.messageId, {
+        caption: getCaption(text, !!continuation),
+        // Album items cannot carry buttons
+        reply_markup: mainMessage.role === 'main' ? replyMarkup : undefined
+      });
+
+      if (isEditSuccessful(result) && continuation) {
+        result = await telegramService.editMessageText(post.chatId, continuation.messageId, { text });
+      }
+    }
+
+    if (!isEditSuccessful(result)) {
+      return { success: false, message: result.message };
+    }
+
+    post.text = text;
+    post.editedAt = new Date();
+    await post.save();
+
+    return { success: true };
+  }
+
+  /**
+   * Replace a media item of a published post
+   * @param media New file URL; the type defaults to the type of the replaced message
+   * @param index Position of the item in the post (0 for single-media posts)
+   */
+  async editMedia(
+    post: IPublishedPost,
+    botToken: string,
+    media: { url: string; type?: PostMediaType },
+    index: number = 0
+  ): Promise<PublicationEditResult> {
+    const telegramService = new TelegramService(botToken);
+    const messages = getPostMessages(post);
+    const replyMarkup = buildReplyMarkup(post.buttons);
+    const mainMessage = messages.find(message => message.role === 'main');
+
+    let result: TelegramResult;
+    let type: PostMediaType;
+
+    if (mainMessage && mainMessage.type === 'text') {
+      // Photo shown as a link preview below the text
+      if (post.imagePosition !== 'bottom' || index !== 0 || (media.type && media.type !== 'photo')) {
+        return { success: false, message: 'Published post has no media at this position' };
+      }
+
+      type = 'photo';
+      result = await telegramService.editMessageText(post.chatId, mainMessage.messageId, {
+        ...buildImagePreview(post.text, media.url),
+        reply_markup: replyMarkup
+      });
+    } else {
+      const mediaMessages = messages.filter(message => message.type !== 'text');
+      const target = mediaMessages[index];
+
+      if (!target) {
+        return { success: false, message: 'Published post has no media at this position' };
+      }
+
+      const hasContinuation = messages.some(message => message.role === 'continuation');
+      type = media.type || target.type as PostMediaType;
+      const resolved = await telegramFileService.resolve(botToken, { type, url: media.url });
+
+      // editMessageMedia drops the caption unless it is passed again
+      result = await telegramService.editMessageMedia(post.chatId, target.messageId, {
+        media: {
+          type,
+          media: resolved.input,
+          ...(index === 0 && { caption: getCaption(post.text, hasContinuation) })
+        },
+        reply_markup: target.role === 'main' ? replyMarkup : undefined
+      });
+
+      const fileId = result.fileIds?.[0];
+      if (result.success && !resolved.cached && fileId) {
+        await telegramFileService.remember(botToken, { type, url: media.url }, fileId);
+      }
+
+      if (isEditSuccessful(result) && target.type !== type) {
+        target.type = type;
+        post.messages = messages;
+      }
+    }
+
+    if (!isEditSuccessful(result)) {
+      return { success: false, message: result.message };
+    }
+
+    if (post.media && post.media.length > 0) {
+      const updatedMedia = [...post.media];
+      updatedMedia[index] = { type, url: media.url };
+      post.media = updatedMedia;
+    } else if (post.imageUrls && post.imageUrls.length > 0) {
+      const imageUrls = [...post.imageUrls];
+      imageUrls[index] = media.url;
+      post.imageUrls = imageUrls;
+    } else {
+      post.imageUrl = media.url;
+    }
+    post.editedAt = new Date();
+    await post.save();
+
+    return { success: true };
+  }
+
+  /**
+   * Replace the inline buttons of a published post
+   */
+  async editButtons(post: IPublishedPost, botToken: string, buttons: { text: string; url: string }[]): Promise<PublicationEditResult> {
+    const telegramService = new TelegramService(botToken);
+    const messages = getPostMessages(post);
+
+    // Buttons live on the main message, or on a separate "Links" message for albums
+    const target = messages.find(message => message.role === 'main')
+      || messages.find(message => message.role === 'links');
+
+    if (!target) {
+      return { success: false, message: 'Buttons cannot be added to an album that was published without them' };
+    }
+
+    const result = await telegramService.editMessageReplyMarkup(post.chatId, target.messageId, buildReplyMarkup(buttons));
+
+    if (!isEditSuccessful(result)) {
+      return { success: false, message: result.message };
+    }
+
+    post.buttons = buttons;
+    post.editedAt = new Date();
+    await post.save();
+
+    return { success: true };
+  }
+
+  /**
+   * Delete all Telegram messages of a published post
+   * The record itself is kept and marked as deleted for auditing
+   */
+  async deletePublication(post: IPublishedPost, botToken: string): Promise<PublicationEditResult> {
+    const telegramService = new TelegramService(botToken);
+    const failedMessageIds: number[] = [];
+    let lastError: string | undefined;
+
+    for (const message of getPostMessages(post)) {
+      const result = await telegramService.deleteMessage(post.chatId, message.messageId);
+
+      // A message that is already gone counts as deleted
+      if (!result.success && !result.message?.includes('message to delete not found')) {
+        failedMessageIds.push(message.messageId);
+        lastError = result.message;
+      }
+    }
+
+    if (failedMessageIds.length > 0) {
+      return { success: false, message: lastError, failedMessageIds };
+    }
+
+    post.deletedAt = new Date();
+    await post.save();
+
+    return { success: true };
+  }
+}
+
+/**
+ * Get the messages of a published post
+ * Records created before message types were stored only have messageIds, so types are derived from the content
+ */
+const getPostMessages = (post: IPublishedPost): PublishedMessage[] => {
+  if (post.messages && post.messages.length > 0) {
+    return post.messages;
+  }
+
+  const hasImages = !!post.imageUrl || (post.imageUrls?.length || 0) > 0;
+  const isAlbum = (post.imageUrls?.length || 0) > 0 && post.imagePosition !== 'bottom';
+
+  return post.messageIds.map((messageId, index): PublishedMessage => {
+    if (isAlbum) {
+      return index < post.imageUrls!.length
+        ? { messageId, type: 'photo', role: 'album' }
+        : { messageId, type: 'text', role: 'links' };
+    }
+
+    if (index > 0) {
+      return { messageId, type: 'text', role: 'continuation' };
+    }
+
+    return {
+      messageId,
+      type: hasImages && post.imagePosition !== 'bottom' ? 'photo' : 'text',
+      role: 'main'
+    };
+  });
+};
+
+/**
+ * Build the caption for the main media message, shortened when the full text is sent separately
+ */
+const getCaption = (text: string, hasContinuation: boolean): string => {
+  return hasContinuation && text.length > TRUNCATED_CAPTION_LENGTH
+    ? text.substring(0, TRUNCATED_CAPTION_LENGTH) + '...'
+    : text;
+};
+
+/**
+ * Telegram rejects edits that do not change anything - treat them as successful
+ */
+const isEditSuccessful = (result: TelegramResult): boolean => {
+  return result.success || !!result.message?.includes('message is not modified');
+};
+
+export default new PublicationService();
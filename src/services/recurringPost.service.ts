@@ -0,0 +1,176 @@
+import mongoose, { UpdateQuery } from 'mongoose';
+import ScheduledPost, { IScheduledPost } from '../models/scheduled-post.model';
+import User from '../models/user.model';
+import { getNextOccurrence, getOccurrencesBetween } from '../utils/recurrenceUtils';
+import approvalService from './approval.service';
+
+/**
+ * A recurring post is a series of scheduled posts sharing a seriesId.
+ * Only one pending occurrence carries the recurrence; the next one is created
+ * when it leaves the queue, so editing a single occurrence never touches the others.
+ */
+class RecurringPostService {
+  /**
+   * Create the next occurrence of a series and hand the recurrence over to it
+   * Called when an occurrence is published or failed, and before an occurrence is edited or deleted on its own
+   * @returns The new occurrence or null if the post does not recur or the series has ended
+   */
+  async scheduleNextOccurrence(post: IScheduledPost): Promise<IScheduledPost | null> {
+    const recurrence = post.recurrence;
+    if (!recurrence) {
+      return null;
+    }
+
+    const postId = post._id as mongoose.Types.ObjectId;
+    const seriesId = post.seriesId || postId;
+
+    // The recurrence leaves this occurrence first, so a retried or republished one does not continue the series twice
+    post.recurrence = null;
+    const handedOver = await ScheduledPost.updateOne(
+      { _id: postId, recurrence: { $ne: null } },
+      { $set: { recurrence: null } }
+    );
+    if (handedOver.modifiedCount === 0) {
+      return null;
+    }
+
+    // Occurrences missed while the server was down are not published late
+    const after = new Date(Math.max(Date.now(), post.scheduledDate.getTime()));
+    const nextDate = getNextOccurrence(recurrence, after, await getOwnerTimeZone(post));
+    if (!nextDate) {
+      console.log(`[RECURRING] Series ${seriesId} has ended`);
+      return null;
+    }
+
+    const nextPost = await ScheduledPost.create({
+      user: post.user,
+      channelId: post.channelId,
+      text: post.text,
+      imageUrl: post.imageUrl,
+      imageUrls: post.imageUrls,
+      media: post.media,
+      tags: post.tags,
+      imagePosition: post.imagePosition,
+      buttons: post.buttons,
+      draftId: post.draftId || null,
+      scheduledDate: nextDate,
+      published: false,
+      status: 'pending',
+      recurrence,
+      seriesId,
+      approval: approvalService.inheritApproval(post.approval),
+    });
+
+    console.log(`[RECURRING] Scheduled next occurrence of series ${seriesId} for ${nextDate.toISOString()}`);
+    return nextPost;
+  }
+
+  /**
+   * Find the pending occurrence that continues a series
+   */
+  async findSeriesHead(seriesId: mongoose.Types.ObjectId): Promise<IScheduledPost | null> {
+    return ScheduledPost.findOne({
+      seriesId,
+      published: false,
+      recurrence: { $ne: null },
+    });
+  }
+
+  /**
+   * Apply an update to an occurrence and all unpublished occurrences of its series after it
+   */
+  async updateFutureOccurrences(post: IScheduledPost, update: UpdateQuery<IScheduledPost>): Promise<void> {
+    await ScheduledPost.updateMany(
+      {
+        seriesId: post.seriesId,
+        user: post.user,
+        published: false,
+        ...futureOccurrencesFilter(post),
+      },
+      update
+    );
+  }
+
+  /**
+   * Move an occurrence of a series that has not been created yet
+   * The date is excluded from the recurrence and a post detached from the rule is created at the new date;
+   * it keeps the seriesId, so changes to all future occurrences still apply to it
+   * @param head The pending occurrence carrying the recurrence
+   * @returns The created post or null if the date is not an upcoming occurrence of the series
+   */
+  async moveOccurrence(head: IScheduledPost, occurrenceDate: Date, newDate: Date): Promise<IScheduledPost | null> {
+    const recurrence = head.recurrence;
+    if (!recurrence || occurrenceDate <= head.scheduledDate) {
+      return null;
+    }
+
+    const timezone = await getOwnerTimeZone(head);
+    const [occurrence] = getOccurrencesBetween(recurrence, new Date(occurrenceDate.getTime() - 1), occurrenceDate, 1, timezone);
+    if (!occurrence || occurrence.getTime() !== occurrenceDate.getTime()) {
+      return null;
+    }
+
+    head.set('recurrence.exDates', [...recurrence.exDates, occurrenceDate]);
+    await head.save();
+
+    const movedPost = await ScheduledPost.create({
+      user: head.user,
+      channelId: head.channelId,
+      text: head.text,
+      imageUrl: head.imageUrl,
+      imageUrls: head.imageUrls,
+      media: head.media,
+      tags: head.tags,
+      imagePosition: head.imagePosition,
+      buttons: head.buttons,
+      draftId: head.draftId || null,
+      scheduledDate: newDate,
+      published: false,
+      status: 'pending',
+      recurrence: null,
+      seriesId: head.seriesId,
+      approval: approvalService.inheritApproval(head.approval),
+    });
+
+    console.log(`[RECURRING] Moved occurrence of series ${head.seriesId} from ${occurrenceDate.toISOString()} to ${newDate.toISOString()}`);
+    return movedPost;
+  }
+
+  /**
+   * Delete an occurrence and all unpublished occurrences of its series after it
+   * @returns Number of deleted occurrences
+   */
+  async deleteFutureOccurrences(post: IScheduledPost): Promise<number> {
+    const result = await ScheduledPost.deleteMany({
+      seriesId: post.seriesId,
+      user: post.user,
+      published: false,
+      // An occurrence that is being published right now is left alone
+      status: { $ne: 'publishing' },
+      ...futureOccurrencesFilter(post),
+    });
+
+    return result.deletedCount;
+  }
+}
+
+/**
+ * Time zone the occurrences of a series are calculated in: the owner's, or the server's if the owner has none
+ */
+const getOwnerTimeZone = async (post: IScheduledPost): Promise<string | null> => {
+  const owner = await User.findById(post.user).select('timezone');
+  return owner?.timezone || null;
+};
+
+/**
+ * Occurrences from this one on; the pending occurrence carrying the recurrence always counts as future,
+ * even when an occurrence edited on its own was moved after it
+ */
+const futureOccurrencesFilter = (post: IScheduledPost) => ({
+  $or: [
+    { scheduledDate: { $gte: post.scheduledDate } },
+    { recurrence: { $ne: null } },
+  ],
+});
+
+export default new RecurringPostService();
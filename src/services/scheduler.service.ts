@@ -1,22 +1,37 @@
 import cron from 'node-cron';
-import ScheduledPost from '../models/scheduled-post.model';
-import ScheduledPoll from '../models/scheduled-poll.model';
+import ScheduledPost, { IScheduledPost } from '../models/scheduled-post.model';
+import ScheduledPoll, { IScheduledPoll } from '../models/scheduled-poll.model';
 import User from '../models/user.model';
-import { publishToTelegram } from './telegram.service';
-import { TelegramService } from './telegram.service';
+import postPublisher, { PublishResult } from './postPublisher.service';
 import mongoose from 'mongoose';
-import { cleanupOldImages, cleanupDraftMetadata, moveMisplacedDraftImages } from './cleanup.service';
+import { cleanupOldImages, cleanupOldGeneratedImages, moveMisplacedDraftImages } from './cleanup.service';
 import autoPostingService from './autoposting.service';
+import channelHealthService from './channelHealth.service';
+import analyticsService from './analytics.service';
+import lockService, { INSTANCE_ID } from './lock.service';
+import publicationService, { getScheduledPostSource } from './publication.service';
+import pollService from './poll.service';
+import { TelegramResult } from './telegram.service';
+import recurringPostService from './recurringPost.service';
+import approvalService, { publishableFilter } from './approval.service';
+import { MAX_PUBLISH_ATTEMPTS, calculateRetryDelay, isRetryablePublishError } from '../utils/retryUtils';
 
-// Set для хранения ID постов, которые сейчас обрабатываются
-// чтобы избежать дублирования обработки одного и того же поста
-const processingPosts = new Set<string>();
+// Posts that can be picked up by the scheduler: pending ones, plus posts left in
+// "publishing" by an instance that crashed before its lease expired
+const claimablePostFilter = (now: Date) => ({
+  $or: [
+    { status: { $in: ['pending', null] } },
+    { status: 'publishing', lockedUntil: { $lte: now } }
+  ]
+});
 
 class SchedulerService {
   private running: boolean = false;
   private postsPollsJob: cron.ScheduledTask | null = null;
   private autoPostingJob: cron.ScheduledTask | null = null;
   private cleanupJob: cron.ScheduledTask | null = null;
+  private healthCheckJob: cron.ScheduledTask | null = null;
+  private analyticsJob: cron.ScheduledTask | null = null;
 
   /**
    * Start the scheduler
@@ -32,6 +47,7 @@ class SchedulerService {
       try {
         await this.processScheduledPosts();
         await this.processScheduledPolls();
+        await approvalService.holdUnapprovedItems();
       } catch (error) {
         console.error('Error in scheduler service:', error);
       }
@@ -55,20 +71,37 @@ class SchedulerService {
       try {
         console.log('Running daily image cleanup...');
         await cleanupOldImages();
+        await cleanupOldGeneratedImages();
         console.log('Daily image cleanup completed');
       } catch (error) {
         console.error('Error in image cleanup service:', error);
       }
     });
 
+    // Re-validate channel bots every 6 hours; unhealthy channels get their jobs paused
+    this.healthCheckJob = cron.schedule('0 */6 * * *', async () => {
+      try {
+        console.log('[SCHEDULER] Running channel health check...');
+        const unhealthyCount = await channelHealthService.checkAllChannels();
+        console.log(`[SCHEDULER] Channel health check completed, ${unhealthyCount} unhealthy channels`);
+      } catch (error) {
+        console.error('[SCHEDULER] Error in channel health check:', error);
+      }
+    });
+
+    // Collect views, reactions and member counts every hour; each post decides how often it is sampled
+    this.analyticsJob = cron.schedule('30 * * * *', async () => {
+      try {
+        const sampledCount = await analyticsService.collect();
+        console.log(`[SCHEDULER] Analytics collected, ${sampledCount} posts sampled`);
+      } catch (error) {
+        console.error('[SCHEDULER] Error collecting analytics:', error);
+      }
+    });
+
     this.running = true;
     console.log('Scheduler started successfully');
     
-    // Clean up draft metadata first to fix any inconsistencies
-    cleanupDraftMetadata()
-      .then(() => console.log('Draft metadata cleanup completed'))
-      .catch(err => console.error('Error during draft metadata cleanup:', err));
-    
     // Move any misplaced draft images to the correct location
     moveMisplacedDraftImages()
       .then(() => console.log('Draft image relocation completed'))
@@ -108,10 +141,35 @@ class SchedulerService {
       this.cleanupJob = null;
     }
     
+    if (this.healthCheckJob) {
+      this.healthCheckJob.stop();
+      this.healthCheckJob = null;
+    }
+
+    if (this.analyticsJob) {
+      this.analyticsJob.stop();
+      this.analyticsJob = null;
+    }
+    
     this.running = false;
     console.log('Scheduler stopped');
   }
 
+  /**
+   * Publish due scheduled posts now instead of waiting for the next run, e.g. after a campaign was created
+   * Posts are claimed the same way as on a regular run, so an overlapping run does not publish them twice
+   */
+  public async publishDuePosts(): Promise<void> {
+    await this.processScheduledPosts();
+  }
+
+  /**
+   * Publish due scheduled polls now instead of waiting for the next run
+   */
+  public async publishDuePolls(): Promise<void> {
+    await this.processScheduledPolls();
+  }
+
   /**
    * Process due scheduled posts
    */
@@ -120,107 +178,143 @@ class SchedulerService {
       // Get current time
       const now = new Date();
       
-      // Find scheduled posts that are due for publishing
+      // Find posts that are due for publishing and whose retry delay (if any) has passed.
+      // Posts created before statuses were introduced have no status field, so null matches them too
+      // Posts of channels with approval are held until they are approved
       const duePosts = await ScheduledPost.find({
         published: false,
-        scheduledDate: { $lte: now }
+        scheduledDate: { $lte: now },
+        ...publishableFilter,
+        $and: [
+          claimablePostFilter(now),
+          {
+            $or: [
+              { nextAttemptAt: null },
+              { nextAttemptAt: { $lte: now } }
+            ]
+          }
+        ]
       });
 
       if (duePosts.length === 0) {
         return;
       }
 
-      console.log(`[SCHEDULER] Found ${duePosts.length} scheduled posts to publish`);
-      console.log(`[SCHEDULER] Current processing posts: ${Array.from(processingPosts).join(', ')}`);
+      console.log(`[SCHEDULER] Found ${duePosts.length} scheduled posts to publish (instance ${INSTANCE_ID})`);
 
       // Process each post
-      for (const post of duePosts) {
+      for (const duePost of duePosts) {
         try {
-          const postId = (post._id as mongoose.Types.ObjectId).toString();
+          const postId = (duePost._id as mongoose.Types.ObjectId).toString();
           
-          // Сначала еще раз проверим в базе данных - возможно пост уже был удален
-          // другим процессом (например, ручной публикацией)
-          const postStillExists = await ScheduledPost.findById(postId);
-          if (!postStillExists) {
-            console.log(`[SCHEDULER] Post ${postId} no longer exists in the database, skipping`);
+          // Атомарно захватываем пост: если его уже обрабатывает другой процесс
+          // (другая реплика или ручная публикация), захват не удастся
+          const post = await lockService.claim(
+            ScheduledPost,
+            {
+              _id: duePost._id,
+              published: false,
+              ...publishableFilter,
+              ...claimablePostFilter(new Date())
+            },
+            undefined,
+            { $set: { status: 'publishing' } }
+          );
+
+          if (!post) {
+            console.log(`[SCHEDULER] Post ${postId} was claimed by another instance or is no longer due, skipping`);
             continue;
           }
           
-          // Проверяем, не обрабатывается ли этот пост уже
-          const isProcessing = processingPosts.has(postId);
-          console.log(`[SCHEDULER] Post ${postId} is already being processed: ${isProcessing}`);
+          console.log(`[SCHEDULER] Processing post ID: ${postId}, scheduled for: ${post.scheduledDate}, attempt: ${(post.attempts || 0) + 1}`);
+          console.log(`[SCHEDULER] Post details: ${JSON.stringify({
+            channelId: post.channelId,
+            textLength: post.text.length,
+            hasImage: !!post.imageUrl,
+            imageCount: post.imageUrls?.length || 0,
+            imagePosition: post.imagePosition || 'top',
+            buttonCount: post.buttons?.length || 0
+          })}`);
+          
+          // First we need to find the user who owns the channel
+          const user = await User.findOne({
+            _id: post.user
+          });
           
-          if (isProcessing) {
-            console.log(`[SCHEDULER] Post ${postId} is already being processed, skipping`);
+          if (!user) {
+            console.error(`[SCHEDULER] User not found for scheduled post ${postId}`);
+            await this.markPostFailed(post, 'User not found');
             continue;
           }
+
+          // Find the channel in the user's channels array
+          const channel = user.channels.find(c => {
+            if (!c._id) return false;
+            return c._id.toString() === post.channelId.toString();
+          });
+
+          if (!channel || !channel.botToken) {
+            console.error(`[SCHEDULER] Channel not found or missing bot token for post ${postId}`);
+            await this.markPostFailed(post, 'Channel not found or missing bot token');
+            continue;
+          }
+
+          console.log(`[SCHEDULER] Publishing to channel: ${channel.title || channel.username}`);
           
-          // Добавляем пост в список обрабатываемых
-          processingPosts.add(postId);
-          console.log(`[SCHEDULER] Added post ${postId} to processing set. Current size: ${processingPosts.size}`);
+          // Check if we have multiple images
+          if (post.imageUrls && post.imageUrls.length > 0) {
+            console.log(`[SCHEDULER] Post has ${post.imageUrls.length} images in imageUrls array`);
+          } else if (post.imageUrl) {
+            console.log(`[SCHEDULER] Post has a single image: ${post.imageUrl}`);
+          } else {
+            console.log(`[SCHEDULER] Post is text-only`);
+          }
+
+          post.attempts = (post.attempts || 0) + 1;
+          await post.save();
+
+          // Publish to Telegram
+          const result = await postPublisher.publish(channel.username, channel.botToken, {
+            text: post.text,
+            imageUrl: post.imageUrl,
+            imageUrls: post.imageUrls,
+            media: post.media,
+            tags: post.tags,
+            imagePosition: post.imagePosition || 'top',
+            buttons: post.buttons || []
+          });
           
-          try {
-            console.log(`[SCHEDULER] Processing post ID: ${postId}, scheduled for: ${post.scheduledDate}`);
-            console.log(`[SCHEDULER] Post details: ${JSON.stringify({
-              channelId: post.channelId,
-              textLength: post.text.length,
-              hasImage: !!post.imageUrl,
-              imageCount: post.imageUrls?.length || 0,
-              imagePosition: post.imagePosition || 'top',
-              buttonCount: post.buttons?.length || 0
-            })}`);
-            
-            // First we need to find the user who owns the channel
-            const user = await User.findOne({
-              _id: post.user
-            });
-            
-            if (!user) {
-              console.error(`[SCHEDULER] User not found for scheduled post ${postId}`);
-              continue;
-            }
-
-            // Find the channel in the user's channels array
-            const channel = user.channels.find(c => {
-              if (!c._id) return false;
-              return c._id.toString() === post.channelId.toString();
+          if (result.success) {
+            post.status = 'published';
+            post.published = true;
+            post.publishedAt = new Date();
+            post.nextAttemptAt = null;
+            post.lastError = undefined;
+            post.lockedBy = null;
+            post.lockedUntil = null;
+            await post.save();
+
+            await publicationService.recordPublication({
+              userId: post.user,
+              channel,
+              chatId: result.chatId || channel.username,
+              messageIds: result.messageIds || [],
+              messages: result.messages,
+              text: result.text || post.text,
+              imageUrl: post.imageUrl,
+              imageUrls: post.imageUrls,
+              media: post.media,
+              tags: post.tags,
+              imagePosition: post.imagePosition,
+              buttons: post.buttons,
+              ...getScheduledPostSource(post, 'scheduled')
             });
 
-            if (!channel || !channel.botToken) {
-              console.error(`[SCHEDULER] Channel not found or missing bot token for post ${postId}`);
-              continue;
-            }
-
-            console.log(`[SCHEDULER] Publishing to channel: ${channel.title || channel.username}`);
-            
-            // Check if we have multiple images
-            if (post.imageUrls && post.imageUrls.length > 0) {
-              console.log(`[SCHEDULER] Post has ${post.imageUrls.length} images in imageUrls array`);
-            } else if (post.imageUrl) {
-              console.log(`[SCHEDULER] Post has a single image: ${post.imageUrl}`);
-            } else {
-              console.log(`[SCHEDULER] Post is text-only`);
-            }
-
-            // Publish to Telegram
-            const result = await publishToTelegram(
-              channel.username, 
-              channel.botToken, 
-              post.text, 
-              post.imageUrl,
-              post.imageUrls,
-              post.tags,
-              post.imagePosition || 'top',
-              post.buttons || []
-            );
-            
-            // Delete the post instead of marking as published
-            await ScheduledPost.findByIdAndDelete(post._id);
-
-            console.log(`[SCHEDULER] Published and deleted scheduled post ${postId} - ${result.success ? 'Success' : 'Failed: ' + result.message}`);
-          } finally {
-            // Удаляем пост из списка обрабатываемых в любом случае
-            processingPosts.delete(postId);
+            await this.scheduleNextOccurrence(post);
+
+            console.log(`[SCHEDULER] Published scheduled post ${postId} on attempt ${post.attempts}`);
+          } else {
+            await this.handlePublishFailure(post, result);
           }
         } catch (postError) {
           console.error(`[SCHEDULER] Error processing scheduled post:`, postError);
@@ -231,6 +325,59 @@ class SchedulerService {
     }
   }
 
+  /**
+   * Schedule a retry for a post that failed to publish, or mark it as failed
+   * when the error is permanent or the attempt limit is reached
+   * Manual publications go through here too, so their failures reach the failed queue
+   */
+  public async handlePublishFailure(post: IScheduledPost, result: PublishResult): Promise<void> {
+    const postId = (post._id as mongoose.Types.ObjectId).toString();
+    const attempts = post.attempts || 0;
+
+    if (!isRetryablePublishError(result.errorCode) || attempts >= MAX_PUBLISH_ATTEMPTS) {
+      console.error(`[SCHEDULER] Giving up on post ${postId} after ${attempts} attempt(s): ${result.message}`);
+      await this.markPostFailed(post, result.message);
+      return;
+    }
+
+    const delay = calculateRetryDelay(attempts, result.retryAfter);
+
+    post.status = 'pending';
+    post.lastError = result.message;
+    post.nextAttemptAt = new Date(Date.now() + delay);
+    post.lockedBy = null;
+    post.lockedUntil = null;
+    await post.save();
+
+    console.warn(`[SCHEDULER] Failed to publish post ${postId} (attempt ${attempts}/${MAX_PUBLISH_ATTEMPTS}): ${result.message}. Next attempt at ${post.nextAttemptAt.toISOString()}`);
+  }
+
+  /**
+   * Move a post to the failed queue so the user can fix and retry it
+   */
+  private async markPostFailed(post: IScheduledPost, error: string): Promise<void> {
+    post.status = 'failed';
+    post.lastError = error;
+    post.nextAttemptAt = null;
+    post.lockedBy = null;
+    post.lockedUntil = null;
+    await post.save();
+
+    // A failed occurrence does not stop a recurring post
+    await this.scheduleNextOccurrence(post);
+  }
+
+  /**
+   * Create the next occurrence of a recurring post that left the queue
+   */
+  private async scheduleNextOccurrence(post: IScheduledPost): Promise<void> {
+    try {
+      await recurringPostService.scheduleNextOccurrence(post);
+    } catch (error) {
+      console.error(`[SCHEDULER] Error scheduling the next occurrence of post ${post._id}:`, error);
+    }
+  }
+
   /**
    * Process due scheduled polls
    */
@@ -240,9 +387,17 @@ class SchedulerService {
       const now = new Date();
       
       // Find scheduled polls that are due for publishing
+      // Polls that failed for good wait for the user, the others wait for their retry delay
       const duePolls = await ScheduledPoll.find({
         published: false,
-        scheduledDate: { $lte: now }
+        paused: { $ne: true },
+        failed: { $ne: true },
+        scheduledDate: { $lte: now },
+        ...publishableFilter,
+        $or: [
+          { nextAttemptAt: null },
+          { nextAttemptAt: { $lte: now } }
+        ]
       });
 
       if (duePolls.length === 0) {
@@ -252,7 +407,21 @@ class SchedulerService {
       console.log(`Found ${duePolls.length} scheduled polls to publish`);
 
       // Process each poll
-      for (const poll of duePolls) {
+      for (const duePoll of duePolls) {
+        // Атомарно захватываем опрос, чтобы его не опубликовала другая реплика
+        const poll = await lockService.claim(ScheduledPoll, {
+          _id: duePoll._id,
+          published: false,
+          paused: { $ne: true },
+          failed: { $ne: true },
+          ...publishableFilter
+        }, undefined, { $inc: { attempts: 1 } });
+
+        if (!poll) {
+          console.log(`Poll ${duePoll._id} was claimed by another instance, skipping`);
+          continue;
+        }
+
         try {
           console.log(`Processing poll ID: ${poll._id}, scheduled for: ${poll.scheduledDate}`);
           
@@ -263,6 +432,7 @@ class SchedulerService {
           
           if (!user) {
             console.error(`User not found for scheduled poll ${poll._id}`);
+            await this.markPollFailed(poll, 'User not found');
             continue;
           }
 
@@ -274,41 +444,66 @@ class SchedulerService {
 
           if (!channel || !channel.botToken) {
             console.error(`Channel not found or missing bot token for poll ${poll._id}`);
+            await this.markPollFailed(poll, 'Channel not found or missing bot token');
             continue;
           }
 
           console.log(`Publishing poll to channel: ${channel.title || channel.username}`);
 
-          // Prepare chat_id for Telegram API
-          let chatId = channel.username;
-          if (chatId && !chatId.startsWith('@') && !chatId.match(/^-?\d+$/)) {
-            chatId = '@' + chatId;
-          }
-
-          // Use the TelegramService to publish the poll
-          const telegramService = new TelegramService(channel.botToken);
-          const result = await telegramService.sendPoll(chatId, {
-            question: poll.question,
-            options: poll.options,
-            isAnonymous: poll.isAnonymous,
-            allowsMultipleAnswers: poll.allowsMultipleAnswers
-          });
+          // The poll is kept as published, its results are collected from poll updates
+          const result = await pollService.publish(poll, channel);
           
           if (result.success) {
-            // Delete the poll instead of marking as published
-            await ScheduledPoll.findByIdAndDelete(poll._id);
-            console.log(`Published and deleted scheduled poll ${poll._id} successfully`);
+            console.log(`Published scheduled poll ${poll._id} successfully, message ${result.messageId}`);
           } else {
-            console.error(`Failed to publish poll ${poll._id}: ${result.message}`);
+            await this.handlePollFailure(poll, result);
           }
         } catch (pollError) {
           console.error(`Error processing scheduled poll ${poll._id}:`, pollError);
+          // Unexpected errors are retried like network failures
+          await this.handlePollFailure(poll, { success: false, message: pollError instanceof Error ? pollError.message : 'Unknown error' })
+            .catch(err => console.error(`Error recording failure of poll ${poll._id}:`, err));
+        } finally {
+          // Освобождаем захват, чтобы неопубликованный опрос был повторен на следующем запуске
+          await lockService.release(ScheduledPoll, poll._id as mongoose.Types.ObjectId)
+            .catch(err => console.error(`Error releasing poll ${poll._id}:`, err));
         }
       }
     } catch (error) {
       console.error('Error in scheduler service (polls):', error);
     }
   }
+
+  /**
+   * Schedule a retry for a poll that failed to publish, or mark it as failed
+   * when the error is permanent or the attempt limit is reached
+   */
+  private async handlePollFailure(poll: IScheduledPoll, result: TelegramResult): Promise<void> {
+    const attempts = poll.attempts || 0;
+    const message = result.message || 'Unknown error';
+
+    if (!isRetryablePublishError(result.errorCode) || attempts >= MAX_PUBLISH_ATTEMPTS) {
+      console.error(`Giving up on poll ${poll._id} after ${attempts} attempt(s): ${message}`);
+      await this.markPollFailed(poll, message);
+      return;
+    }
+
+    poll.lastError = message;
+    poll.nextAttemptAt = new Date(Date.now() + calculateRetryDelay(attempts, result.retryAfter));
+    await poll.save();
+
+    console.warn(`Failed to publish poll ${poll._id} (attempt ${attempts}/${MAX_PUBLISH_ATTEMPTS}): ${message}. Next attempt at ${poll.nextAttemptAt.toISOString()}`);
+  }
+
+  /**
+   * Stop retrying a poll until the user edits or reschedules it
+   */
+  private async markPollFailed(poll: IScheduledPoll, error: string): Promise<void> {
+    poll.failed = true;
+    poll.lastError = error;
+    poll.nextAttemptAt = null;
+    await poll.save();
+  }
 }
 
 // Create a singleton instance
@@ -1,7 +1,13 @@
-import fs from 'fs';
-import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import User from '../models/user.model';
 import { Types } from 'mongoose';
+import storageDriver, { StoredObject } from './storage';
+
+// Префикс ключей изображений, сгенерированных AI (по подпапке на пользователя)
+export const GENERATED_IMAGES_PREFIX = 'generated/';
+
+// Префикс ключей файлов черновиков
+export const DRAFTS_PREFIX = 'drafts/';
 
 // Максимальный размер хранилища для одного пользователя (10 МБ)
 export const MAX_STORAGE_PER_USER = 10 * 1024 * 1024; // 10 MB in bytes
@@ -68,22 +74,85 @@ class StorageService {
   }
 
   /**
-   * Удаляет файл с диска и обновляет использованное пространство пользователя
+   * Сохраняет файл в хранилище (локальный диск или S3, см. STORAGE_DRIVER)
+   * @param key Ключ файла, например drafts/<uuid>.png
+   * @param data Содержимое файла
+   * @param contentType MIME-тип файла
+   * @param baseUrl Базовый URL сервера из запроса (для локального хранилища)
+   * @returns Публичный URL файла
+   */
+  async saveFile(key: string, data: Buffer, contentType?: string, baseUrl?: string): Promise<string> {
+    await storageDriver.put(key, data, contentType);
+    return storageDriver.getUrl(key, baseUrl);
+  }
+
+  /**
+   * Сохраняет изображение, сгенерированное AI, в generated/<userId>/ и учитывает его в хранилище пользователя
+   * Ссылки OpenAI живут около часа, поэтому везде используется наш постоянный URL
    * @param userId ID пользователя
-   * @param filePath Путь к файлу
+   * @param data Содержимое изображения
+   * @param extension Расширение файла
+   * @returns Постоянный URL изображения
    */
-  async deleteFile(userId: string | Types.ObjectId, filePath: string): Promise<void> {
+  async saveGeneratedImage(userId: string | Types.ObjectId, data: Buffer, extension: string = 'png'): Promise<string> {
     try {
-      if (fs.existsSync(filePath)) {
-        // Получаем размер файла перед удалением
-        const stats = fs.statSync(filePath);
-        const fileSize = stats.size;
+      const key = `${GENERATED_IMAGES_PREFIX}${userId.toString()}/${uuidv4()}.${extension}`;
+      const imageUrl = await this.saveFile(key, data, `image/${extension}`);
+
+      // Сгенерированные изображения учитываются в лимите, но не блокируют генерацию:
+      // кредиты за нее уже списаны
+      await this.updateStorageUsed(userId, data.length);
+
+      return imageUrl;
+    } catch (error) {
+      console.error('Error saving generated image:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Находит файл хранилища по его публичному URL
+   * Файлы из корня uploads могли быть перенесены в drafts/, поэтому они ищутся в обоих местах
+   * @returns Ключ и размер файла или null для внешних URL и отсутствующих файлов
+   */
+  async findFileByUrl(url: string): Promise<StoredObject | null> {
+    const key = url ? storageDriver.getKeyFromUrl(url) : null;
+    if (!key) {
+      return null;
+    }
+
+    const stored = await storageDriver.stat(key);
+    if (stored || key.includes('/')) {
+      return stored;
+    }
+
+    return storageDriver.stat(`${DRAFTS_PREFIX}${key}`);
+  }
+
+  /**
+   * Возвращает путь к файлу на локальном диске, если файл по URL хранится локально
+   * Используется для отправки файлов в Telegram через multipart
+   */
+  getLocalPath(url: string): string | null {
+    const key = storageDriver.getKeyFromUrl(url);
+    return key ? storageDriver.getLocalPath(key) : null;
+  }
 
+  /**
+   * Удаляет файл из хранилища и обновляет использованное пространство пользователя
+   * @param userId ID пользователя
+   * @param key Ключ файла в хранилище
+   */
+  async deleteFile(userId: string | Types.ObjectId, key: string): Promise<void> {
+    try {
+      // Получаем размер файла перед удалением
+      const stored = await storageDriver.stat(key);
+      if (stored) {
         // Удаляем файл
-        fs.unlinkSync(filePath);
+        await storageDriver.delete(key);
 
         // Уменьшаем используемое пространство
-        await this.updateStorageUsed(userId, -fileSize);
+        await this.updateStorageUsed(userId, -stored.size);
       }
     } catch (error) {
       console.error('Error deleting file:', error);
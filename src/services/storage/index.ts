@@ -0,0 +1,25 @@
+import config from '../../config/config';
+import { StorageDriver } from './storage.driver';
+import { LocalStorageDriver } from './local.driver';
+import { S3StorageDriver } from './s3.driver';
+
+export type { StorageDriver, StoredObject } from './storage.driver';
+
+/**
+ * Create the driver selected with STORAGE_DRIVER
+ */
+const createStorageDriver = (): StorageDriver => {
+  switch (config.storage.driver) {
+    case 'local':
+      return new LocalStorageDriver();
+    case 's3':
+      return new S3StorageDriver(config.storage.s3);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${config.storage.driver}. Allowed values: local, s3`);
+  }
+};
+
+const storageDriver = createStorageDriver();
+console.log(`[STORAGE] Using ${storageDriver.name} storage driver`);
+
+export default storageDriver;
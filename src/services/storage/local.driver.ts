@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import { StorageDriver, StoredObject, isValidKey } from './storage.driver';
+import { UPLOADS_DIR, getPublicBaseUrl, isOwnHost } from '../../utils/mediaUtils';
+
+/**
+ * Files in the uploads/ folder, served by the /uploads static route
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly rootDir: string = UPLOADS_DIR) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolvePath(key));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const fileStat = await fs.promises.stat(this.resolvePath(key));
+      return fileStat.isFile() ? { key, size: fileStat.size, lastModified: fileStat.mtime } : null;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.resolvePath(key));
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    const toPath = this.resolvePath(toKey);
+    await fs.promises.mkdir(path.dirname(toPath), { recursive: true });
+    await fs.promises.rename(this.resolvePath(fromKey), toPath);
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+
+    const walk = async (dir: string, keyPrefix: string): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        if (isNotFound(error)) {
+          return;
+        }
+        throw error;
+      }
+
+      for (const entry of entries) {
+        // Skip service folders such as the old .metadata timestamps
+        if (entry.name.startsWith('.')) {
+          continue;
+        }
+
+        const key = keyPrefix + entry.name;
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), `${key}/`);
+        } else if (entry.isFile() && key.startsWith(prefix)) {
+          const fileStat = await fs.promises.stat(path.join(dir, entry.name));
+          objects.push({ key, size: fileStat.size, lastModified: fileStat.mtime });
+        }
+      }
+    };
+
+    // Start from the deepest folder fully covered by the prefix
+    const folder = prefix.includes('/') ? prefix.substring(0, prefix.lastIndexOf('/') + 1) : '';
+    await walk(folder ? this.resolvePath(folder.slice(0, -1)) : this.rootDir, folder);
+
+    return objects;
+  }
+
+  getUrl(key: string, baseUrl?: string): string {
+    return `${(baseUrl || getPublicBaseUrl()).replace(/\/+$/, '')}/uploads/${key}`;
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    let parsedUrl: URL;
+    let pathname: string;
+    try {
+      parsedUrl = new URL(url);
+      pathname = decodeURIComponent(parsedUrl.pathname);
+    } catch (e) {
+      return null;
+    }
+
+    if (!pathname.startsWith('/uploads/') || !isOwnHost(parsedUrl.hostname)) {
+      return null;
+    }
+
+    const key = pathname.substring('/uploads/'.length);
+    return isValidKey(key) ? key : null;
+  }
+
+  getLocalPath(key: string): string | null {
+    const filePath = this.resolvePath(key);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  /**
+   * Absolute path of a key, protected against path traversal outside of the root folder
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.join(this.rootDir, key);
+    if (!isValidKey(key) || !filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+const isNotFound = (error: unknown): boolean => {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+};
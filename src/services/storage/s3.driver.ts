@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+import axios, { AxiosResponse } from 'axios';
+import * as cheerio from 'cheerio';
+import { StorageDriver, StoredObject, isValidKey } from './storage.driver';
+
+export interface S3DriverOptions {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  publicUrl?: string;
+}
+
+// SHA-256 of an empty body, sent with requests that have no payload
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').update('').digest('hex');
+
+/**
+ * Objects in an S3-compatible bucket (AWS S3, MinIO, Cloudflare R2, ...)
+ * Requests are signed with AWS Signature Version 4, so no SDK is needed
+ * The bucket (or S3_PUBLIC_URL in front of it) must allow public reads: Telegram downloads media by URL
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+
+  private readonly endpoint: URL;
+  private readonly publicUrl: string;
+
+  constructor(private readonly options: S3DriverOptions) {
+    if (!options.bucket || !options.accessKeyId || !options.secretAccessKey) {
+      throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+
+    this.endpoint = new URL(options.endpoint || `https://s3.${options.region}.amazonaws.com`);
+    this.publicUrl = (options.publicUrl || this.getBucketUrl()).replace(/\/+$/, '');
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    const response = await this.request('PUT', key, {
+      body: data,
+      headers: contentType ? { 'content-type': contentType } : {}
+    });
+    this.assertSuccess(response, 'PUT', key);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    this.assertSuccess(response, 'GET', key);
+    return response.data;
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) {
+      return null;
+    }
+    this.assertSuccess(response, 'HEAD', key);
+
+    return {
+      key,
+      size: Number(response.headers['content-length'] || 0),
+      lastModified: new Date(response.headers['last-modified'] || Date.now())
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (response.status !== 404) {
+      this.assertSuccess(response, 'DELETE', key);
+    }
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    // S3 has no rename: copy the object on the server side and delete the original
+    const response = await this.request('PUT', toKey, {
+      headers: { 'x-amz-copy-source': `/${this.options.bucket}/${encodeKey(fromKey)}` }
+    });
+    this.assertSuccess(response, 'COPY', fromKey);
+
+    await this.delete(fromKey);
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const response = await this.request('GET', '', { query });
+      this.assertSuccess(response, 'LIST', prefix);
+
+      const $ = cheerio.load(response.data.toString('utf8'), { xml: true });
+      $('Contents').each((_, element) => {
+        const item = $(element);
+        objects.push({
+          key: item.children('Key').text(),
+          size: Number(item.children('Size').text()),
+          lastModified: new Date(item.children('LastModified').text())
+        });
+      });
+
+      continuationToken = $('IsTruncated').first().text() === 'true'
+        ? $('NextContinuationToken').first().text() || undefined
+        : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${encodeKey(key)}`;
+  }
+
+  getKeyFromUrl(url: string): string | null {
+    const urlWithoutParams = url.split('?')[0];
+    if (!urlWithoutParams.startsWith(`${this.publicUrl}/`)) {
+      return null;
+    }
+
+    try {
+      const key = decodeURIComponent(urlWithoutParams.substring(this.publicUrl.length + 1));
+      return isValidKey(key) ? key : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  getLocalPath(): string | null {
+    return null;
+  }
+
+  /**
+   * URL of the bucket root: https://endpoint/bucket or https://bucket.endpoint
+   */
+  private getBucketUrl(): string {
+    const base = this.endpoint.toString().replace(/\/+$/, '');
+
+    return this.options.forcePathStyle
+      ? `${base}/${this.options.bucket}`
+      : `${this.endpoint.protocol}//${this.options.bucket}.${this.endpoint.host}`;
+  }
+
+  /**
+   * Send a signed request for an object (or for the bucket itself when the key is empty)
+   */
+  private async request(
+    method: string,
+    key: string,
+    { query = {}, body, headers = {} }: { query?: Record<string, string>; body?: Buffer; headers?: Record<string, string> } = {}
+  ): Promise<AxiosResponse<Buffer>> {
+    if (key && !isValidKey(key)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    const url = new URL(`${this.getBucketUrl()}/${key ? encodeKey(key) : ''}`);
+    const queryString = Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+
+    const signedHeaders = this.sign(method, url, queryString, headers, body);
+
+    return axios.request<Buffer>({
+      method,
+      url: `${url.origin}${url.pathname}${queryString ? `?${queryString}` : ''}`,
+      headers: signedHeaders,
+      data: body,
+      responseType: 'arraybuffer',
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      validateStatus: () => true
+    });
+  }
+
+  /**
+   * Build the headers of a request signed with AWS Signature Version 4
+   */
+  private sign(
+    method: string,
+    url: URL,
+    queryString: string,
+    headers: Record<string, string>,
+    body?: Buffer
+  ): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.substring(0, 8);
+    const payloadHash = body ? crypto.createHash('sha256').update(body).digest('hex') : EMPTY_PAYLOAD_HASH;
+
+    const allHeaders: Record<string, string> = {
+      ...headers,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+
+    const headerNames = Object.keys(allHeaders).map(name => name.toLowerCase()).sort();
+    const lowerCaseHeaders = Object.fromEntries(
+      Object.entries(allHeaders).map(([name, value]) => [name.toLowerCase(), value.trim()])
+    );
+    const canonicalHeaders = headerNames.map(name => `${name}:${lowerCaseHeaders[name]}\n`).join('');
+    const signedHeaderNames = headerNames.join(';');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      queryString,
+      canonicalHeaders,
+      signedHeaderNames,
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${this.options.region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      crypto.createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (signKey, part) => hmac(signKey, part),
+      hmac(hmac(`AWS4${this.options.secretAccessKey}`, dateStamp), this.options.region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // host is set by the HTTP client itself
+    const { host, ...requestHeaders } = lowerCaseHeaders;
+
+    return {
+      ...requestHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames}, Signature=${signature}`
+    };
+  }
+
+  private assertSuccess(response: AxiosResponse<Buffer>, operation: string, key: string): void {
+    if (response.status >= 200 && response.status < 300) {
+      return;
+    }
+
+    const errorCode = response.data?.toString('utf8').match(/<Code>([^<]+)<\/Code>/)?.[1];
+    throw new Error(`S3 ${operation} ${key} failed with status ${response.status}${errorCode ? ` (${errorCode})` : ''}`);
+  }
+}
+
+const hmac = (key: string | Buffer, data: string): Buffer => {
+  return crypto.createHmac('sha256', key).update(data).digest();
+};
+
+/**
+ * encodeURIComponent with the extra characters escaped by AWS (RFC 3986)
+ */
+const encodeRfc3986 = (value: string): string => {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+};
+
+/**
+ * Encode every segment of a key, keeping the / separators
+ */
+const encodeKey = (key: string): string => key.split('/').map(encodeRfc3986).join('/');
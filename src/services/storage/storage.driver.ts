@@ -0,0 +1,73 @@
+// An object kept by a storage driver
+// key - path inside the storage with / separators, e.g. drafts/<uuid>.png or generated/<userId>/<uuid>.png
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+/**
+ * Backend that keeps uploaded files
+ * Controllers and services never touch the file system directly: everything goes through the driver
+ * selected with STORAGE_DRIVER, so several API instances can share one S3-compatible bucket
+ */
+export interface StorageDriver {
+  readonly name: string;
+
+  /**
+   * Save an object, replacing an existing one with the same key
+   */
+  put(key: string, data: Buffer, contentType?: string): Promise<void>;
+
+  /**
+   * Read an object
+   * @returns Object content or null if the object does not exist
+   */
+  get(key: string): Promise<Buffer | null>;
+
+  /**
+   * Get the size and modification date of an object
+   * @returns Object info or null if the object does not exist
+   */
+  stat(key: string): Promise<StoredObject | null>;
+
+  /**
+   * Delete an object, missing objects are ignored
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Move an object to a new key
+   */
+  move(fromKey: string, toKey: string): Promise<void>;
+
+  /**
+   * List all objects whose keys start with the prefix, including nested "folders"
+   */
+  list(prefix: string): Promise<StoredObject[]>;
+
+  /**
+   * Build the public URL of an object
+   * @param baseUrl Base URL of this server from the current request, used by the local driver
+   */
+  getUrl(key: string, baseUrl?: string): string;
+
+  /**
+   * Find the key of an object behind a public URL built by getUrl
+   * @returns Key or null for URLs that do not point to this storage
+   */
+  getKeyFromUrl(url: string): string | null;
+
+  /**
+   * Path of the object on the local disk, used to stream files without reading them into memory
+   * @returns Absolute path or null when the storage is not a local disk
+   */
+  getLocalPath(key: string): string | null;
+}
+
+/**
+ * Check that a key stays inside the storage: no absolute paths, empty segments or ..
+ */
+export const isValidKey = (key: string): boolean => {
+  return key.length > 0 && key.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..' && !segment.includes('\\'));
+};
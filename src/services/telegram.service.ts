@@ -1,494 +1,520 @@
-import axios from 'axios';
-import { IScheduledPost } from '../models/scheduled-post.model';
+import fs from 'fs';
+import path from 'path';
 import fetch from 'node-fetch';
-
-// Interface for Telegram API responses
-interface TelegramResponse {
-  ok: boolean;
-  result?: any;
-  description?: string;
-  error_code?: number;
+import FormData from 'form-data';
+import { PostMediaType } from '../models/post-media.model';
+import config from '../config/config';
+import { decryptBotToken } from '../utils/botTokenCrypto';
+import telegramRateLimiter from './telegramRateLimiter.service';
+
+// Calls rejected with 429 are repeated after retry_after this many times, longer waits are left to the caller
+const MAX_RATE_LIMIT_RETRIES = 3;
+const MAX_RATE_LIMIT_WAIT_SECONDS = 60;
+
+// A local file uploaded to Telegram as multipart/form-data
+export interface LocalInputFile {
+  path: string;
+  fileName?: string;
 }
 
-// Interface for media group items
-interface MediaGroupItem {
-  type: string;
-  media: string;
-  caption?: string;
-  parse_mode?: string;
-}
+// Media for the Bot API: a URL or file_id, or a local file
+export type TelegramInputFile = string | LocalInputFile;
+
+const isLocalInputFile = (value: unknown): value is LocalInputFile => {
+  return !!value && typeof value === 'object' && typeof (value as LocalInputFile).path === 'string';
+};
+
+/**
+ * Build the request body for a Bot API call
+ * Plain JSON is used unless the call contains local files: those are streamed as multipart,
+ * files inside InputMedia objects are referenced with attach://<name>
+ */
+const buildRequestBody = (body: Record<string, any>): { headers: Record<string, string>; body: string | FormData } => {
+  const attachments: { name: string; file: LocalInputFile }[] = [];
+
+  const attach = (media: Record<string, any>) => {
+    if (!isLocalInputFile(media.media)) {
+      return media;
+    }
+    const name = `file${attachments.length}`;
+    attachments.push({ name, file: media.media });
+    return { ...media, media: `attach://${name}` };
+  };
+
+  const fields: Record<string, any> = { ...body };
+  if (Array.isArray(fields.media)) {
+    fields.media = fields.media.map(attach);
+  } else if (fields.media && typeof fields.media === 'object') {
+    fields.media = attach(fields.media);
+  }
+
+  const hasTopLevelFiles = Object.values(fields).some(isLocalInputFile);
+  if (attachments.length === 0 && !hasTopLevelFiles) {
+    return {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    };
+  }
+
+  const form = new FormData();
+  const appendFile = (name: string, file: LocalInputFile) => {
+    form.append(name, fs.createReadStream(file.path), { filename: file.fileName || path.basename(file.path) });
+  };
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (isLocalInputFile(value)) {
+      appendFile(key, value);
+    } else {
+      form.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    }
+  }
+  attachments.forEach(({ name, file }) => appendFile(name, file));
+
+  return { headers: form.getHeaders(), body: form };
+};
+
+/**
+ * Get the file_id of the media in a sent message (the largest size for photos)
+ */
+const extractFileId = (message: any): string | undefined => {
+  if (!message || typeof message !== 'object') {
+    return undefined;
+  }
+
+  if (Array.isArray(message.photo) && message.photo.length > 0) {
+    return message.photo[message.photo.length - 1].file_id;
+  }
+
+  // Animations are also reported as documents, so they are checked first
+  return message.animation?.file_id
+    || message.video?.file_id
+    || message.audio?.file_id
+    || message.document?.file_id;
+};
+
+/**
+ * Formatting fields of a poll text (question, option or explanation): explicit entities or a parse mode
+ */
+const formatEntities = (field: string, entities?: Record<string, any>[], parseMode?: string): Record<string, any> => {
+  if (entities && entities.length > 0) {
+    return { [`${field}_entities`]: entities };
+  }
+  return parseMode ? { [`${field}_parse_mode`]: parseMode } : {};
+};
+
+/**
+ * Build an inline keyboard with one URL button per row
+ */
+export const buildReplyMarkup = (buttons?: { text: string; url: string }[]) => {
+  return buttons && buttons.length > 0
+    ? {
+        inline_keyboard: buttons.map(button => [{
+          text: button.text,
+          url: button.url
+        }])
+      }
+    : undefined;
+};
+
+/**
+ * Append an invisible link to the image so Telegram shows it as a large preview below the text
+ */
+export const buildImagePreview = (text: string, imageUrl: string) => ({
+  text: `${text}\n\n<a href="${imageUrl}">&#8205;</a>`,
+  link_preview_options: {
+    is_disabled: false,
+    url: imageUrl,
+    prefer_large_media: true,
+    show_above_text: false
+  }
+});
 
 interface SendMessageParams {
   text: string;
   parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
   disable_web_page_preview?: boolean;
+  link_preview_options?: Record<string, any>;
+  reply_markup?: any;
 }
 
 interface SendPhotoParams {
-  photo: string;
+  photo: TelegramInputFile;
+  caption?: string;
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  reply_markup?: any;
+}
+
+// Shared by sendVideo, sendAnimation, sendDocument and sendAudio
+interface SendFileParams {
+  file: TelegramInputFile;
   caption?: string;
   parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  reply_markup?: any;
 }
 
+// Albums can mix photos and videos; documents and audio can only be grouped with their own type
+export type MediaGroupItemType = Exclude<PostMediaType, 'animation'>;
+
 interface SendMediaGroupParams {
   media: {
-    type: 'photo';
-    media: string;
+    type: MediaGroupItemType;
+    media: TelegramInputFile;
     caption?: string;
     parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
   }[];
 }
 
+// Entities are used instead of parseMode for the text they belong to
 interface SendPollParams {
   question: string;
   options: string[];
   isAnonymous?: boolean;
   allowsMultipleAnswers?: boolean;
+  type?: 'regular' | 'quiz';
+  correctOptionId?: number;
+  explanation?: string;
+  parseMode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  questionEntities?: Record<string, any>[];
+  optionEntities?: Record<string, any>[][];
+  explanationEntities?: Record<string, any>[];
+  openPeriod?: number;
+  closeDate?: Date;
+}
+
+interface EditMessageTextParams {
+  text: string;
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  link_preview_options?: Record<string, any>;
+  reply_markup?: any;
+}
+
+interface EditMessageCaptionParams {
+  caption: string;
+  parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  reply_markup?: any;
 }
 
-interface TelegramResult {
+interface EditMessageMediaParams {
+  media: {
+    type: PostMediaType;
+    media: TelegramInputFile;
+    caption?: string;
+    parse_mode?: 'HTML' | 'Markdown' | 'MarkdownV2';
+  };
+  reply_markup?: any;
+}
+
+export interface TelegramResult {
   success: boolean;
   message?: string;
   messageId?: number;
+  messageIds?: number[]; // All messages of a media group
+  fileIds?: (string | undefined)[]; // file_id of the media in each message, for reuse without uploading again
+  pollId?: string; // Telegram poll ID of a sent poll, poll updates refer to it
+  errorCode?: number;
+  retryAfter?: number;
 }
 
-/**
- * Publish content to a Telegram channel
- */
-export const publishToTelegram = async (
-  channelId: string, 
-  botToken: string, 
-  text: string, 
-  imageUrl?: string,
-  imageUrls?: string[], 
-  tags?: string[],
-  imagePosition: 'top' | 'bottom' = 'top',
-  buttons?: { text: string; url: string }[]
-): Promise<{ success: boolean; message: string }> => {
-  try {
-    const startTime = Date.now();
-    console.log(`[TELEGRAM SERVICE] Publishing to Telegram - channelId: ${channelId}, has image: ${!!imageUrl}, image count: ${imageUrls?.length || 0}, imagePosition: ${imagePosition}, buttons: ${buttons?.length || 0}`);
-    console.log(`[TELEGRAM SERVICE] Text length: ${text.length}, Text: ${text.substring(0, 50)}...`);
-    console.log(`[TELEGRAM SERVICE] Images: ${imageUrl || 'none'}, ${imageUrls && imageUrls.length > 0 ? JSON.stringify(imageUrls) : 'none'}`);
-    console.log(`[TELEGRAM SERVICE] Position: ${imagePosition}, Buttons: ${buttons ? JSON.stringify(buttons) : 'none'}`);
-    
-    // Prepare the chatId, adding @ if necessary
-    let chatId = channelId;
-    if (!chatId.startsWith('@') && !chatId.match(/^-?\d+$/)) {
-      chatId = '@' + chatId;
-    }
-    
-    // Prepare message text with tags if available
-    let messageText = text;
-    if (tags && tags.length > 0) {
-      messageText += '\n\n' + tags.join(' ');
-    }
-    
-    // Prepare inline keyboard if buttons are provided
-    const replyMarkup = buttons && buttons.length > 0 
-      ? {
-          inline_keyboard: buttons.map(button => [{
-            text: button.text,
-            url: button.url
-          }])
-        }
-      : undefined;
-    
-    let response: TelegramResponse;
-    
-    // Check if we have multiple images
-    if (imageUrls && imageUrls.length > 0) {
-      console.log(`[TELEGRAM SERVICE] Sending ${imageUrls.length} images as a media group`);
-      
-      // Для позиции 'bottom', отправляем текстовое сообщение с предпросмотром первого изображения
-      if (imagePosition === 'bottom' && messageText.trim()) {
-        console.log(`[TELEGRAM SERVICE] Using bottom position with message preview for multiple images`);
-        // Берем первое изображение для предпросмотра
-        const previewImageUrl = imageUrls[0];
-        
-        // Отправляем текстовое сообщение с предпросмотром изображения внизу
-        response = await sendMessageWithPreview(botToken, chatId, messageText, previewImageUrl, replyMarkup);
-      } else {
-        console.log(`[TELEGRAM SERVICE] Using standard media group sending for multiple images`);
-        // Отправляем группу изображений с стандартным способом
-        response = await sendMediaGroup(botToken, chatId, messageText, imageUrls);
-        
-        // Если есть кнопки, отправляем их отдельным сообщением
-        if (replyMarkup) {
-          console.log(`[TELEGRAM SERVICE] Sending buttons separately for media group`);
-          await sendMessage(botToken, chatId, '🔗 Links:', replyMarkup);
-        }
-      }
-    }
-    // If there's a single image
-    else if (imageUrl) {
-      console.log(`[TELEGRAM SERVICE] Sending a single image with position: ${imagePosition}`);
-      
-      // For bottom image position, send a message with image preview at bottom
-      if (imagePosition === 'bottom' && messageText.trim()) {
-        console.log(`[TELEGRAM SERVICE] Using bottom position with message preview for single image`);
-        // Create message with image link preview
-        response = await sendMessageWithPreview(botToken, chatId, messageText, imageUrl, replyMarkup);
-      } else {
-        console.log(`[TELEGRAM SERVICE] Using standard photo with caption for single image`);
-        // Regular behavior - image with caption
-        response = await sendPhoto(botToken, chatId, messageText, imageUrl, replyMarkup);
-      }
-    } else {
-      // Otherwise send just a text message
-      console.log(`[TELEGRAM SERVICE] Sending a text-only message`);
-      response = await sendMessage(botToken, chatId, messageText, replyMarkup);
-    }
-    
-    if (!response.ok) {
-      const errorMessage = response.description || 'Unknown Telegram API error';
-      console.error(`[TELEGRAM SERVICE] Telegram API error: ${errorMessage} (Code: ${response.error_code})`);
-      throw new Error(errorMessage);
-    }
-    
-    console.log(`[TELEGRAM SERVICE] Successfully published to Telegram channel: ${chatId}`);
-    console.log(`[TELEGRAM SERVICE] Total publication time: ${Date.now() - startTime}ms`);
-    return {
-      success: true,
-      message: 'Successfully published to Telegram'
-    };
-  } catch (error) {
-    console.error('[TELEGRAM SERVICE] Error publishing to Telegram:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Failed to publish to Telegram';
-    return {
-      success: false,
-      message: errorMessage
-    };
-  }
-};
+// Result of a Bot API method that returns data instead of a message (getMe, getChat, ...)
+export interface TelegramQueryResult<T> {
+  success: boolean;
+  message?: string;
+  data?: T;
+  errorCode?: number;
+  retryAfter?: number;
+}
 
-/**
- * Send a text message to a Telegram chat
- */
-const sendMessage = async (
-  botToken: string, 
-  chatId: string, 
-  text: string,
-  replyMarkup?: any
-): Promise<TelegramResponse> => {
-  const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      chat_id: chatId,
-      text,
-      parse_mode: 'HTML',
-      reply_markup: replyMarkup
-    })
-  });
-  
-  return await response.json();
-};
+export interface TelegramBotInfo {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  username?: string;
+}
 
-/**
- * Send a photo with caption to a Telegram chat
- */
-const sendPhoto = async (
-  botToken: string,
-  chatId: string,
-  caption: string,
-  photoUrl: string,
-  replyMarkup?: any
-): Promise<TelegramResponse> => {
-  const response = await fetch(`https://api.telegram.org/bot${botToken}/sendPhoto`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      chat_id: chatId,
-      photo: photoUrl,
-      caption,
-      parse_mode: 'HTML',
-      reply_markup: replyMarkup
-    })
-  });
-
-  return await response.json();
-};
+export interface TelegramChatInfo {
+  id: number;
+  type: 'private' | 'group' | 'supergroup' | 'channel';
+  title?: string;
+  username?: string;
+  photo?: {
+    small_file_id: string;
+    small_file_unique_id: string;
+    big_file_id: string;
+  };
+}
 
-/**
- * Send multiple photos as a media group to a Telegram chat
- */
-const sendMediaGroup = async (
-  botToken: string,
-  chatId: string,
-  caption: string,
-  photoUrls: string[]
-): Promise<TelegramResponse> => {
-  // Create media array
-  const media: MediaGroupItem[] = photoUrls.map((url, index) => ({
-    type: 'photo',
-    media: url,
-    // Only add caption to the first media item
-    ...(index === 0 && {
-      caption,
-      parse_mode: 'HTML'
-    })
-  }));
-
-  const response = await axios.post<TelegramResponse>(
-    `https://api.telegram.org/bot${botToken}/sendMediaGroup`,
-    {
-      chat_id: chatId,
-      media: media
-    }
-  );
+export interface TelegramChatMember {
+  status: 'creator' | 'administrator' | 'member' | 'restricted' | 'left' | 'kicked';
+  user: TelegramBotInfo;
+  can_post_messages?: boolean;
+  can_edit_messages?: boolean;
+  can_delete_messages?: boolean;
+}
 
-  return response.data;
-};
+export interface TelegramFileInfo {
+  file_id: string;
+  file_size?: number;
+  file_path?: string;
+}
 
-// Вспомогательная функция для отправки сообщения с превью изображения внизу
-const sendMessageWithPreview = async (
-  botToken: string,
-  chatId: string,
-  text: string,
-  imageUrl: string,
-  replyMarkup?: any
-): Promise<TelegramResponse> => {
-  console.log(`[TELEGRAM SERVICE] sendMessageWithPreview - Using image URL: ${imageUrl}`);
-  
-  // Добавляем невидимую ссылку на изображение в конце текста
-  // Это гарантирует, что Telegram попытается отобразить предпросмотр этой ссылки
-  const textWithImageLink = `${text}\n\n<a href="${imageUrl}">&#8205;</a>`;
-  
-  const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      chat_id: chatId,
-      text: textWithImageLink,
-      parse_mode: 'HTML',
-      link_preview_options: {
-        is_disabled: false,
-        url: imageUrl,
-        prefer_large_media: true,
-        show_above_text: false
-      },
-      reply_markup: replyMarkup
-    })
-  });
-  
-  const responseData = await response.json();
-  console.log(`[TELEGRAM SERVICE] sendMessageWithPreview response:`, JSON.stringify(responseData));
-  return responseData;
-};
+// State of a poll: returned by stopPoll and sent in poll updates
+export interface TelegramPoll {
+  id: string;
+  question: string;
+  options: { text: string; voter_count: number }[];
+  total_voter_count: number;
+  is_closed: boolean;
+  is_anonymous: boolean;
+  type: 'regular' | 'quiz';
+  allows_multiple_answers: boolean;
+}
 
-/**
- * Publish to a Telegram channel using bot token and channel username
- */
-export const publishToChannel = async (params: {
-  channelUsername: string;
-  botToken: string;
-  text: string;
-  imageUrl?: string;
-  buttons?: { text: string; url: string }[];
-  imagePosition?: 'top' | 'bottom';
-}): Promise<{ success: boolean; messageId?: string; error?: string }> => {
-  try {
-    console.log(`[TELEGRAM SERVICE] publishToChannel - Starting with params:`, {
-      channelUsername: params.channelUsername,
-      hasImage: !!params.imageUrl,
-      imagePosition: params.imagePosition || 'top',
-      textLength: params.text.length,
-      hasButtons: params.buttons && params.buttons.length > 0
-    });
-    
-    if (params.imageUrl) {
-      console.log(`[TELEGRAM SERVICE] Image URL: ${params.imageUrl}`);
-      
-      // Проверяем, что URL изображения валиден
-      try {
-        const imageUrlObj = new URL(params.imageUrl);
-        if (!imageUrlObj.protocol.startsWith('http')) {
-          console.warn(`[TELEGRAM SERVICE] Invalid image URL protocol: ${imageUrlObj.protocol}`);
-        }
-      } catch (e) {
-        console.warn(`[TELEGRAM SERVICE] Invalid image URL format: ${params.imageUrl}`);
-      }
-    }
-    
-    // Prepare chatId
-    let chatId = params.channelUsername;
-    if (!chatId.startsWith('@') && !chatId.match(/^-?\d+$/)) {
-      chatId = '@' + chatId;
-    }
-    
-    let response: TelegramResponse;
-    
-    // If there's an image and the position is bottom, use link preview approach
-    if (params.imageUrl && params.imagePosition === 'bottom') {
-      console.log(`[TELEGRAM SERVICE] Using bottom position with message preview for image`);
-      
-      // Use sendMessageWithPreview to show image at the bottom
-      response = await sendMessageWithPreview(
-        params.botToken,
-        chatId,
-        params.text,
-        params.imageUrl,
-        params.buttons ? {
-          inline_keyboard: params.buttons.map(button => [{
-            text: button.text,
-            url: button.url
-          }])
-        } : undefined
-      );
-    }
-    // If there's an image with top position (default), handle caption length limit
-    else if (params.imageUrl) {
-      const MAX_CAPTION_LENGTH = 1000; // Slightly less than the actual limit for safety
-      
-      if (params.text.length > MAX_CAPTION_LENGTH) {
-        // First send the image with a shortened caption
-        const caption = params.text.substring(0, MAX_CAPTION_LENGTH) + "...";
-        response = await sendPhoto(
-          params.botToken,
-          chatId,
-          caption,
-          params.imageUrl,
-          params.buttons ? {
-            inline_keyboard: params.buttons.map(button => [{
-              text: button.text,
-              url: button.url
-            }])
-          } : undefined
-        );
-        
-        // Then send the full text as a separate message
-        await sendMessage(
-          params.botToken,
-          chatId,
-          params.text
-        );
-      } else {
-        // Text is short enough to fit in caption
-        response = await sendPhoto(
-          params.botToken,
-          chatId,
-          params.text,
-          params.imageUrl,
-          params.buttons ? {
-            inline_keyboard: params.buttons.map(button => [{
-              text: button.text,
-              url: button.url
-            }])
-          } : undefined
-        );
-      }
-    } else {
-      // Otherwise just send a text message
-      response = await sendMessage(
-        params.botToken,
-        chatId,
-        params.text,
-        params.buttons ? {
-          inline_keyboard: params.buttons.map(button => [{
-            text: button.text,
-            url: button.url
-          }])
-        } : undefined
-      );
-    }
-    
-    if (!response.ok) {
-      const errorMessage = response.description || 'Unknown Telegram API error';
-      throw new Error(errorMessage);
-    }
-    
-    return {
-      success: true,
-      messageId: response.result.message_id.toString()
-    };
-  } catch (error) {
-    console.error('Error publishing to Telegram channel:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to publish to Telegram'
-    };
-  }
-};
+// Reaction on a message: a regular emoji, a custom emoji or a paid (Telegram Stars) reaction
+export type TelegramReactionType =
+  | { type: 'emoji'; emoji: string }
+  | { type: 'custom_emoji'; custom_emoji_id: string }
+  | { type: 'paid' };
+
+// Anonymous reactions on a channel message, sent in full every time they change
+export interface TelegramMessageReactionCountUpdate {
+  chat: { id: number; type: string; title?: string; username?: string };
+  message_id: number;
+  date: number;
+  reactions: { type: TelegramReactionType; total_count: number }[];
+}
+
+// Status of the bot (my_chat_member) or another member (chat_member) changed in a chat
+export interface TelegramChatMemberUpdate {
+  chat: { id: number; type: string; title?: string; username?: string };
+  date: number;
+  old_chat_member: TelegramChatMember;
+  new_chat_member: TelegramChatMember;
+}
+
+// Incoming update; only the fields used by the backend are typed
+export interface TelegramUpdate {
+  update_id: number;
+  message_reaction_count?: TelegramMessageReactionCountUpdate;
+  my_chat_member?: TelegramChatMemberUpdate;
+  poll?: TelegramPoll;
+  [key: string]: any;
+}
 
 export class TelegramService {
   private token: string;
   private apiUrl: string;
+  private botId: string;
 
-  constructor(token: string) {
-    this.token = token;
-    this.apiUrl = `https://api.telegram.org/bot${token}`;
+  /**
+   * @param token Bot token as stored on the channel (encrypted) or a plain token
+   * @param apiBaseUrl Bot API server, TELEGRAM_API_URL by default
+   */
+  constructor(token: string, private readonly apiBaseUrl: string = config.telegramApiUrl) {
+    this.token = decryptBotToken(token);
+    this.apiUrl = `${apiBaseUrl}/bot${this.token}`;
+    this.botId = this.token.split(':')[0];
   }
 
   /**
-   * Send a text message to a Telegram chat
+   * Get the bot behind the token; fails with 401 when the token is revoked
    */
-  async sendMessage(chatId: string, params: SendMessageParams): Promise<TelegramResult> {
-    try {
-      const response = await fetch(`${this.apiUrl}/sendMessage`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          chat_id: chatId,
-          text: params.text,
-          parse_mode: params.parse_mode || 'HTML',
-          disable_web_page_preview: params.disable_web_page_preview
-        })
-      });
+  async getMe(): Promise<TelegramQueryResult<TelegramBotInfo>> {
+    return this.callQuery<TelegramBotInfo>('getMe', {}, 'Error getting bot info');
+  }
 
-      const data = await response.json() as any;
+  /**
+   * Get up-to-date information about a chat by @username or numeric ID
+   */
+  async getChat(chatId: string): Promise<TelegramQueryResult<TelegramChatInfo>> {
+    return this.callQuery<TelegramChatInfo>('getChat', { chat_id: chatId }, 'Error getting chat');
+  }
 
-      if (!data.ok) {
-        return {
-          success: false,
-          message: data.description || 'Error sending message'
-        };
-      }
+  /**
+   * Get the status and administrator rights of a chat member
+   */
+  async getChatMember(chatId: string, userId: number): Promise<TelegramQueryResult<TelegramChatMember>> {
+    return this.callQuery<TelegramChatMember>('getChatMember', { chat_id: chatId, user_id: userId }, 'Error getting chat member');
+  }
 
-      return {
-        success: true,
-        messageId: data.result.message_id
-      };
+  /**
+   * Get the number of members (subscribers) of a chat
+   */
+  async getChatMemberCount(chatId: string): Promise<TelegramQueryResult<number>> {
+    return this.callQuery<number>('getChatMemberCount', { chat_id: chatId }, 'Error getting chat member count');
+  }
+
+  /**
+   * Fetch pending updates; updates before offset are confirmed and not returned again
+   * Fails with 409 while a webhook is set for the bot
+   * @param allowedUpdates Update types to receive, message_reaction_count must be requested explicitly
+   */
+  async getUpdates(offset?: number, allowedUpdates?: string[], timeout: number = 0): Promise<TelegramQueryResult<TelegramUpdate[]>> {
+    return this.callQuery<TelegramUpdate[]>('getUpdates', {
+      offset,
+      timeout,
+      allowed_updates: allowedUpdates
+    }, 'Error getting updates');
+  }
+
+  /**
+   * Deliver updates to a URL instead of getUpdates
+   * @param secretToken Sent back by Telegram in the X-Telegram-Bot-Api-Secret-Token header
+   */
+  async setWebhook(url: string, secretToken: string, allowedUpdates: string[]): Promise<TelegramQueryResult<boolean>> {
+    return this.callQuery<boolean>('setWebhook', {
+      url,
+      secret_token: secretToken,
+      allowed_updates: allowedUpdates
+    }, 'Error setting webhook');
+  }
+
+  /**
+   * Remove the webhook so updates can be received with getUpdates; pending updates are kept
+   */
+  async deleteWebhook(): Promise<TelegramQueryResult<boolean>> {
+    return this.callQuery<boolean>('deleteWebhook', {}, 'Error deleting webhook');
+  }
+
+  /**
+   * Get the download path of a file (valid for at least an hour)
+   */
+  async getFile(fileId: string): Promise<TelegramQueryResult<TelegramFileInfo>> {
+    return this.callQuery<TelegramFileInfo>('getFile', { file_id: fileId }, 'Error getting file');
+  }
+
+  /**
+   * Download a file by the file_path returned from getFile
+   * @returns File content or null if the download failed
+   */
+  async downloadFile(filePath: string): Promise<Buffer | null> {
+    try {
+      const response = await fetch(`${this.apiBaseUrl}/file/bot${this.token}/${filePath}`);
+      return response.ok ? await response.buffer() : null;
     } catch (error) {
-      console.error('Error sending Telegram message:', error);
-      return {
-        success: false,
-        message: (error as Error).message
-      };
+      console.error('Error downloading Telegram file:', error);
+      return null;
     }
   }
 
+  /**
+   * Send a text message to a Telegram chat
+   */
+  async sendMessage(chatId: string, params: SendMessageParams): Promise<TelegramResult> {
+    return this.callMethod('sendMessage', {
+      chat_id: chatId,
+      text: params.text,
+      parse_mode: params.parse_mode || 'HTML',
+      disable_web_page_preview: params.disable_web_page_preview,
+      link_preview_options: params.link_preview_options,
+      reply_markup: params.reply_markup
+    }, 'Error sending message');
+  }
+
   /**
    * Send a photo to a Telegram chat
    */
   async sendPhoto(chatId: string, params: SendPhotoParams): Promise<TelegramResult> {
+    return this.callMethod('sendPhoto', {
+      chat_id: chatId,
+      photo: params.photo,
+      caption: params.caption,
+      parse_mode: params.parse_mode || 'HTML',
+      reply_markup: params.reply_markup
+    }, 'Error sending photo');
+  }
+
+  /**
+   * Send a video to a Telegram chat
+   */
+  async sendVideo(chatId: string, params: SendFileParams): Promise<TelegramResult> {
+    return this.sendFile('sendVideo', 'video', chatId, params, 'Error sending video');
+  }
+
+  /**
+   * Send a GIF or a silent video as an animation to a Telegram chat
+   */
+  async sendAnimation(chatId: string, params: SendFileParams): Promise<TelegramResult> {
+    return this.sendFile('sendAnimation', 'animation', chatId, params, 'Error sending animation');
+  }
+
+  /**
+   * Send a document (e.g. PDF) to a Telegram chat
+   */
+  async sendDocument(chatId: string, params: SendFileParams): Promise<TelegramResult> {
+    return this.sendFile('sendDocument', 'document', chatId, params, 'Error sending document');
+  }
+
+  /**
+   * Send an audio file to a Telegram chat
+   */
+  async sendAudio(chatId: string, params: SendFileParams): Promise<TelegramResult> {
+    return this.sendFile('sendAudio', 'audio', chatId, params, 'Error sending audio');
+  }
+
+  /**
+   * Send a media group (album) to a Telegram chat
+   * Note: media groups cannot carry inline buttons
+   */
+  async sendMediaGroup(chatId: string, params: SendMediaGroupParams): Promise<TelegramResult> {
+    const mediaWithDefaultParseMode = params.media.map(item => ({
+      ...item,
+      parse_mode: item.parse_mode || 'HTML'
+    }));
+
+    return this.callMethod('sendMediaGroup', {
+      chat_id: chatId,
+      media: mediaWithDefaultParseMode
+    }, 'Error sending media group');
+  }
+
+  /**
+   * Send a poll to a Telegram chat
+   */
+  async sendPoll(chatId: string, params: SendPollParams): Promise<TelegramResult> {
     try {
-      const response = await fetch(`${this.apiUrl}/sendPhoto`, {
-        method: 'POST',
+      const data = await this.request('sendPoll', chatId, 1, () => ({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           chat_id: chatId,
-          photo: params.photo,
-          caption: params.caption,
-          parse_mode: params.parse_mode || 'HTML'
+          question: params.question,
+          ...formatEntities('question', params.questionEntities, params.parseMode),
+          options: params.options.map((text, index) => ({
+            text,
+            ...formatEntities('text', params.optionEntities?.[index], params.parseMode)
+          })),
+          is_anonymous: params.isAnonymous !== undefined ? params.isAnonymous : true,
+          type: params.type || 'regular',
+          allows_multiple_answers: params.allowsMultipleAnswers !== undefined ? params.allowsMultipleAnswers : false,
+          ...(params.type === 'quiz' && {
+            correct_option_id: params.correctOptionId,
+            explanation: params.explanation || undefined,
+            ...(params.explanation && formatEntities('explanation', params.explanationEntities, params.parseMode))
+          }),
+          open_period: params.openPeriod,
+          close_date: params.closeDate ? Math.floor(params.closeDate.getTime() / 1000) : undefined
         })
-      });
-
-      const data = await response.json() as any;
+      }));
 
       if (!data.ok) {
         return {
           success: false,
-          message: data.description || 'Error sending photo'
+          message: data.description || 'Error sending poll',
+          errorCode: data.error_code,
+          retryAfter: data.parameters?.retry_after
         };
       }
 
       return {
         success: true,
-        messageId: data.result.message_id
+        messageId: data.result.message_id,
+        messageIds: [data.result.message_id],
+        pollId: data.result.poll?.id
       };
     } catch (error) {
-      console.error('Error sending Telegram photo:', error);
+      console.error('Error sending Telegram poll:', error);
       return {
         success: false,
         message: (error as Error).message
@@ -497,39 +523,155 @@ export class TelegramService {
   }
 
   /**
-   * Send a media group (album) to a Telegram chat
+   * Close a poll sent by the bot
+   * @returns The final state of the poll
    */
-  async sendMediaGroup(chatId: string, params: SendMediaGroupParams): Promise<TelegramResult> {
-    try {
-      const mediaWithDefaultParseMode = params.media.map(item => ({
-        ...item,
-        parse_mode: item.parse_mode || 'HTML'
-      }));
+  async stopPoll(chatId: string, messageId: number): Promise<TelegramQueryResult<TelegramPoll>> {
+    return this.callQuery<TelegramPoll>('stopPoll', { chat_id: chatId, message_id: messageId }, 'Error stopping poll');
+  }
 
-      const response = await fetch(`${this.apiUrl}/sendMediaGroup`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          chat_id: chatId,
-          media: mediaWithDefaultParseMode
-        })
+  /**
+   * Edit the text of a previously sent text message
+   * Note: reply_markup must be passed again, otherwise Telegram removes the buttons
+   */
+  async editMessageText(chatId: string, messageId: number, params: EditMessageTextParams): Promise<TelegramResult> {
+    return this.callMethod('editMessageText', {
+      chat_id: chatId,
+      message_id: messageId,
+      text: params.text,
+      parse_mode: params.parse_mode || 'HTML',
+      link_preview_options: params.link_preview_options,
+      reply_markup: params.reply_markup
+    }, 'Error editing message text');
+  }
+
+  /**
+   * Edit the caption of a previously sent media message
+   */
+  async editMessageCaption(chatId: string, messageId: number, params: EditMessageCaptionParams): Promise<TelegramResult> {
+    return this.callMethod('editMessageCaption', {
+      chat_id: chatId,
+      message_id: messageId,
+      caption: params.caption,
+      parse_mode: params.parse_mode || 'HTML',
+      reply_markup: params.reply_markup
+    }, 'Error editing message caption');
+  }
+
+  /**
+   * Replace the media of a previously sent media message
+   */
+  async editMessageMedia(chatId: string, messageId: number, params: EditMessageMediaParams): Promise<TelegramResult> {
+    return this.callMethod('editMessageMedia', {
+      chat_id: chatId,
+      message_id: messageId,
+      media: {
+        ...params.media,
+        parse_mode: params.media.parse_mode || 'HTML'
+      },
+      reply_markup: params.reply_markup
+    }, 'Error editing message media');
+  }
+
+  /**
+   * Replace the inline keyboard of a previously sent message
+   */
+  async editMessageReplyMarkup(chatId: string, messageId: number, replyMarkup?: any): Promise<TelegramResult> {
+    return this.callMethod('editMessageReplyMarkup', {
+      chat_id: chatId,
+      message_id: messageId,
+      // An empty keyboard removes the buttons
+      reply_markup: replyMarkup || { inline_keyboard: [] }
+    }, 'Error editing message reply markup');
+  }
+
+  /**
+   * Delete a message from a Telegram chat
+   */
+  async deleteMessage(chatId: string, messageId: number): Promise<TelegramResult> {
+    return this.callMethod('deleteMessage', {
+      chat_id: chatId,
+      message_id: messageId
+    }, 'Error deleting message');
+  }
+
+  /**
+   * Send a single file with an optional caption; the file field name depends on the method
+   */
+  private async sendFile(
+    method: string,
+    field: string,
+    chatId: string,
+    params: SendFileParams,
+    defaultError: string
+  ): Promise<TelegramResult> {
+    return this.callMethod(method, {
+      chat_id: chatId,
+      [field]: params.file,
+      caption: params.caption,
+      parse_mode: params.parse_mode || 'HTML',
+      reply_markup: params.reply_markup
+    }, defaultError);
+  }
+
+  /**
+   * Send a Bot API request through the rate limiter and return the parsed response
+   * A 429 pauses the chat (or the bot for calls without a chat) for retry_after and the call is repeated
+   * @param buildInit Builds headers and body; called again on a retry because multipart bodies are streams
+   */
+  private async request(
+    method: string,
+    chatId: string | null,
+    cost: number,
+    buildInit: () => { headers: Record<string, string>; body: string | FormData }
+  ): Promise<any> {
+    for (let attempt = 0; ; attempt++) {
+      const data = await telegramRateLimiter.schedule(this.botId, chatId, cost, async () => {
+        const response = await fetch(`${this.apiUrl}/${method}`, { method: 'POST', ...buildInit() });
+        const result = await response.json() as any;
+
+        // Pause before the next queued call to this chat is let through
+        if (result.error_code === 429 && typeof result.parameters?.retry_after === 'number') {
+          telegramRateLimiter.pause(this.botId, chatId, result.parameters.retry_after);
+        }
+        return result;
       });
 
-      const data = await response.json() as any;
+      const retryAfter = data.parameters?.retry_after;
+      if (
+        data.error_code !== 429
+        || typeof retryAfter !== 'number'
+        || retryAfter > MAX_RATE_LIMIT_WAIT_SECONDS
+        || attempt >= MAX_RATE_LIMIT_RETRIES
+      ) {
+        return data;
+      }
+    }
+  }
+
+  /**
+   * Call a Bot API method that returns data, e.g. information about a chat
+   */
+  private async callQuery<T>(method: string, body: Record<string, any>, defaultError: string): Promise<TelegramQueryResult<T>> {
+    try {
+      // Queries only count against the bot, they are not messages in the chat
+      const data = await this.request(method, null, 1, () => ({
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      }));
 
       if (!data.ok) {
         return {
           success: false,
-          message: data.description || 'Error sending media group'
+          message: data.description || defaultError,
+          errorCode: data.error_code,
+          retryAfter: data.parameters?.retry_after
         };
       }
 
-      return {
-        success: true,
-        messageId: data.result[0].message_id
-      };
+      return { success: true, data: data.result as T };
     } catch (error) {
-      console.error('Error sending Telegram media group:', error);
+      console.error(`Error calling Telegram ${method}:`, error);
       return {
         success: false,
         message: (error as Error).message
@@ -538,37 +680,37 @@ export class TelegramService {
   }
 
   /**
-   * Send a poll to a Telegram chat
+   * Call a Bot API method that sends or changes messages
+   * Telegram error codes and retry_after are passed through so callers can decide whether to retry
    */
-  async sendPoll(chatId: string, params: SendPollParams): Promise<TelegramResult> {
+  private async callMethod(method: string, body: Record<string, any>, defaultError: string): Promise<TelegramResult> {
     try {
-      const response = await fetch(`${this.apiUrl}/sendPoll`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          chat_id: chatId,
-          question: params.question,
-          options: params.options,
-          is_anonymous: params.isAnonymous !== undefined ? params.isAnonymous : true,
-          allows_multiple_answers: params.allowsMultipleAnswers !== undefined ? params.allowsMultipleAnswers : false
-        })
-      });
-
-      const data = await response.json() as any;
+      // A media group is counted as one message per item
+      const cost = Array.isArray(body.media) ? body.media.length : 1;
+      const data = await this.request(method, body.chat_id !== undefined ? String(body.chat_id) : null, cost, () => buildRequestBody(body));
 
       if (!data.ok) {
         return {
           success: false,
-          message: data.description || 'Error sending poll'
+          message: data.description || defaultError,
+          errorCode: data.error_code,
+          retryAfter: data.parameters?.retry_after
         };
       }
 
+      // send* methods return the sent message (or an array for media groups), edit methods the edited one
+      const messages: { message_id?: number }[] = (Array.isArray(data.result) ? data.result : [data.result])
+        .filter((message: { message_id?: number }) => typeof message?.message_id === 'number');
+      const messageIds = messages.map(message => message.message_id as number);
+
       return {
         success: true,
-        messageId: data.result.message_id
+        messageId: messageIds[0] ?? body.message_id,
+        messageIds,
+        fileIds: messages.map(extractFileId)
       };
     } catch (error) {
-      console.error('Error sending Telegram poll:', error);
+      console.error(`Error calling Telegram ${method}:`, error);
       return {
         success: false,
         message: (error as Error).message
@@ -0,0 +1,77 @@
+import TelegramFile from '../models/telegram-file.model';
+import { IPostMedia } from '../models/post-media.model';
+import { TelegramInputFile } from './telegram.service';
+import storageService from './storage.service';
+import { getBotId } from '../utils/botTokenCrypto';
+
+// How a media item is passed to the Bot API
+export interface ResolvedInputFile {
+  input: TelegramInputFile;
+  cached: boolean; // true when a file_id from an earlier upload is reused
+}
+
+// file_id values belong to a bot, so the cache is keyed by the numeric bot ID from the token
+class TelegramFileService {
+  /**
+   * Decide how to send a media item: reuse a cached file_id, upload a file from the local storage
+   * as multipart, or let Telegram download the URL itself (remote URLs and S3 storage)
+   */
+  async resolve(botToken: string, item: IPostMedia): Promise<ResolvedInputFile> {
+    try {
+      const cachedFile = await TelegramFile.findOne({
+        botId: getBotId(botToken),
+        source: item.url,
+        type: item.type
+      });
+
+      if (cachedFile) {
+        return { input: cachedFile.fileId, cached: true };
+      }
+    } catch (error) {
+      // The cache is an optimization, publishing continues without it
+      console.error('[TELEGRAM FILE SERVICE] Error reading file_id cache:', error);
+    }
+
+    const localPath = storageService.getLocalPath(item.url);
+    if (localPath) {
+      return { input: { path: localPath, fileName: item.fileName }, cached: false };
+    }
+
+    return { input: item.url, cached: false };
+  }
+
+  /**
+   * Store the file_id Telegram returned for a media item
+   */
+  async remember(botToken: string, item: IPostMedia, fileId: string): Promise<void> {
+    try {
+      await TelegramFile.updateOne(
+        { botId: getBotId(botToken), source: item.url, type: item.type },
+        { $set: { fileId } },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.error('[TELEGRAM FILE SERVICE] Error saving file_id:', error);
+    }
+  }
+
+  /**
+   * Drop a cached file_id that Telegram no longer accepts
+   */
+  async forget(botToken: string, item: IPostMedia): Promise<void> {
+    try {
+      await TelegramFile.deleteOne({ botId: getBotId(botToken), source: item.url, type: item.type });
+    } catch (error) {
+      console.error('[TELEGRAM FILE SERVICE] Error removing file_id:', error);
+    }
+  }
+
+  /**
+   * Check whether a Telegram error was caused by an invalid file_id
+   */
+  isInvalidFileIdError(message?: string): boolean {
+    return !!message && /wrong (remote )?file identifier|file reference/i.test(message);
+  }
+}
+
+export default new TelegramFileService();
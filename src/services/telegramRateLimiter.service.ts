@@ -0,0 +1,260 @@
+import config from '../config/config';
+
+// Entries of chats and bots without queued calls are dropped after this idle time
+const IDLE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Token bucket: holds up to `capacity` tokens and refills continuously at `refillPerMs`
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly capacity: number, private readonly refillPerMs: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Milliseconds until `cost` tokens are available, 0 when they are available now
+   * A cost above the capacity waits for a full bucket
+   */
+  getWaitTime(cost: number, now: number): number {
+    this.refill(now);
+    const needed = Math.min(cost, this.capacity);
+    return this.tokens >= needed ? 0 : Math.ceil((needed - this.tokens) / this.refillPerMs);
+  }
+
+  take(cost: number, now: number): void {
+    this.refill(now);
+    this.tokens -= Math.min(cost, this.capacity);
+  }
+
+  isFull(now: number): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+interface LimiterState {
+  bucket: TokenBucket;
+  // Set from retry_after of a 429 response, no calls are made before it
+  pausedUntil: number;
+  // Calls waiting for their turn or for tokens
+  queued: number;
+  lastUsedAt: number;
+}
+
+interface ChatState extends LimiterState {
+  // Calls to one chat are made one after another, so messages keep their order
+  tail: Promise<void>;
+  // Calls waiting or in flight
+  active: number;
+}
+
+export interface TelegramRateLimitMetrics {
+  queued: number;
+  bots: {
+    botId: string;
+    queued: number;
+    pausedUntil: Date | null;
+    // Only chats with queued calls or a pause are listed
+    chats: { chatId: string; queued: number; pausedUntil: Date | null }[];
+  }[];
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const toPausedUntil = (pausedUntil: number, now: number): Date | null => {
+  return pausedUntil > now ? new Date(pausedUntil) : null;
+};
+
+/**
+ * Rate limiter shared by all Bot API calls of this process
+ * Every bot has a global bucket (TELEGRAM_RATE_LIMIT_PER_BOT calls per second) and every chat
+ * of a bot its own one (TELEGRAM_RATE_LIMIT_PER_CHAT messages per minute)
+ */
+class TelegramRateLimiter {
+  private bots = new Map<string, LimiterState>();
+  private chats = new Map<string, ChatState>();
+  private lastSweepAt = Date.now();
+
+  /**
+   * Run a Bot API call once the bot and chat have tokens left
+   * @param botId Numeric ID of the bot making the call
+   * @param chatId Chat the call sends to or changes messages in; null for calls not tied to a chat
+   * @param cost Number of messages the call sends, e.g. the size of a media group
+   */
+  async schedule<T>(botId: string, chatId: string | null, cost: number, task: () => Promise<T>): Promise<T> {
+    this.sweep();
+
+    const bot = this.getBot(botId);
+    const chat = chatId ? this.getChat(botId, chatId) : null;
+
+    let release: () => void = () => undefined;
+    let previous: Promise<void> = Promise.resolve();
+    if (chat) {
+      previous = chat.tail;
+      chat.tail = new Promise<void>(resolve => (release = resolve));
+      chat.active++;
+    }
+
+    bot.queued++;
+    if (chat) chat.queued++;
+
+    try {
+      try {
+        await previous;
+        await this.waitForTokens(bot, chat, cost);
+      } finally {
+        bot.queued--;
+        if (chat) chat.queued--;
+      }
+
+      return await task();
+    } finally {
+      if (chat) {
+        chat.active--;
+        chat.lastUsedAt = Date.now();
+      }
+      bot.lastUsedAt = Date.now();
+      release();
+    }
+  }
+
+  /**
+   * Stop calls after a 429 response until retry_after has passed
+   * Flood limits of a chat only pause that chat, limits of calls without a chat pause the whole bot
+   */
+  pause(botId: string, chatId: string | null, retryAfterSeconds: number): void {
+    const state = chatId ? this.getChat(botId, chatId) : this.getBot(botId);
+    const until = Date.now() + retryAfterSeconds * 1000;
+
+    if (until > state.pausedUntil) {
+      state.pausedUntil = until;
+      console.warn(`[TELEGRAM LIMITER] Bot ${botId}${chatId ? `, chat ${chatId}` : ''} paused for ${retryAfterSeconds}s`);
+    }
+  }
+
+  /**
+   * Queue depth of bots and their chats
+   * @param botIds Bots to include, all bots when omitted
+   */
+  getMetrics(botIds?: string[]): TelegramRateLimitMetrics {
+    const now = Date.now();
+    const bots = Array.from(this.bots.entries()).filter(([botId]) => !botIds || botIds.includes(botId)).map(([botId, bot]) => ({
+      botId,
+      queued: bot.queued,
+      pausedUntil: toPausedUntil(bot.pausedUntil, now),
+      chats: [] as TelegramRateLimitMetrics['bots'][number]['chats']
+    }));
+
+    for (const [key, chat] of this.chats) {
+      if (chat.queued === 0 && chat.pausedUntil <= now) {
+        continue;
+      }
+      const [botId, chatId] = this.parseChatKey(key);
+      bots.find(bot => bot.botId === botId)?.chats.push({
+        chatId,
+        queued: chat.queued,
+        pausedUntil: toPausedUntil(chat.pausedUntil, now)
+      });
+    }
+
+    return {
+      queued: bots.reduce((total, bot) => total + bot.queued, 0),
+      bots
+    };
+  }
+
+  private async waitForTokens(bot: LimiterState, chat: ChatState | null, cost: number): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const wait = Math.max(
+        bot.pausedUntil - now,
+        bot.bucket.getWaitTime(1, now),
+        chat ? chat.pausedUntil - now : 0,
+        chat ? chat.bucket.getWaitTime(cost, now) : 0
+      );
+
+      if (wait <= 0) {
+        bot.bucket.take(1, now);
+        chat?.bucket.take(cost, now);
+        return;
+      }
+
+      await sleep(wait);
+    }
+  }
+
+  private getBot(botId: string): LimiterState {
+    let bot = this.bots.get(botId);
+    if (!bot) {
+      const perSecond = config.telegramRateLimit.perBotPerSecond;
+      bot = {
+        bucket: new TokenBucket(perSecond, perSecond / 1000),
+        pausedUntil: 0,
+        queued: 0,
+        lastUsedAt: Date.now()
+      };
+      this.bots.set(botId, bot);
+    }
+    return bot;
+  }
+
+  private getChat(botId: string, chatId: string): ChatState {
+    const key = `${botId}:${chatId}`;
+    let chat = this.chats.get(key);
+    if (!chat) {
+      const perMinute = config.telegramRateLimit.perChatPerMinute;
+      chat = {
+        bucket: new TokenBucket(perMinute, perMinute / 60000),
+        pausedUntil: 0,
+        queued: 0,
+        lastUsedAt: Date.now(),
+        tail: Promise.resolve(),
+        active: 0
+      };
+      this.chats.set(key, chat);
+    }
+    return chat;
+  }
+
+  private parseChatKey(key: string): [string, string] {
+    const separator = key.indexOf(':');
+    return [key.slice(0, separator), key.slice(separator + 1)];
+  }
+
+  /**
+   * Drop idle entries, so chats that are not posted to anymore do not stay in memory
+   */
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweepAt < IDLE_TTL_MS) {
+      return;
+    }
+    this.lastSweepAt = now;
+
+    const isIdle = (state: LimiterState) =>
+      state.queued === 0 && state.pausedUntil <= now && now - state.lastUsedAt > IDLE_TTL_MS && state.bucket.isFull(now);
+
+    for (const [key, chat] of this.chats) {
+      if (chat.active === 0 && isIdle(chat)) {
+        this.chats.delete(key);
+      }
+    }
+
+    const botsWithChats = new Set(Array.from(this.chats.keys()).map(key => this.parseChatKey(key)[0]));
+    for (const [botId, bot] of this.bots) {
+      if (!botsWithChats.has(botId) && isIdle(bot)) {
+        this.bots.delete(botId);
+      }
+    }
+  }
+}
+
+export default new TelegramRateLimiter();
@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import User, { IUser, IChannel } from '../models/user.model';
+import TelegramUpdate from '../models/telegram-update.model';
+import { TelegramService, TelegramUpdate as TelegramUpdatePayload } from './telegram.service';
+import analyticsService from './analytics.service';
+import channelHealthService from './channelHealth.service';
+import pollService from './poll.service';
+import config from '../config/config';
+import { decryptBotToken, getBotId } from '../utils/botTokenCrypto';
+
+// Update types channel bots subscribe to; reactions and member updates must be requested explicitly
+export const ALLOWED_UPDATES = [
+  'channel_post',
+  'edited_channel_post',
+  'poll',
+  'poll_answer',
+  'message_reaction_count',
+  'my_chat_member',
+  'chat_member'
+];
+
+// getUpdates long polling: how long Telegram holds a request and the pause after a failed one
+const POLLING_TIMEOUT_SECONDS = 25;
+const POLLING_RETRY_DELAY_MS = 5000;
+
+// The list of bots is reloaded to pick up channels added on other instances
+const BOTS_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+
+// A channel together with the user that owns it
+interface ChannelTarget {
+  user: IUser;
+  channel: IChannel;
+}
+
+class TelegramUpdateService {
+  // Registered bots: decrypted token by bot ID; a polling loop stops when its bot is removed or gets another token
+  private bots = new Map<string, string>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start receiving updates for all channel bots
+   * In webhook mode every bot is pointed at TELEGRAM_WEBHOOK_URL, in polling mode each bot gets a getUpdates loop
+   */
+  async start(): Promise<void> {
+    if (config.telegramUpdatesMode === 'off') {
+      console.log('[TELEGRAM UPDATES] Receiving updates is disabled');
+      return;
+    }
+
+    if (config.telegramUpdatesMode === 'webhook' && !config.telegramWebhookUrl) {
+      console.error('[TELEGRAM UPDATES] TELEGRAM_WEBHOOK_URL is required in webhook mode, updates are not received');
+      return;
+    }
+
+    console.log(`[TELEGRAM UPDATES] Receiving updates in ${config.telegramUpdatesMode} mode`);
+    await this.refreshBots();
+
+    this.refreshTimer = setInterval(() => {
+      this.refreshBots().catch(error => console.error('[TELEGRAM UPDATES] Error refreshing bots:', error));
+    }, BOTS_REFRESH_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the long-polling loops; requests in flight finish on their own
+   */
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.bots.clear();
+  }
+
+  /**
+   * Start receiving updates for a bot right away, e.g. after a channel was added
+   * Errors are logged: the bot is registered again on the next refresh
+   * @param storedBotToken Token as stored on the channel (encrypted) or a plain token
+   */
+  async registerBot(storedBotToken: string): Promise<void> {
+    // Encrypted values of the same token differ, so tokens are compared decrypted
+    const botToken = decryptBotToken(storedBotToken);
+    const botId = getBotId(botToken);
+    if (this.bots.get(botId) === botToken) {
+      return;
+    }
+
+    try {
+      if (config.telegramUpdatesMode === 'webhook' && config.telegramWebhookUrl) {
+        if (await this.setWebhook(botId, botToken)) {
+          this.bots.set(botId, botToken);
+        }
+      } else if (config.telegramUpdatesMode === 'polling') {
+        this.startPolling(botId, botToken);
+      }
+    } catch (error) {
+      console.error(`[TELEGRAM UPDATES] Error registering bot ${botId}:`, error);
+    }
+  }
+
+  /**
+   * Secret token Telegram sends with webhook requests of a bot
+   * Derived from the bot ID, so nothing has to be stored and it survives bot token changes
+   */
+  getWebhookSecret(botId: string): string {
+    return crypto
+      .createHmac('sha256', config.telegramWebhookSecret || config.jwtSecret)
+      .update(`telegram-webhook:${botId}`)
+      .digest('hex');
+  }
+
+  /**
+   * Check the X-Telegram-Bot-Api-Secret-Token header of a webhook request
+   */
+  isValidWebhookSecret(botId: string, secretToken?: string): boolean {
+    const expected = Buffer.from(this.getWebhookSecret(botId));
+    const received = Buffer.from(secretToken || '');
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  }
+
+  /**
+   * Store an update and let other features react to it
+   * Deliveries repeated by Telegram are stored once and processed once
+   */
+  async handleUpdate(botId: string, update: TelegramUpdatePayload): Promise<void> {
+    const type = Object.keys(update).find(key => key !== 'update_id') || 'unknown';
+    const chatId = getUpdateChatId(update, type);
+
+    const storedUpdate = await TelegramUpdate.findOneAndUpdate(
+      { botId, updateId: update.update_id },
+      {
+        $setOnInsert: {
+          type,
+          chatId,
+          payload: update,
+          receivedAt: new Date()
+        }
+      },
+      { upsert: true, new: true }
+    );
+
+    if (storedUpdate.processedAt) {
+      return;
+    }
+
+    await this.processUpdate(botId, update, chatId);
+
+    storedUpdate.processedAt = new Date();
+    await storedUpdate.save();
+  }
+
+  /**
+   * Pass an update to the features that use it; other types are only stored
+   */
+  private async processUpdate(botId: string, update: TelegramUpdatePayload, chatId?: string): Promise<void> {
+    if (update.poll) {
+      // Poll updates carry the full vote counts but no chat, the poll is found by its Telegram ID
+      await pollService.applyPollState(update.poll);
+      return;
+    }
+
+    if (!chatId || (!update.message_reaction_count && !update.my_chat_member)) {
+      return;
+    }
+
+    const targets = await this.findChannels(botId, chatId);
+
+    for (const { user, channel } of targets) {
+      if (update.message_reaction_count) {
+        await analyticsService.applyReactionCount(channel._id!.toString(), update.message_reaction_count);
+      }
+
+      if (update.my_chat_member) {
+        // The bot was removed, demoted or promoted: re-check the channel now instead of waiting for the periodic check
+        console.log(`[TELEGRAM UPDATES] Bot status in channel ${channel.username} changed to ${update.my_chat_member.new_chat_member.status}`);
+        await channelHealthService.checkChannel(user, channel);
+        await user.save();
+      }
+    }
+  }
+
+  /**
+   * Find the channels served by a bot in a chat
+   */
+  private async findChannels(botId: string, chatId: string): Promise<ChannelTarget[]> {
+    const users = await User.find({ 'channels.chatId': chatId });
+
+    return users.flatMap(user => user.channels
+      .filter(channel => channel.chatId === chatId && channel.botToken && getBotId(channel.botToken) === botId)
+      .map(channel => ({ user, channel })));
+  }
+
+  /**
+   * Register webhooks or start polling loops for the bots of all channels
+   */
+  private async refreshBots(): Promise<void> {
+    const users = await User.find({ 'channels.botToken': { $nin: [null, ''] } }).select('channels');
+
+    // Several channels can share a bot, it is registered once
+    const botTokens = new Map<string, string>();
+    for (const user of users) {
+      for (const channel of user.channels) {
+        if (channel.botToken && !botTokens.has(getBotId(channel.botToken))) {
+          botTokens.set(getBotId(channel.botToken), channel.botToken);
+        }
+      }
+    }
+
+    for (const botId of this.bots.keys()) {
+      if (!botTokens.has(botId)) {
+        this.bots.delete(botId);
+      }
+    }
+
+    for (const botToken of botTokens.values()) {
+      await this.registerBot(botToken);
+    }
+  }
+
+  private async setWebhook(botId: string, botToken: string): Promise<boolean> {
+    const result = await new TelegramService(botToken).setWebhook(
+      `${config.telegramWebhookUrl}/api/telegram/webhook/${botId}`,
+      this.getWebhookSecret(botId),
+      ALLOWED_UPDATES
+    );
+
+    if (!result.success) {
+      console.warn(`[TELEGRAM UPDATES] Could not set webhook of bot ${botId}: ${result.message}`);
+    }
+    return result.success;
+  }
+
+  private startPolling(botId: string, botToken: string): void {
+    this.bots.set(botId, botToken);
+    this.poll(botId, botToken).catch(error => {
+      console.error(`[TELEGRAM UPDATES] Polling of bot ${botId} stopped:`, error);
+      if (this.bots.get(botId) === botToken) {
+        this.bots.delete(botId);
+      }
+    });
+  }
+
+  /**
+   * getUpdates loop of a bot; confirmed updates are not returned again
+   */
+  private async poll(botId: string, botToken: string): Promise<void> {
+    const telegramService = new TelegramService(botToken);
+
+    let offset: number | undefined;
+    while (this.bots.get(botId) === botToken) {
+      const result = await telegramService.getUpdates(offset, ALLOWED_UPDATES, POLLING_TIMEOUT_SECONDS);
+
+      if (result.errorCode === 409 && /webhook/i.test(result.message || '')) {
+        // The bot has a webhook, e.g. set by a deployed instance; it is not removed to avoid stealing its updates
+        console.warn(`[TELEGRAM UPDATES] Bot ${botId} has a webhook, polling stopped: ${result.message}`);
+        if (this.bots.get(botId) === botToken) {
+          this.bots.delete(botId);
+        }
+        return;
+      }
+
+      if (!result.success || !result.data) {
+        console.warn(`[TELEGRAM UPDATES] Could not get updates of bot ${botId}: ${result.message}`);
+        await new Promise(resolve => setTimeout(resolve, POLLING_RETRY_DELAY_MS));
+        continue;
+      }
+
+      for (const update of result.data) {
+        try {
+          await this.handleUpdate(botId, update);
+        } catch (error) {
+          console.error(`[TELEGRAM UPDATES] Error handling update ${update.update_id} of bot ${botId}:`, error);
+        }
+        offset = update.update_id + 1;
+      }
+    }
+  }
+}
+
+/**
+ * Get the chat an update belongs to; poll updates are not bound to a chat
+ */
+const getUpdateChatId = (update: TelegramUpdatePayload, type: string): string | undefined => {
+  const chatId = update[type]?.chat?.id ?? update[type]?.message?.chat?.id;
+  return chatId !== undefined ? String(chatId) : undefined;
+};
+
+export default new TelegramUpdateService();
@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import config from '../config/config';
+
+// Encrypted tokens look like enc:<keyId>:<iv>:<authTag>:<ciphertext> (base64url parts)
+// Telegram bot tokens are <botId>:<secret> and never start with the prefix, so plain tokens stored
+// before encryption was introduced are still recognized
+const ENCRYPTED_PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Parse BOT_TOKEN_ENCRYPTION_KEYS: comma-separated <keyId>:<base64 32-byte key> pairs, the first key
+ * encrypts new tokens and the others are only used to decrypt tokens written before a rotation
+ * Without configured keys a key derived from JWT_SECRET is used in development; production refuses to start
+ */
+const loadKeys = (): EncryptionKey[] => {
+  if (!config.botTokenEncryptionKeys) {
+    if (config.nodeEnv === 'production') {
+      throw new Error('BOT_TOKEN_ENCRYPTION_KEYS must be set in production');
+    }
+    console.warn('[BOT TOKEN CRYPTO] BOT_TOKEN_ENCRYPTION_KEYS is not set, deriving the key from JWT_SECRET');
+    return [{ id: 'jwt', key: crypto.createHash('sha256').update(`bot-token:${config.jwtSecret}`).digest() }];
+  }
+
+  return config.botTokenEncryptionKeys.split(',').map(entry => {
+    const separatorIndex = entry.indexOf(':');
+    const id = entry.substring(0, separatorIndex).trim();
+    const key = Buffer.from(entry.substring(separatorIndex + 1).trim(), 'base64');
+
+    if (separatorIndex <= 0 || key.length !== 32) {
+      throw new Error('BOT_TOKEN_ENCRYPTION_KEYS must contain <keyId>:<base64 32-byte key> pairs');
+    }
+
+    return { id, key };
+  });
+};
+
+const keys = loadKeys();
+const currentKey = keys[0];
+
+/**
+ * Check whether a stored value is an encrypted token
+ */
+export const isEncryptedBotToken = (value?: string | null): boolean => {
+  return !!value && value.startsWith(`${ENCRYPTED_PREFIX}:`);
+};
+
+/**
+ * Encrypt a bot token with the current key; already encrypted values are returned as is
+ */
+export const encryptBotToken = (token: string): string => {
+  if (!token || isEncryptedBotToken(token)) {
+    return token;
+  }
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, currentKey.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+
+  return [
+    ENCRYPTED_PREFIX,
+    currentKey.id,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url')
+  ].join(':');
+};
+
+/**
+ * Decrypt a stored bot token; plain tokens are returned as is
+ * Should only be called by the code that talks to the Bot API
+ */
+export const decryptBotToken = (value: string): string => {
+  if (!isEncryptedBotToken(value)) {
+    return value;
+  }
+
+  const [, keyId, iv, authTag, ciphertext] = value.split(':');
+  const encryptionKey = keys.find(key => key.id === keyId);
+  if (!encryptionKey) {
+    throw new Error(`Bot token was encrypted with unknown key "${keyId}"`);
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey.key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(authTag, 'base64url'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final()
+  ]).toString('utf8');
+};
+
+/**
+ * Get the numeric bot ID (the part before the colon) of a stored or plain token
+ */
+export const getBotId = (value: string): string => {
+  return decryptBotToken(value).split(':')[0];
+};
+
+/**
+ * Check whether a stored token is plain or encrypted with an old key
+ */
+export const needsReencryption = (value?: string | null): boolean => {
+  if (!value) {
+    return false;
+  }
+  return !isEncryptedBotToken(value) || value.split(':')[1] !== currentKey.id;
+};
+
+/**
+ * Mask a bot token for API responses: the bot ID and the last 4 characters stay visible
+ */
+export const maskBotToken = (value?: string | null): string => {
+  if (!value) {
+    return '';
+  }
+
+  try {
+    const token = decryptBotToken(value);
+    const [botId, secret = ''] = token.split(':');
+    return `${botId}:****${secret.slice(-4)}`;
+  } catch (error) {
+    return '****';
+  }
+};
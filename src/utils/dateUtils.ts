@@ -1,15 +1,216 @@
-import { Frequency, TimeUnit } from '../models/user.model';
+import { Frequency, TimeUnit, IUser, IAutoPostingRule, IQuietHours } from '../models/user.model';
 
 interface ScheduleParams {
   frequency: Frequency;
   customInterval?: number;
   customTimeUnit?: TimeUnit;
   preferredTime?: string;
+  preferredTimes?: string[];
   preferredDays?: string[];
+  timezone?: string | null; // IANA name, e.g. "Europe/Berlin"; the server time zone if not set
+  quietHours?: IQuietHours | null;
+  quietHoursTimezone?: string | null; // Time zone of the quiet hours if it differs from the schedule's one
+  now?: Date;
 }
 
+// A daily time slot in minutes after midnight; start and end are equal for an exact time
+interface TimeSlot {
+  start: number;
+  end: number;
+}
+
+// A calendar date and wall clock time in some time zone; month is 0-based like in Date
+export interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Intl formatters are expensive to create, one is kept per time zone
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Time zone of the server, used for users and rules without one
+ */
+export const getServerTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+};
+
+/**
+ * Check whether a value is an IANA time zone name known to the runtime
+ */
+export const isValidTimeZone = (timezone: unknown): timezone is string => {
+  if (typeof timezone !== 'string' || !timezone) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const getZoneFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = zoneFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    zoneFormatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Get the calendar date and wall clock time of a moment in a time zone
+ */
+export const getZonedDateParts = (date: Date, timezone: string): ZonedDateParts & { seconds: number } => {
+  const parts: Record<string, number> = {};
+  for (const part of getZoneFormatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second,
+  };
+};
+
+/**
+ * Offset of a time zone from UTC at a moment, in milliseconds
+ */
+const getTimeZoneOffset = (date: Date, timezone: string): number => {
+  const parts = getZonedDateParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Get the moment a wall clock time occurs in a time zone
+ * Days and months out of range roll over like in Date.UTC. A time skipped by a DST change
+ * (e.g. 02:30 when clocks jump from 02:00 to 03:00) is moved forward by the gap,
+ * a time that occurs twice when clocks go back resolves to the first occurrence.
+ */
+export const zonedDateToUtc = (parts: ZonedDateParts, timezone: string): Date => {
+  const wallClock = Date.UTC(parts.year, parts.month, parts.day, parts.hours, parts.minutes);
+
+  // The offset at the wall clock time read as UTC is at most one DST change away from the real one
+  const offsetBefore = getTimeZoneOffset(new Date(wallClock - 24 * 60 * 60 * 1000), timezone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallClock + 24 * 60 * 60 * 1000), timezone);
+
+  const beforeChange = new Date(wallClock - offsetBefore);
+  if (offsetBefore === offsetAfter || getTimeZoneOffset(beforeChange, timezone) === offsetBefore) {
+    return beforeChange;
+  }
+
+  const afterChange = new Date(wallClock - offsetAfter);
+  if (getTimeZoneOffset(afterChange, timezone) === offsetAfter) {
+    return afterChange;
+  }
+
+  // The time does not exist on that day; the offset before the change moves it past the gap
+  return beforeChange;
+};
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+// A rule is not scheduled more than this many days ahead; weekly rules need a full week plus today
+const MAX_SCHEDULE_DAYS_AHEAD = 7;
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ * @returns Minutes or null if the value is not a valid time
+ */
+const parseTime = (value: string): number | null => {
+  const match = TIME_PATTERN.exec(value.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Parse a time slot: an exact time "HH:MM" or a window "HH:MM-HH:MM" within one day
+ * @returns The slot or null if the value is not valid
+ */
+const parseTimeSlot = (value: string): TimeSlot | null => {
+  const [start, end = start, ...rest] = String(value).split('-');
+  const startMinutes = parseTime(start);
+  const endMinutes = parseTime(end);
+
+  if (rest.length > 0 || startMinutes === null || endMinutes === null || endMinutes < startMinutes) {
+    return null;
+  }
+
+  return { start: startMinutes, end: endMinutes };
+};
+
+/**
+ * Check whether a value is a valid time slot of an autoposting rule
+ */
+export const isValidTimeSlot = (value: unknown): boolean => {
+  return typeof value === 'string' && parseTimeSlot(value) !== null;
+};
+
+/**
+ * Check whether a value is a valid "HH:MM" time
+ */
+export const isValidTime = (value: unknown): boolean => {
+  return typeof value === 'string' && parseTime(value) !== null;
+};
+
+/**
+ * Check whether a moment falls into quiet hours
+ */
+const isInQuietHours = (date: Date, quietHours: IQuietHours, timezone: string): boolean => {
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (start === null || end === null || start === end) {
+    return false;
+  }
+
+  const parts = getZonedDateParts(date, timezone);
+  const minutes = parts.hours * 60 + parts.minutes;
+
+  // Quiet hours like 22:00-07:00 span midnight
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+};
+
+/**
+ * Get the first moment after quiet hours that contain a date
+ */
+const getQuietHoursEnd = (date: Date, quietHours: IQuietHours, timezone: string): Date => {
+  const end = parseTime(quietHours.end)!;
+  const parts = getZonedDateParts(date, timezone);
+  const endToday = zonedDateToUtc({ ...parts, hours: Math.floor(end / 60), minutes: end % 60 }, timezone);
+
+  return endToday > date
+    ? endToday
+    : zonedDateToUtc({ ...parts, day: parts.day + 1, hours: Math.floor(end / 60), minutes: end % 60 }, timezone);
+};
+
 /**
  * Calculate the next scheduled date for an autoposting rule
+ * Daily and weekly schedules are computed on the wall clock of the rule's time zone,
+ * so "12:00 on Monday" stays at 12:00 local time across DST changes
  */
 export const calculateNextScheduledDate = (params: ScheduleParams): Date => {
   const {
@@ -17,124 +218,178 @@ export const calculateNextScheduledDate = (params: ScheduleParams): Date => {
     customInterval = 1,
     customTimeUnit = TimeUnit.DAYS,
     preferredTime = '12:00',
-    preferredDays = ['monday', 'wednesday', 'friday']
+    preferredTimes = [],
+    preferredDays = ['monday', 'wednesday', 'friday'],
+    quietHours,
+    now = new Date()
   } = params;
+  const timezone = isValidTimeZone(params.timezone) ? params.timezone : getServerTimeZone();
+  const quietHoursTimezone = isValidTimeZone(params.quietHoursTimezone) ? params.quietHoursTimezone : timezone;
 
-  const now = new Date();
-  const [hours, minutes] = preferredTime.split(':').map(Number);
-  
-  // Set the base date with the preferred time
-  const baseDate = new Date(now);
-  baseDate.setHours(hours || 12, minutes || 0, 0, 0);
-  
-  // If the base date is in the past, move it to the future
-  if (baseDate.getTime() <= now.getTime()) {
-    baseDate.setDate(baseDate.getDate() + 1);
-  }
-  
-  let nextDate: Date;
-  
-  switch (frequency) {
-    case Frequency.DAILY:
-      // Simply use the base date (tomorrow if today's preferred time has passed)
-      nextDate = baseDate;
-      break;
-      
-    case Frequency.WEEKLY:
-      // Find the next preferred day of the week
-      nextDate = findNextWeekdayDate(baseDate, preferredDays);
-      break;
-      
-    case Frequency.CUSTOM:
-      // For custom intervals, we should calculate from current time, not baseDate
-      // This ensures that posts happen every X minutes/hours/days from NOW
-      nextDate = addTimeToDate(now, customInterval, customTimeUnit);
-      break;
-      
-    default:
-      nextDate = baseDate; // Default to daily if frequency is unknown
-  }
-  
-  return nextDate;
-};
-
-/**
- * Find the next date that falls on one of the preferred weekdays
- */
-const findNextWeekdayDate = (baseDate: Date, preferredDays: string[]): Date => {
-  if (!preferredDays.length) {
-    return baseDate; // If no preferred days, just return the base date
-  }
-  
-  const weekdayMap: Record<string, number> = {
-    'sunday': 0,
-    'monday': 1,
-    'tuesday': 2,
-    'wednesday': 3,
-    'thursday': 4,
-    'friday': 5,
-    'saturday': 6
-  };
-  
-  // Convert preferred days to numbers
-  const preferredDayNumbers = preferredDays
-    .map(day => weekdayMap[day.toLowerCase()])
-    .filter(dayNum => dayNum !== undefined)
-    .sort((a, b) => a - b);
-  
-  if (!preferredDayNumbers.length) {
-    return baseDate; // If no valid preferred days, just return the base date
-  }
-  
-  const currentDayOfWeek = baseDate.getDay();
-  
-  // Find the next preferred day
-  let daysToAdd = 0;
-  let found = false;
-  
-  // First check if there's a preferred day later this week
-  for (const dayNum of preferredDayNumbers) {
-    if (dayNum > currentDayOfWeek) {
-      daysToAdd = dayNum - currentDayOfWeek;
-      found = true;
-      break;
+  // End of the quiet hours a date falls into, null if the date is not in quiet hours
+  const getQuietEnd = (date: Date): Date | null => quietHours && isInQuietHours(date, quietHours, quietHoursTimezone)
+    ? getQuietHoursEnd(date, quietHours, quietHoursTimezone)
+    : null;
+
+  if (frequency === Frequency.CUSTOM) {
+    // For custom intervals, we should calculate from current time, not the preferred time
+    // This ensures that posts happen every X minutes/hours/days from NOW
+    const nextDate = addTimeToDate(now, customInterval, customTimeUnit, timezone);
+    return getQuietEnd(nextDate) || nextDate;
+  }
+
+  const slots = getTimeSlots(preferredTimes, preferredTime);
+  const today = getZonedDateParts(now, timezone);
+  const weekdays = frequency === Frequency.WEEKLY ? getPreferredWeekdays(preferredDays) : [];
+
+  // A time on a day counted from today in the rule's time zone
+  const atTime = (daysFromToday: number, minutes: number): Date => zonedDateToUtc({
+    year: today.year,
+    month: today.month,
+    day: today.day + daysFromToday,
+    hours: Math.floor(minutes / 60),
+    minutes: minutes % 60,
+  }, timezone);
+
+  // Weekday of a calendar date does not depend on the time zone
+  const isPreferredDay = (daysFromToday: number): boolean => weekdays.length === 0
+    || weekdays.includes(new Date(Date.UTC(today.year, today.month, today.day + daysFromToday)).getUTCDay());
+
+  for (let day = 0; day <= MAX_SCHEDULE_DAYS_AHEAD; day++) {
+    if (!isPreferredDay(day)) {
+      continue;
+    }
+
+    for (const slot of slots) {
+      const date = pickTimeInSlot(atTime(day, slot.start), atTime(day, slot.end), now, getQuietEnd);
+      if (date) {
+        return date;
+      }
     }
   }
-  
-  // If not found, use the first preferred day next week
-  if (!found) {
-    daysToAdd = 7 - currentDayOfWeek + preferredDayNumbers[0];
+
+  // Every slot is in quiet hours: publish when they end after the first slot of the next preferred day
+  let firstDay = atTime(0, slots[0].start) > now ? 0 : 1;
+  while (!isPreferredDay(firstDay)) {
+    firstDay++;
+  }
+
+  const firstSlot = atTime(firstDay, slots[0].start);
+  return getQuietEnd(firstSlot) || firstSlot;
+};
+
+/**
+ * Time slots of a rule, earliest first; preferredTime is used when there are no preferredTimes
+ */
+const getTimeSlots = (preferredTimes: string[], preferredTime: string): TimeSlot[] => {
+  const slots = (preferredTimes.length > 0 ? preferredTimes : [preferredTime])
+    .map(parseTimeSlot)
+    .filter((slot): slot is TimeSlot => slot !== null)
+    .sort((a, b) => a.start - b.start);
+
+  return slots.length > 0 ? slots : [{ start: 12 * 60, end: 12 * 60 }];
+};
+
+/**
+ * Weekday numbers (0 - Sunday) of the preferred days
+ */
+const getPreferredWeekdays = (preferredDays: string[]): number[] => {
+  return preferredDays
+    .map(day => WEEKDAYS.indexOf(day.toLowerCase()))
+    .filter(dayNum => dayNum !== -1);
+};
+
+/**
+ * Pick a publishing time in a slot after now and outside quiet hours
+ * A window gets a random minute; if it falls into quiet hours, the end of the quiet hours
+ * or the start of the window is used when they are still in the window
+ * @returns The time or null if no time of the slot can be used
+ */
+const pickTimeInSlot = (
+  start: Date,
+  end: Date,
+  now: Date,
+  getQuietEnd: (date: Date) => Date | null
+): Date | null => {
+  // A window that is already open starts a minute from now, so the post is not published late
+  const earliest = start.getTime() === end.getTime()
+    ? start.getTime()
+    : Math.max(start.getTime(), now.getTime() + 60 * 1000);
+  if (earliest <= now.getTime() || earliest > end.getTime()) {
+    return null;
+  }
+
+  const minutes = Math.floor((end.getTime() - earliest) / (60 * 1000));
+  const picked = new Date(earliest + Math.floor(Math.random() * (minutes + 1)) * 60 * 1000);
+
+  const quietEnd = getQuietEnd(picked);
+  if (!quietEnd) {
+    return picked;
   }
-  
-  const nextDate = new Date(baseDate);
-  nextDate.setDate(nextDate.getDate() + daysToAdd);
-  
-  return nextDate;
+  if (quietEnd <= end) {
+    return quietEnd;
+  }
+
+  return getQuietEnd(new Date(earliest)) ? null : new Date(earliest);
+};
+
+/**
+ * Calculate the next scheduled date of a user's autoposting rule
+ * Uses the rule's or user's time zone and the quiet hours of the rule's channel
+ * @param now Date the next run follows, the current time by default; later runs are projected from the previous one
+ */
+export const calculateRuleNextScheduledDate = (user: IUser, rule: IAutoPostingRule, now?: Date): Date => {
+  const channel = user.channels.find(channel =>
+    channel._id?.toString() === rule.channelId?.toString() || channel.username === rule.channelId
+  );
+
+  return calculateNextScheduledDate({
+    frequency: rule.frequency,
+    customInterval: rule.customInterval,
+    customTimeUnit: rule.customTimeUnit,
+    preferredTime: rule.preferredTime,
+    preferredTimes: rule.preferredTimes,
+    preferredDays: rule.preferredDays,
+    timezone: rule.timezone || user.timezone,
+    quietHours: channel?.quietHours,
+    quietHoursTimezone: user.timezone,
+    now,
+  });
 };
 
 /**
  * Add a time interval to a date
+ * Days are added on the calendar of the time zone, keeping the wall clock time
  */
-const addTimeToDate = (date: Date, interval: number, unit: TimeUnit): Date => {
-  const result = new Date(date);
-  
+const addTimeToDate = (date: Date, interval: number, unit: TimeUnit, timezone: string): Date => {
   switch (unit) {
     case TimeUnit.MINUTES:
-      result.setMinutes(result.getMinutes() + interval);
-      break;
-      
+      return new Date(date.getTime() + interval * 60 * 1000);
+
     case TimeUnit.HOURS:
-      result.setHours(result.getHours() + interval);
-      break;
-      
+      return new Date(date.getTime() + interval * 60 * 60 * 1000);
+
     case TimeUnit.DAYS:
-      result.setDate(result.getDate() + interval);
-      break;
-      
-    default:
+    default: {
       // Default to days if unit is unknown
-      result.setDate(result.getDate() + interval);
+      const parts = getZonedDateParts(date, timezone);
+      const result = zonedDateToUtc({ ...parts, day: parts.day + interval }, timezone);
+      return new Date(result.getTime() + parts.seconds * 1000 + date.getMilliseconds());
+    }
   }
-  
-  return result;
-}; 
\ No newline at end of file
+};
+
+/**
+ * Parse the from/to query parameters of a report
+ * @returns The range (each bound is optional) or null if a bound is not a valid date
+ */
+export const parseDateRange = (from?: unknown, to?: unknown): { from?: Date; to?: Date } | null => {
+  const fromDate = from ? new Date(String(from)) : undefined;
+  const toDate = to ? new Date(String(to)) : undefined;
+
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return null;
+  }
+
+  return { from: fromDate, to: toDate };
+};
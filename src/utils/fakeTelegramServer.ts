@@ -0,0 +1,311 @@
+import express, { Request, Response } from 'express';
+import multer from 'multer';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+// A Bot API call received by the fake server
+export interface RecordedTelegramCall {
+  token: string;
+  method: string;
+  params: Record<string, any>;
+  files: string[]; // multipart field names of uploaded files
+  messageIds: number[]; // IDs of the messages "sent" by the call
+  receivedAt: Date;
+}
+
+// Error returned instead of a successful response
+export interface InjectedTelegramError {
+  method?: string; // any method when not set
+  chatId?: string; // any chat when not set
+  errorCode: number;
+  description: string;
+  retryAfter?: number;
+  times?: number; // how many calls fail, 1 by default
+}
+
+// Media fields of the send* methods and the message field the media is returned in
+const MEDIA_METHODS: Record<string, string> = {
+  sendPhoto: 'photo',
+  sendVideo: 'video',
+  sendAnimation: 'animation',
+  sendDocument: 'document',
+  sendAudio: 'audio',
+};
+
+/**
+ * In-process stand-in for the Telegram Bot API
+ * Records every call and answers like Telegram does, so publishing code can run end-to-end without real bots
+ *
+ * Usage: start the server and point TelegramService at it with TELEGRAM_API_URL (or the apiBaseUrl argument)
+ *   const server = new FakeTelegramServer();
+ *   const url = await server.start();
+ *   server.failNext({ method: 'sendPhoto', errorCode: 429, description: 'Too Many Requests', retryAfter: 5 });
+ *   ...
+ *   server.getCalls('sendMediaGroup');
+ *   await server.stop();
+ */
+export class FakeTelegramServer {
+  readonly calls: RecordedTelegramCall[] = [];
+
+  private server: Server | null = null;
+  private errors: InjectedTelegramError[] = [];
+  private lastMessageIds = new Map<string, number>();
+  private lastFileId = 0;
+  private updates: Record<string, any>[] = [];
+  private polls = new Map<string, Record<string, any>>(); // sent polls by <chatId>:<messageId>
+  private lastPollId = 0;
+  private lastUpdateId = 0;
+
+  /**
+   * Start listening
+   * @param port Port to listen on, a random free port by default
+   * @returns Base URL to use as TELEGRAM_API_URL
+   */
+  async start(port: number = 0): Promise<string> {
+    const app = express();
+    app.use(express.json({ limit: '50mb' }));
+    app.use(express.urlencoded({ extended: true }));
+    app.post('/bot:token/:method', multer({ storage: multer.memoryStorage() }).any(), this.handleCall.bind(this));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server = app.listen(port, '127.0.0.1', () => resolve());
+      this.server.once('error', reject);
+    });
+
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+
+    if (server) {
+      await new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()));
+    }
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Fake Telegram server is not started');
+    }
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Make the next matching call(s) fail with a Telegram error
+   */
+  failNext(error: InjectedTelegramError): void {
+    this.errors.push({ ...error, times: error.times ?? 1 });
+  }
+
+  /**
+   * Get recorded calls, optionally only of one method
+   */
+  getCalls(method?: string): RecordedTelegramCall[] {
+    return method ? this.calls.filter(call => call.method === method) : [...this.calls];
+  }
+
+  /**
+   * Queue an update for getUpdates of any bot, e.g. { message_reaction_count: {...} }
+   * @returns The assigned update_id
+   */
+  pushUpdate(update: Record<string, any>): number {
+    const updateId = ++this.lastUpdateId;
+    this.updates.push({ update_id: updateId, ...update });
+    return updateId;
+  }
+
+  /**
+   * Forget recorded calls and pending errors
+   */
+  reset(): void {
+    this.calls.length = 0;
+    this.errors = [];
+    this.lastMessageIds.clear();
+    this.lastFileId = 0;
+    this.updates = [];
+    this.polls.clear();
+    this.lastPollId = 0;
+  }
+
+  private handleCall(req: Request, res: Response): void {
+    const { token, method } = req.params as { token: string; method: string };
+    const params = parseParams(req.body || {});
+    const files = Array.isArray(req.files) ? req.files.map(file => file.fieldname) : [];
+    const call: RecordedTelegramCall = { token, method, params, files, messageIds: [], receivedAt: new Date() };
+    this.calls.push(call);
+
+    const error = this.takeError(method, params.chat_id);
+    if (error) {
+      res.status(error.errorCode).json({
+        ok: false,
+        error_code: error.errorCode,
+        description: error.description,
+        ...(error.retryAfter !== undefined && { parameters: { retry_after: error.retryAfter } })
+      });
+      return;
+    }
+
+    if (method === 'getUpdates') {
+      this.answerUpdates(res, params);
+      return;
+    }
+
+    const result = this.buildResult(token, method, params);
+    const resultMessages = Array.isArray(result) ? result : [result];
+    call.messageIds = resultMessages
+      .map(message => message?.message_id)
+      .filter((messageId): messageId is number => typeof messageId === 'number');
+
+    res.json({ ok: true, result });
+  }
+
+  /**
+   * Return queued updates from the offset on; confirmed updates are dropped
+   * Long polling is shortened to a second so polling loops do not hold the server
+   */
+  private answerUpdates(res: Response, params: Record<string, any>): void {
+    const offset = Number(params.offset) || 0;
+    this.updates = this.updates.filter(update => update.update_id >= offset);
+
+    const delay = this.updates.length === 0 ? Math.min(Number(params.timeout) || 0, 1) * 1000 : 0;
+    setTimeout(() => res.json({ ok: true, result: this.updates }), delay);
+  }
+
+  private takeError(method: string, chatId?: string | number): InjectedTelegramError | undefined {
+    const index = this.errors.findIndex(error =>
+      (!error.method || error.method === method) &&
+      (!error.chatId || error.chatId === String(chatId))
+    );
+    if (index === -1) {
+      return undefined;
+    }
+
+    const error = this.errors[index];
+    error.times = (error.times ?? 1) - 1;
+    if (error.times <= 0) {
+      this.errors.splice(index, 1);
+    }
+
+    return error;
+  }
+
+  /**
+   * Build the result Telegram would return for a method
+   */
+  private buildResult(token: string, method: string, params: Record<string, any>): any {
+    const chatId = String(params.chat_id ?? '');
+
+    if (method === 'sendMediaGroup') {
+      return (params.media || []).map((item: Record<string, any>) =>
+        this.buildMessage(chatId, { [item.type]: this.buildFile(item.type), caption: item.caption })
+      );
+    }
+
+    if (MEDIA_METHODS[method]) {
+      const field = MEDIA_METHODS[method];
+      return this.buildMessage(chatId, { [field]: this.buildFile(field), caption: params.caption });
+    }
+
+    switch (method) {
+      case 'sendMessage':
+        return this.buildMessage(chatId, { text: params.text });
+      case 'sendPoll': {
+        const poll = {
+          id: `fake-poll-${++this.lastPollId}`,
+          question: params.question,
+          options: (params.options || []).map((option: any) => ({ text: option?.text ?? option, voter_count: 0 })),
+          total_voter_count: 0,
+          is_closed: false,
+          is_anonymous: params.is_anonymous ?? true,
+          type: params.type || 'regular',
+          allows_multiple_answers: params.allows_multiple_answers ?? false
+        };
+        const message = this.buildMessage(chatId, { poll });
+        this.polls.set(`${chatId}:${message.message_id}`, poll);
+        return message;
+      }
+      case 'stopPoll': {
+        const poll = this.polls.get(`${chatId}:${params.message_id}`);
+        if (poll) {
+          poll.is_closed = true;
+        }
+        return poll || { id: 'fake-poll-unknown', question: '', options: [], total_voter_count: 0, is_closed: true };
+      }
+      case 'editMessageText':
+      case 'editMessageCaption':
+      case 'editMessageMedia':
+      case 'editMessageReplyMarkup':
+        return { message_id: Number(params.message_id), chat: { id: chatId }, date: now() };
+      case 'getMe':
+        return this.buildBot(token);
+      case 'getChat':
+        return {
+          id: /^-?\d+$/.test(chatId) ? Number(chatId) : -1000000000000 - chatId.length,
+          type: 'channel',
+          title: 'Fake Channel',
+          ...(chatId.startsWith('@') && { username: chatId.substring(1) })
+        };
+      case 'getChatMember':
+        // The bot is an administrator with all rights needed for publishing
+        return {
+          status: 'administrator',
+          user: this.buildBot(token),
+          can_post_messages: true,
+          can_edit_messages: true,
+          can_delete_messages: true
+        };
+      case 'getChatMemberCount':
+        return 0;
+      default:
+        // deleteMessage, answerCallbackQuery and other methods that only confirm the action
+        return true;
+    }
+  }
+
+  private buildBot(token: string): Record<string, any> {
+    return { id: Number(token.split(':')[0]) || 1, is_bot: true, first_name: 'Fake Bot', username: 'fake_bot' };
+  }
+
+  private buildMessage(chatId: string, content: Record<string, any>): Record<string, any> {
+    const messageId = (this.lastMessageIds.get(chatId) || 0) + 1;
+    this.lastMessageIds.set(chatId, messageId);
+
+    return { message_id: messageId, chat: { id: chatId }, date: now(), ...content };
+  }
+
+  private buildFile(type: string): any {
+    const file = { file_id: `fake-${type}-${++this.lastFileId}`, file_unique_id: `fake-unique-${this.lastFileId}` };
+    // Photos are returned as a list of sizes
+    return type === 'photo' ? [file] : file;
+  }
+}
+
+/**
+ * Multipart requests send nested objects (media, reply_markup) as JSON strings
+ */
+const parseParams = (body: Record<string, any>): Record<string, any> => {
+  return Object.fromEntries(Object.entries(body).map(([key, value]) => {
+    if (typeof value === 'string' && /^[[{]/.test(value)) {
+      try {
+        return [key, JSON.parse(value)];
+      } catch (e) {
+        return [key, value];
+      }
+    }
+    return [key, value];
+  }));
+};
+
+const now = (): number => Math.floor(Date.now() / 1000);
+
+// Standalone mode for manual end-to-end runs: npm run fake-telegram, then TELEGRAM_API_URL=<printed URL>
+if (require.main === module) {
+  const server = new FakeTelegramServer();
+  server.start(Number(process.env.FAKE_TELEGRAM_PORT) || 8081)
+    .then(url => console.log(`[FAKE TELEGRAM] Bot API stand-in listening on ${url}`))
+    .catch(error => {
+      console.error('[FAKE TELEGRAM] Failed to start:', error);
+      process.exit(1);
+    });
+}
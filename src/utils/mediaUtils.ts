@@ -0,0 +1,116 @@
+import path from 'path';
+import { Request } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { IPostMedia, PostMediaType, POST_MEDIA_TYPES } from '../models/post-media.model';
+
+// Root of the files served from the /uploads static path
+export const UPLOADS_DIR = path.join(__dirname, '../../uploads');
+
+// Telegram allows at most 10 items in an album
+export const MAX_MEDIA_PER_POST = 10;
+
+// Uploaded MIME types and the Telegram media type they are sent as
+export const MEDIA_MIME_TYPES: Record<string, PostMediaType> = {
+  'image/jpeg': 'photo',
+  'image/png': 'photo',
+  'image/webp': 'photo',
+  'image/gif': 'animation',
+  'video/mp4': 'video',
+  'video/quicktime': 'video',
+  'video/webm': 'video',
+  'application/pdf': 'document',
+  'audio/mpeg': 'audio',
+  'audio/mp4': 'audio',
+  'audio/ogg': 'audio',
+  'audio/wav': 'audio',
+};
+
+/**
+ * Get the Telegram media type for an uploaded file
+ */
+export const getMediaTypeByMimeType = (mimeType: string): PostMediaType | undefined => {
+  return MEDIA_MIME_TYPES[mimeType];
+};
+
+/**
+ * Validate a media array from a request body
+ * @returns Error message or null if the media is valid
+ */
+export const validateMedia = (media: unknown): string | null => {
+  if (!Array.isArray(media)) {
+    return 'Media must be an array';
+  }
+
+  if (media.length > MAX_MEDIA_PER_POST) {
+    return `Telegram allows a maximum of ${MAX_MEDIA_PER_POST} media files in a single post`;
+  }
+
+  for (const item of media) {
+    if (!item || !POST_MEDIA_TYPES.includes(item.type)) {
+      return `Invalid media type. Allowed values: ${POST_MEDIA_TYPES.join(', ')}`;
+    }
+
+    try {
+      new URL(item.url);
+    } catch (e) {
+      return `Invalid media URL format: ${item.url}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Keep only known media fields from a request body
+ */
+export const normalizeMedia = (media: IPostMedia[]): IPostMedia[] => {
+  return media.map(item => ({
+    type: item.type,
+    url: item.url,
+    ...(item.fileName && { fileName: item.fileName }),
+    ...(item.mimeType && { mimeType: item.mimeType }),
+  }));
+};
+
+/**
+ * Base URL of this server for links built outside of a request (e.g. by the scheduler)
+ * Mirrors getRequestBaseUrl: API_BASE_URL in production, localhost otherwise
+ */
+export const getPublicBaseUrl = (): string => {
+  return process.env.NODE_ENV === 'production' && process.env.API_BASE_URL
+    ? process.env.API_BASE_URL.replace(/\/+$/, '')
+    : 'http://localhost:' + (process.env.PORT || 5000);
+};
+
+/**
+ * Base URL of this server for links returned from an upload request
+ * Falls back to the request host when API_BASE_URL is not configured in production
+ */
+export const getRequestBaseUrl = (req: Request): string => {
+  return process.env.NODE_ENV === 'production'
+    ? process.env.API_BASE_URL || req.protocol + '://' + req.get('host')
+    : 'http://localhost:' + (process.env.PORT || 5000);
+};
+
+/**
+ * Build a unique storage key for an uploaded file, keeping its extension
+ * @param prefix Storage folder, e.g. drafts/ (empty for the root)
+ */
+export const createUploadKey = (file: Express.Multer.File, prefix: string = ''): string => {
+  return `${prefix}${uuidv4()}${path.extname(file.originalname)}`;
+};
+
+/**
+ * Check whether a hostname belongs to this server (URLs built by the upload controller)
+ */
+export const isOwnHost = (hostname: string): boolean => {
+  if (hostname === 'localhost' || hostname === '127.0.0.1') {
+    return true;
+  }
+
+  try {
+    return !!process.env.API_BASE_URL && new URL(process.env.API_BASE_URL).hostname === hostname;
+  } catch (e) {
+    return false;
+  }
+};
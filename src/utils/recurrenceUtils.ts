@@ -0,0 +1,272 @@
+import { IPostRecurrence, RecurrenceFrequency, RECURRENCE_FREQUENCIES, RECURRENCE_WEEKDAYS } from '../models/post-recurrence.model';
+import { getServerTimeZone, getZonedDateParts, zonedDateToUtc } from './dateUtils';
+
+// Generated dates checked when looking for the next occurrence; ~27 years of a daily series
+const MAX_OCCURRENCE_SCAN = 10000;
+
+// A recurrence as sent by the client, before dtStart is known
+interface RecurrenceInput {
+  freq: string;
+  interval?: number;
+  byDay?: string[];
+  until?: string | Date | null;
+  count?: number | null;
+  exDates?: (string | Date)[];
+}
+
+/**
+ * Read a recurrence from a request body
+ * Accepts an RRULE string (e.g. "FREQ=WEEKLY;BYDAY=MO,TH;COUNT=10") or an object with the same fields
+ */
+const toRecurrenceInput = (value: unknown): RecurrenceInput | null => {
+  if (typeof value === 'string') {
+    const input: RecurrenceInput = { freq: '' };
+
+    for (const part of value.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+      const [key, ruleValue = ''] = part.split('=');
+      switch (key.toUpperCase()) {
+        case 'FREQ':
+          input.freq = ruleValue;
+          break;
+        case 'INTERVAL':
+          input.interval = Number(ruleValue);
+          break;
+        case 'BYDAY':
+          input.byDay = ruleValue.split(',');
+          break;
+        case 'UNTIL':
+          input.until = parseRRuleDate(ruleValue);
+          break;
+        case 'COUNT':
+          input.count = Number(ruleValue);
+          break;
+        default:
+          return null;
+      }
+    }
+
+    return input;
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as RecurrenceInput;
+  }
+
+  return null;
+};
+
+/**
+ * Parse an RRULE date: 20261231, 20261231T180000Z or an ISO date
+ */
+const parseRRuleDate = (value: string): Date => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return new Date(value);
+  }
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+const isValidDate = (value: unknown): boolean => {
+  return value !== undefined && value !== null && value !== '' && !isNaN(new Date(value as string).getTime());
+};
+
+/**
+ * Validate a recurrence from a request body
+ * @param dtStart Date of the first occurrence
+ * @returns Error message or null if the recurrence is valid
+ */
+export const validateRecurrence = (value: unknown, dtStart: Date): string | null => {
+  const input = toRecurrenceInput(value);
+  if (!input) {
+    return 'Recurrence must be an RRULE string or an object';
+  }
+
+  const freq = String(input.freq || '').toUpperCase() as RecurrenceFrequency;
+  if (!RECURRENCE_FREQUENCIES.includes(freq)) {
+    return `Invalid recurrence frequency. Allowed values: ${RECURRENCE_FREQUENCIES.join(', ')}`;
+  }
+
+  if (input.interval !== undefined && (!Number.isInteger(input.interval) || input.interval < 1)) {
+    return 'Recurrence interval must be a positive integer';
+  }
+
+  if (input.byDay !== undefined && input.byDay.length > 0) {
+    if (freq !== 'WEEKLY') {
+      return 'byDay is only supported for weekly recurrence';
+    }
+    if (!Array.isArray(input.byDay) || input.byDay.some(day => !RECURRENCE_WEEKDAYS.includes(String(day).toUpperCase()))) {
+      return `Invalid recurrence weekday. Allowed values: ${RECURRENCE_WEEKDAYS.join(', ')}`;
+    }
+  }
+
+  if (input.until && input.count) {
+    return 'Recurrence can end either at a date (until) or after a number of occurrences (count), not both';
+  }
+
+  if (input.until) {
+    if (!isValidDate(input.until)) {
+      return 'Invalid recurrence end date';
+    }
+    if (new Date(input.until) <= dtStart) {
+      return 'Recurrence end date must be after the scheduled date';
+    }
+  }
+
+  if (input.count !== undefined && input.count !== null && (!Number.isInteger(input.count) || input.count < 1)) {
+    return 'Recurrence count must be a positive integer';
+  }
+
+  if (input.exDates !== undefined && (!Array.isArray(input.exDates) || !input.exDates.every(isValidDate))) {
+    return 'Excluded dates must be an array of dates';
+  }
+
+  return null;
+};
+
+/**
+ * Build a recurrence from a validated request body value
+ */
+export const normalizeRecurrence = (value: unknown, dtStart: Date): IPostRecurrence => {
+  const input = toRecurrenceInput(value)!;
+
+  return {
+    freq: input.freq.toUpperCase() as RecurrenceFrequency,
+    interval: input.interval || 1,
+    byDay: (input.byDay || []).map(day => day.toUpperCase()),
+    dtStart,
+    until: input.until ? new Date(input.until) : null,
+    count: input.count || null,
+    exDates: (input.exDates || []).map(date => new Date(date)),
+  };
+};
+
+/**
+ * Dates of a recurrence in order, starting with dtStart
+ * Dates are built from calendar fields in the owner's time zone, so the time of day stays the same across DST changes
+ */
+function* generateOccurrences(recurrence: IPostRecurrence, timezone: string): Generator<Date> {
+  const start = new Date(recurrence.dtStart);
+  const interval = Math.max(recurrence.interval || 1, 1);
+  const local = getZonedDateParts(start, timezone);
+  // Seconds are not part of the wall clock time, they are carried over as is
+  const seconds = start.getTime() % (60 * 1000);
+  const atStartTime = (year: number, month: number, day: number) => new Date(
+    zonedDateToUtc({ year, month, day, hours: local.hours, minutes: local.minutes }, timezone).getTime() + seconds
+  );
+  // Calendar arithmetic is done on UTC dates, which have no DST changes
+  const toCalendarDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day));
+
+  yield start;
+
+  switch (recurrence.freq) {
+    case 'DAILY':
+      for (let days = interval; ; days += interval) {
+        yield atStartTime(local.year, local.month, local.day + days);
+      }
+
+    case 'WEEKLY': {
+      // getUTCDay() starts the week on Sunday, RRULE weeks start on Monday
+      const startWeekday = (toCalendarDate(local.year, local.month, local.day).getUTCDay() + 6) % 7;
+      const weekdays = recurrence.byDay.length > 0
+        ? recurrence.byDay.map(day => RECURRENCE_WEEKDAYS.indexOf(day)).sort((a, b) => a - b)
+        : [startWeekday];
+      const monday = local.day - startWeekday;
+
+      for (let week = 0; ; week += interval) {
+        for (const weekday of weekdays) {
+          const date = atStartTime(local.year, local.month, monday + week * 7 + weekday);
+          if (date > start) {
+            yield date;
+          }
+        }
+      }
+    }
+
+    case 'MONTHLY':
+      for (let months = interval; ; months += interval) {
+        // Months without this day (e.g. the 31st) are skipped, as in RRULE
+        if (toCalendarDate(local.year, local.month + months, local.day).getUTCDate() === local.day) {
+          yield atStartTime(local.year, local.month + months, local.day);
+        }
+      }
+  }
+}
+
+/**
+ * Check whether an occurrence falls on an excluded date
+ * Excluded dates are compared by calendar day in the owner's time zone, a series has at most one occurrence per day
+ */
+const isExcluded = (recurrence: IPostRecurrence, date: Date, timezone: string): boolean => {
+  const toDay = (value: Date) => {
+    const parts = getZonedDateParts(value, timezone);
+    return `${parts.year}-${parts.month}-${parts.day}`;
+  };
+
+  const day = toDay(date);
+  return recurrence.exDates.some(exDate => toDay(new Date(exDate)) === day);
+};
+
+/**
+ * Find the first occurrence of a recurrence after a date
+ * @param timezone IANA time zone of the series owner; the server time zone if not set
+ * @returns The date or null if the series has ended
+ */
+export const getNextOccurrence = (recurrence: IPostRecurrence, after: Date, timezone?: string | null): Date | null => {
+  const zone = timezone || getServerTimeZone();
+  let index = 0;
+
+  for (const date of generateOccurrences(recurrence, zone)) {
+    index++;
+
+    if (index > MAX_OCCURRENCE_SCAN) {
+      return null;
+    }
+    if (recurrence.count && index > recurrence.count) {
+      return null;
+    }
+    if (recurrence.until && date > recurrence.until) {
+      return null;
+    }
+    if (date > after && !isExcluded(recurrence, date, zone)) {
+      return date;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Find the occurrences of a recurrence after a date up to another one, earliest first
+ * @param limit Maximum number of occurrences returned
+ * @param timezone IANA time zone of the series owner; the server time zone if not set
+ */
+export const getOccurrencesBetween = (
+  recurrence: IPostRecurrence,
+  after: Date,
+  until: Date,
+  limit: number,
+  timezone?: string | null
+): Date[] => {
+  const zone = timezone || getServerTimeZone();
+  const dates: Date[] = [];
+  let index = 0;
+
+  for (const date of generateOccurrences(recurrence, zone)) {
+    index++;
+
+    if (index > MAX_OCCURRENCE_SCAN || dates.length >= limit || date > until) {
+      break;
+    }
+    if ((recurrence.count && index > recurrence.count) || (recurrence.until && date > recurrence.until)) {
+      break;
+    }
+    if (date > after && !isExcluded(recurrence, date, zone)) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+};
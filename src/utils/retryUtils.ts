@@ -0,0 +1,63 @@
+import { ScheduledPostStatus } from '../models/scheduled-post.model';
+
+// Maximum number of publishing attempts before a scheduled post is marked as failed
+export const MAX_PUBLISH_ATTEMPTS = 5;
+
+// First retry waits one minute, every next one doubles the delay
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+
+// Never wait longer than one hour between attempts
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Calculate the delay before the next publishing attempt
+ * @param attempt Number of attempts already made (1 for the first failure)
+ * @param retryAfterSeconds Value of `retry_after` returned by Telegram, if any
+ * @returns Delay in milliseconds
+ */
+export const calculateRetryDelay = (attempt: number, retryAfterSeconds?: number): number => {
+  const exponentialDelay = Math.min(
+    BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempt - 1, 0)),
+    MAX_RETRY_DELAY_MS
+  );
+
+  // Telegram tells us exactly how long to wait on 429 - never retry earlier than that
+  if (retryAfterSeconds && retryAfterSeconds > 0) {
+    return Math.max(exponentialDelay, retryAfterSeconds * 1000);
+  }
+
+  return exponentialDelay;
+};
+
+/**
+ * Check whether a failed Telegram request is worth retrying
+ * Rate limits, server errors and network failures (no error code) are temporary,
+ * while bad requests or missing rights will fail again until the user fixes them
+ */
+export const isRetryablePublishError = (errorCode?: number): boolean => {
+  if (!errorCode) {
+    return true;
+  }
+
+  return errorCode === 429 || errorCode >= 500;
+};
+
+/**
+ * Check whether a scheduled post can be moved to another date
+ * A post that is being published or was published keeps its date
+ */
+export const isReschedulable = (status: ScheduledPostStatus): boolean => {
+  return status !== 'publishing' && status !== 'published';
+};
+
+/**
+ * Fields that move a scheduled post to another date
+ * A failed post goes back into the queue with a fresh attempt counter,
+ * a paused one stays paused until its channel is healthy again
+ */
+export const getRescheduleUpdate = (status: ScheduledPostStatus, scheduledDate: Date) => ({
+  scheduledDate,
+  ...(status !== 'paused' && { status: 'pending' as ScheduledPostStatus }),
+  attempts: 0,
+  nextAttemptAt: null,
+});
@@ -0,0 +1,55 @@
+import Campaign from '../../src/models/campaign.model';
+import User from '../../src/models/user.model';
+import campaignService, { getStaggeredDates } from '../../src/services/campaign.service';
+import { createCampaign } from '../../src/controllers/campaign.controller';
+import { createRequest, createResponse, stubQuery } from '../helpers/mocks';
+
+const user = new User({
+  username: 'owner',
+  email: 'owner@example.com',
+  channels: ['first', 'second', 'third'].map(username => ({ username, title: username })),
+});
+
+const scheduledDate = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+const create = (stagger: Record<string, unknown>) => {
+  const res = createResponse();
+  const body = {
+    text: 'Campaign post',
+    channels: user.channels.map(channel => String(channel._id)),
+    scheduledDate: scheduledDate.toISOString(),
+    stagger,
+  };
+  return createCampaign(createRequest({ body, user }), res).then(() => res);
+};
+
+describe('createCampaign stagger', () => {
+  beforeEach(() => {
+    stubQuery(User, 'findById', user);
+    jest.spyOn(campaignService, 'create').mockImplementation(async params => new Campaign({ user: params.userId, title: params.title }));
+    jest.spyOn(campaignService, 'getReports').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the last channel inside the window with the largest jitter', async () => {
+    const res = await create({ windowMinutes: 60, jitterMinutes: 10 });
+
+    expect(res.statusCode).toBe(201);
+    const { stagger } = jest.mocked(campaignService.create).mock.calls[0][0];
+    expect(stagger).toMatchObject({ spacingMinutes: 25, jitterMinutes: 10 });
+
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const dates = getStaggeredDates(scheduledDate, 3, stagger);
+    expect(dates[2].getTime() - scheduledDate.getTime()).toBe(60 * 60 * 1000);
+  });
+
+  it('rejects a jitter larger than the spacing left in the window', async () => {
+    const res = await create({ windowMinutes: 20, jitterMinutes: 10 });
+
+    expect(res.statusCode).toBe(400);
+    expect(campaignService.create).not.toHaveBeenCalled();
+  });
+});
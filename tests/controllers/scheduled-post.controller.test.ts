@@ -0,0 +1,70 @@
+import mongoose from 'mongoose';
+import ScheduledPost, { IScheduledPost } from '../../src/models/scheduled-post.model';
+import User from '../../src/models/user.model';
+import { deleteScheduledPost, retryScheduledPost } from '../../src/controllers/scheduled-post.controller';
+import { answerQuery, createRequest, createResponse, stubQuery, stubSave } from '../helpers/mocks';
+
+const user = new User({ username: 'owner', email: 'owner@example.com' });
+
+const createPost = (fields: Partial<IScheduledPost>): IScheduledPost => {
+  return new ScheduledPost({
+    user: user._id,
+    channelId: new mongoose.Types.ObjectId().toString(),
+    text: 'Scheduled post',
+    scheduledDate: new Date('2026-10-20T09:00:00Z'),
+    ...fields,
+  });
+};
+
+describe('retryScheduledPost', () => {
+  beforeEach(() => {
+    stubSave();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('queues a failed post again without its last error and approval hold', async () => {
+    const post = createPost({
+      status: 'failed',
+      attempts: 5,
+      lastError: 'Bad Request: chat not found',
+      approval: {
+        status: 'pending_review',
+        reviewerIds: [user._id as mongoose.Types.ObjectId],
+        comments: [],
+        heldAt: new Date('2026-10-20T09:00:00Z'),
+      },
+    });
+    const findOneAndUpdate = answerQuery(ScheduledPost, 'findOneAndUpdate', (_filter, update) => post.set(update));
+    const res = createResponse();
+
+    await retryScheduledPost(createRequest({ params: { id: String(post._id) }, user }), res);
+
+    expect(res.statusCode).toBe(200);
+    expect(findOneAndUpdate.mock.calls[0][0]).toMatchObject({ status: 'failed' });
+    expect(post.status).toBe('pending');
+    expect(post.attempts).toBe(0);
+    expect(post.lastError).toBeNull();
+    expect(post.approval?.heldAt).toBeNull();
+  });
+});
+
+describe('deleteScheduledPost', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses to delete a post that is being published', async () => {
+    const post = createPost({ status: 'publishing', lockedBy: 'other-instance', lockedUntil: new Date(Date.now() + 60 * 1000) });
+    stubQuery(ScheduledPost, 'findOne', post);
+    const deleteOne = jest.spyOn(post, 'deleteOne');
+    const res = createResponse();
+
+    await deleteScheduledPost(createRequest({ params: { id: String(post._id) }, user }), res);
+
+    expect(res.statusCode).toBe(409);
+    expect(deleteOne).not.toHaveBeenCalled();
+  });
+});
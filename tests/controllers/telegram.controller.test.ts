@@ -0,0 +1,42 @@
+import telegramRateLimiter, { TelegramRateLimitMetrics } from '../../src/services/telegramRateLimiter.service';
+import { getRateLimitMetrics } from '../../src/controllers/telegram.controller';
+import { encryptBotToken } from '../../src/utils/botTokenCrypto';
+import User from '../../src/models/user.model';
+import { createRequest, createResponse } from '../helpers/mocks';
+
+const getMetrics = (channels: { username: string; botToken?: string }[]) => {
+  const user = new User({ username: 'owner', email: 'owner@example.com', channels });
+  const res = createResponse();
+
+  getRateLimitMetrics(createRequest({ user }), res, jest.fn());
+  return res.body?.data as TelegramRateLimitMetrics;
+};
+
+describe('getRateLimitMetrics', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    // Pauses are listed even without queued calls, so they stand in for the bots and chats of two tenants
+    telegramRateLimiter.pause('111', null, 60);
+    telegramRateLimiter.pause('111', '@own_channel', 60);
+    telegramRateLimiter.pause('222', null, 60);
+    telegramRateLimiter.pause('222', '@other_channel', 60);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists only the bots of the current user\'s channels', () => {
+    const data = getMetrics([
+      { username: 'own_channel', botToken: encryptBotToken('111:OWN-TOKEN') },
+      { username: 'no_bot' },
+    ]);
+
+    expect(data.bots).toHaveLength(1);
+    expect(data.bots[0]).toMatchObject({ botId: '111', chats: [{ chatId: '@own_channel' }] });
+  });
+
+  it('lists nothing for a user without channel bots', () => {
+    expect(getMetrics([])).toEqual({ queued: 0, bots: [] });
+  });
+});
@@ -0,0 +1,76 @@
+import mongoose, { FilterQuery, Model, UpdateQuery } from 'mongoose';
+import { Request, Response } from 'express';
+
+/**
+ * There is no MongoDB in the test run: the code under test runs for real and only the Mongoose calls
+ * it makes are answered by the tests
+ */
+
+// create is not a query, but it is awaited the same way and saves through $save, which stubSave does not replace
+type QueryMethod = 'find' | 'findOne' | 'findById' | 'findOneAndUpdate' | 'updateOne' | 'countDocuments' | 'deleteOne' | 'deleteMany' | 'create';
+
+/**
+ * Answer a query method of a model
+ * Queries are awaited by the code under test, so a promise of the result stands in for the query
+ * @param answer Result of the query, computed from its filter and update
+ */
+export const answerQuery = <T, K extends QueryMethod>(
+  model: Model<T>,
+  method: K,
+  answer: (filter: FilterQuery<T>, update: UpdateQuery<T>) => unknown
+) => {
+  const implementation = (filter: FilterQuery<T>, update: UpdateQuery<T>) => Promise.resolve(answer(filter, update));
+  // The only place a promise stands in for the Query type of the overloaded query methods
+  return jest.spyOn(model, method).mockImplementation(implementation as never);
+};
+
+/**
+ * Answer a query method of a model with a fixed result
+ */
+export const stubQuery = <T, K extends QueryMethod>(model: Model<T>, method: K, result: unknown) => {
+  return answerQuery(model, method, () => result);
+};
+
+/**
+ * Keep saved documents in memory instead of writing them
+ * @param saved Collects the saved documents in order
+ */
+export const stubSave = (saved: mongoose.Document[] = []) => {
+  return jest.spyOn(mongoose.Model.prototype, 'save').mockImplementation(function (this: mongoose.Document) {
+    saved.push(this);
+    return Promise.resolve(this);
+  });
+};
+
+// Body of the JSON responses of the controllers
+export interface ResponseBody {
+  success: boolean;
+  message?: string;
+  data?: unknown;
+  [field: string]: unknown;
+}
+
+export type MockResponse = Response & { body?: ResponseBody };
+
+/**
+ * Request with the fields the controllers read; the user is set by the auth middleware
+ */
+export const createRequest = (fields: Partial<Request>): Request => {
+  return { params: {}, query: {}, body: {}, ...fields } as Request;
+};
+
+/**
+ * Response that records the status and the JSON body sent by a controller
+ */
+export const createResponse = (): MockResponse => {
+  const res: Partial<MockResponse> = { statusCode: 0 };
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code;
+    return res as MockResponse;
+  });
+  res.json = jest.fn((body: ResponseBody) => {
+    res.body = body;
+    return res as MockResponse;
+  });
+  return res as MockResponse;
+};
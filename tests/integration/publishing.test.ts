@@ -0,0 +1,444 @@
+import mongoose from 'mongoose';
+import config from '../../src/config/config';
+import { FakeTelegramServer } from '../../src/utils/fakeTelegramServer';
+import ScheduledPost, { IScheduledPost } from '../../src/models/scheduled-post.model';
+import ScheduledPoll, { IScheduledPoll } from '../../src/models/scheduled-poll.model';
+import PublishedPost, { IPublishedPost } from '../../src/models/published-post.model';
+import TelegramFile from '../../src/models/telegram-file.model';
+import logger from '../../src/utils/logger';
+import User, { IUser, Frequency } from '../../src/models/user.model';
+import schedulerService from '../../src/services/scheduler.service';
+import autoPostingService from '../../src/services/autoposting.service';
+import publicationService from '../../src/services/publication.service';
+import { publishScheduledPost } from '../../src/controllers/scheduled-post.controller';
+import { answerQuery, createRequest, createResponse, stubQuery, stubSave } from '../helpers/mocks';
+
+// OpenAI is an external service; the generated text is fixed so the published content is predictable
+jest.mock('../../src/services/openai.service', () => ({
+  generateText: jest.fn(async () => 'Generated post about testing'),
+  generateImage: jest.fn(async () => {
+    throw new Error('Image generation is not available in tests');
+  }),
+}));
+
+const BOT_TOKEN = '123456:TEST-TOKEN';
+
+// The publishing code runs for real against the fake Bot API, Mongoose calls are answered from the documents of each test
+const saved: mongoose.Document[] = [];
+
+const getPublications = (): IPublishedPost[] => {
+  return saved.filter((doc): doc is IPublishedPost => doc instanceof PublishedPost);
+};
+
+// Every test publishes to its own channel, so a rate limit pause in one test does not delay another
+const createUser = (channelUsername: string): IUser => {
+  return new User({
+    username: `owner_${channelUsername}`,
+    email: `${channelUsername}@example.com`,
+    aiCredits: 10,
+    channels: [{ username: channelUsername, title: 'Test channel', botToken: BOT_TOKEN }],
+  });
+};
+
+const createPost = (user: IUser, text: string): IScheduledPost => {
+  return new ScheduledPost({
+    user: user._id,
+    channelId: user.channels[0]._id!.toString(),
+    text,
+    scheduledDate: new Date(Date.now() - 60 * 1000),
+  });
+};
+
+/**
+ * Answer the queries of the scheduler and lock service for a single due post
+ */
+const stubPostQueries = (user: IUser, post: IScheduledPost) => {
+  stubQuery(ScheduledPost, 'find', [post]);
+  stubQuery(ScheduledPost, 'findOne', post);
+  answerQuery(ScheduledPost, 'findOneAndUpdate', (_filter, update) => post.set(update.$set || {}));
+  stubQuery(ScheduledPost, 'updateOne', { modifiedCount: 1 });
+  stubQuery(User, 'findOne', user);
+  stubQuery(User, 'findById', user);
+};
+
+const createPoll = (user: IUser): IScheduledPoll => {
+  return new ScheduledPoll({
+    user: user._id,
+    channelId: user.channels[0]._id!.toString(),
+    question: 'Scheduled question?',
+    options: ['Yes', 'No'],
+    scheduledDate: new Date(Date.now() - 60 * 1000),
+  });
+};
+
+/**
+ * Answer the queries of the scheduler and lock service for a single due poll
+ */
+const stubPollQueries = (user: IUser, poll: IScheduledPoll) => {
+  stubQuery(ScheduledPoll, 'find', [poll]);
+  answerQuery(ScheduledPoll, 'findOneAndUpdate', (_filter, update) => {
+    poll.set(update.$set || {});
+    poll.attempts += update.$inc?.attempts || 0;
+    return poll;
+  });
+  stubQuery(ScheduledPoll, 'updateOne', { modifiedCount: 1 });
+  stubQuery(User, 'findOne', user);
+};
+
+const getLastRun = (user: IUser) => {
+  const history = user.autoPostingHistory || [];
+  return history[history.length - 1];
+};
+
+describe('publishing against the fake Bot API', () => {
+  const server = new FakeTelegramServer();
+  const originalApiUrl = config.telegramApiUrl;
+
+  beforeAll(async () => {
+    config.telegramApiUrl = await server.start();
+    // A query that is not answered by a test fails right away instead of waiting for a connection
+    mongoose.set('bufferCommands', false);
+    logger.silent = true;
+  });
+
+  afterAll(async () => {
+    config.telegramApiUrl = originalApiUrl;
+    logger.silent = false;
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    saved.length = 0;
+
+    for (const method of ['log', 'info', 'warn', 'error'] as const) {
+      jest.spyOn(console, method).mockImplementation(() => undefined);
+    }
+    stubSave(saved);
+    stubQuery(TelegramFile, 'findOne', null);
+    stubQuery(TelegramFile, 'updateOne', { modifiedCount: 1 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('scheduler', () => {
+    it('publishes a due post and records the publication', async () => {
+      const user = createUser('scheduler_ok');
+      const post = createPost(user, 'Scheduled hello');
+      stubPostQueries(user, post);
+
+      await schedulerService.publishDuePosts();
+
+      const calls = server.getCalls('sendMessage');
+      expect(calls).toHaveLength(1);
+      expect(calls[0].token).toBe(BOT_TOKEN);
+      expect(calls[0].params).toMatchObject({ chat_id: '@scheduler_ok', text: 'Scheduled hello' });
+
+      expect(post.status).toBe('published');
+      expect(post.published).toBe(true);
+      expect(post.attempts).toBe(1);
+      expect(post.lockedBy).toBeNull();
+
+      const [publication] = getPublications();
+      expect(publication.source).toBe('scheduled');
+      expect(publication.sourceId).toBe(String(post._id));
+      expect(publication.scheduledPostId).toBe(String(post._id));
+      expect(publication.messageIds).toEqual(calls[0].messageIds);
+    });
+
+    it('records a post scheduled from a draft with the draft as its source', async () => {
+      const user = createUser('scheduler_draft');
+      const post = createPost(user, 'From a draft');
+      post.draftId = new mongoose.Types.ObjectId().toString();
+      stubPostQueries(user, post);
+
+      await schedulerService.publishDuePosts();
+
+      const [publication] = getPublications();
+      expect(publication.source).toBe('draft');
+      expect(publication.sourceId).toBe(post.draftId);
+      expect(publication.scheduledPostId).toBe(String(post._id));
+    });
+
+    it('waits for retry_after and repeats the call when Telegram answers 429 with a short delay', async () => {
+      const user = createUser('scheduler_flood');
+      const post = createPost(user, 'Flood control');
+      stubPostQueries(user, post);
+      server.failNext({ method: 'sendMessage', errorCode: 429, description: 'Too Many Requests: retry after 1', retryAfter: 1 });
+
+      const startedAt = Date.now();
+      await schedulerService.publishDuePosts();
+
+      expect(server.getCalls('sendMessage')).toHaveLength(2);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+      expect(post.status).toBe('published');
+      expect(post.attempts).toBe(1);
+    });
+
+    it('schedules a retry no earlier than retry_after when the delay is too long to wait for', async () => {
+      const user = createUser('scheduler_flood_long');
+      const post = createPost(user, 'Long flood control');
+      stubPostQueries(user, post);
+      server.failNext({ method: 'sendMessage', errorCode: 429, description: 'Too Many Requests: retry after 120', retryAfter: 120 });
+
+      await schedulerService.publishDuePosts();
+
+      expect(server.getCalls('sendMessage')).toHaveLength(1);
+      expect(post.status).toBe('pending');
+      expect(post.published).toBe(false);
+      expect(post.lastError).toBe('Too Many Requests: retry after 120');
+      expect(post.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(Date.now() + 119 * 1000);
+      expect(getPublications()).toHaveLength(0);
+    });
+
+    it('moves a post to the failed queue on 400 without retrying', async () => {
+      const user = createUser('scheduler_bad_request');
+      const post = createPost(user, 'Bad request');
+      stubPostQueries(user, post);
+      server.failNext({ method: 'sendMessage', errorCode: 400, description: 'Bad Request: chat not found' });
+
+      await schedulerService.publishDuePosts();
+
+      expect(server.getCalls('sendMessage')).toHaveLength(1);
+      expect(post.status).toBe('failed');
+      expect(post.lastError).toBe('Bad Request: chat not found');
+      expect(post.nextAttemptAt).toBeNull();
+      expect(getPublications()).toHaveLength(0);
+    });
+
+    it('moves a post to the failed queue when the bot was kicked from the channel', async () => {
+      const user = createUser('scheduler_kicked');
+      const post = createPost(user, 'Kicked');
+      stubPostQueries(user, post);
+      server.failNext({ method: 'sendMessage', errorCode: 403, description: 'Forbidden: bot was kicked from the channel chat' });
+
+      await schedulerService.publishDuePosts();
+
+      expect(post.status).toBe('failed');
+      expect(post.lastError).toBe('Forbidden: bot was kicked from the channel chat');
+      expect(getPublications()).toHaveLength(0);
+    });
+  });
+
+  describe('scheduled polls', () => {
+    it('publishes a due poll', async () => {
+      const user = createUser('poll_ok');
+      const poll = createPoll(user);
+      stubPollQueries(user, poll);
+
+      await schedulerService.publishDuePolls();
+
+      expect(server.getCalls('sendPoll')).toHaveLength(1);
+      expect(poll.published).toBe(true);
+      expect(poll.attempts).toBe(1);
+    });
+
+    it('schedules a retry no earlier than retry_after when the delay is too long to wait for', async () => {
+      const user = createUser('poll_flood_long');
+      const poll = createPoll(user);
+      stubPollQueries(user, poll);
+      server.failNext({ method: 'sendPoll', errorCode: 429, description: 'Too Many Requests: retry after 120', retryAfter: 120 });
+
+      await schedulerService.publishDuePolls();
+
+      expect(poll.published).toBe(false);
+      expect(poll.failed).toBe(false);
+      expect(poll.lastError).toBe('Too Many Requests: retry after 120');
+      expect(poll.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(Date.now() + 119 * 1000);
+    });
+
+    it('stops retrying a poll on 400', async () => {
+      const user = createUser('poll_bad_request');
+      const poll = createPoll(user);
+      stubPollQueries(user, poll);
+      server.failNext({ method: 'sendPoll', errorCode: 400, description: 'Bad Request: chat not found' });
+
+      await schedulerService.publishDuePolls();
+
+      expect(server.getCalls('sendPoll')).toHaveLength(1);
+      expect(poll.failed).toBe(true);
+      expect(poll.lastError).toBe('Bad Request: chat not found');
+      expect(poll.nextAttemptAt).toBeNull();
+      // The next run does not pick it up again
+      expect(ScheduledPoll.find).toHaveBeenCalledWith(expect.objectContaining({ failed: { $ne: true } }));
+    });
+
+    it('stops retrying a poll after the last attempt', async () => {
+      const user = createUser('poll_last_attempt');
+      const poll = createPoll(user);
+      poll.attempts = 4;
+      stubPollQueries(user, poll);
+      server.failNext({ method: 'sendPoll', errorCode: 500, description: 'Internal Server Error' });
+
+      await schedulerService.publishDuePolls();
+
+      expect(poll.attempts).toBe(5);
+      expect(poll.failed).toBe(true);
+      expect(poll.nextAttemptAt).toBeNull();
+    });
+  });
+
+  describe('publishScheduledPost', () => {
+    const publish = async (user: IUser, post: IScheduledPost) => {
+      const req = createRequest({ params: { id: String(post._id) }, user });
+      const res = createResponse();
+      await publishScheduledPost(req, res);
+      return res;
+    };
+
+    it('publishes a post right away and records a manual publication', async () => {
+      const user = createUser('manual_ok');
+      const post = createPost(user, 'Manual hello');
+      stubPostQueries(user, post);
+
+      const res = await publish(user, post);
+
+      expect(res.statusCode).toBe(200);
+      expect(server.getCalls('sendMessage')[0].params).toMatchObject({ chat_id: '@manual_ok', text: 'Manual hello' });
+      expect(post.status).toBe('published');
+      expect(post.attempts).toBe(1);
+
+      const [publication] = getPublications();
+      expect(publication.source).toBe('manual');
+      expect(publication.sourceId).toBe(String(post._id));
+    });
+
+    it('reports a Telegram error and keeps the post unpublished', async () => {
+      const user = createUser('manual_kicked');
+      const post = createPost(user, 'Manual kicked');
+      stubPostQueries(user, post);
+      server.failNext({ method: 'sendMessage', errorCode: 403, description: 'Forbidden: bot was kicked from the channel chat' });
+
+      const res = await publish(user, post);
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body?.message).toContain('bot was kicked');
+      expect(post.published).toBe(false);
+      // A permanent error moves the post to the failed queue, as it does for the scheduler
+      expect(post.status).toBe('failed');
+      expect(post.attempts).toBe(1);
+      expect(post.lastError).toBe('Forbidden: bot was kicked from the channel chat');
+      expect(getPublications()).toHaveLength(0);
+    });
+  });
+
+  describe('AutoPostingService', () => {
+    const createRuleUser = (channelUsername: string): IUser => {
+      const user = createUser(channelUsername);
+      user.set('autoPostingRules', [{
+        name: 'Daily news',
+        topic: 'testing',
+        status: 'active',
+        frequency: Frequency.DAILY,
+        preferredTime: '09:00',
+        channelId: user.channels[0]._id!,
+        imageGeneration: false,
+        nextScheduled: new Date(Date.now() - 60 * 1000),
+      }]);
+      return user;
+    };
+
+    const stubRuleQueries = (user: IUser) => {
+      stubQuery(User, 'find', [user]);
+      stubQuery(User, 'findById', user);
+      // Claiming and releasing the rule, charging the credits
+      stubQuery(User, 'updateOne', { modifiedCount: 1 });
+    };
+
+    it('publishes generated content and schedules the next run', async () => {
+      const user = createRuleUser('autoposting_ok');
+      stubRuleQueries(user);
+      const [rule] = user.autoPostingRules!;
+
+      const processed = await autoPostingService.processDueRules();
+
+      expect(processed).toBe(1);
+      expect(server.getCalls('sendMessage')[0].params).toMatchObject({
+        chat_id: '@autoposting_ok',
+        text: 'Generated post about testing',
+      });
+      expect(rule.nextScheduled!.getTime()).toBeGreaterThan(Date.now());
+      expect(User.updateOne).toHaveBeenCalledWith(
+        { _id: user._id, aiCredits: { $gte: 1 } },
+        { $inc: { aiCredits: -1, totalCreditsUsed: 1 } }
+      );
+      // The balance is changed in the database only, so saving the user does not overwrite it
+      expect(user.aiCredits).toBe(10);
+      expect(getLastRun(user)).toMatchObject({ status: 'success' });
+
+      const [publication] = getPublications();
+      expect(publication.source).toBe('autoposting');
+      expect(publication.sourceId).toBe(String(rule._id));
+    });
+
+    it('skips the run when the credits were spent by another run in the meantime', async () => {
+      const user = createRuleUser('autoposting_no_credits');
+      stubRuleQueries(user);
+      answerQuery(User, 'updateOne', filter => ({ modifiedCount: filter.aiCredits ? 0 : 1 }));
+
+      await autoPostingService.processDueRules();
+
+      expect(server.getCalls('sendMessage')).toHaveLength(0);
+      expect(getLastRun(user)).toMatchObject({ status: 'failed', error: 'Not enough AI credits' });
+    });
+
+    it('records a failed run when Telegram rejects the post', async () => {
+      const user = createRuleUser('autoposting_bad_request');
+      stubRuleQueries(user);
+      server.failNext({ method: 'sendMessage', errorCode: 400, description: 'Bad Request: message text is empty' });
+
+      await autoPostingService.processDueRules();
+
+      expect(getLastRun(user)).toMatchObject({
+        status: 'failed',
+        error: 'Bad Request: message text is empty',
+      });
+      expect(user.autoPostingRules![0].nextScheduled!.getTime()).toBeGreaterThan(Date.now());
+      expect(getPublications()).toHaveLength(0);
+    });
+
+    it('records a failed run when the bot was kicked from the channel', async () => {
+      const user = createRuleUser('autoposting_kicked');
+      stubRuleQueries(user);
+      server.failNext({ method: 'sendMessage', errorCode: 403, description: 'Forbidden: bot was kicked from the channel chat' });
+
+      await autoPostingService.processDueRules();
+
+      expect(getLastRun(user)).toMatchObject({
+        status: 'failed',
+        error: 'Forbidden: bot was kicked from the channel chat',
+      });
+      expect(getPublications()).toHaveLength(0);
+    });
+  });
+
+  describe('publicationService.editText', () => {
+    it('keeps the preview of the first photo or video of a post with the media below the text', async () => {
+      const user = createUser('edit_preview');
+      const publication = new PublishedPost({
+        user: user._id,
+        channelId: user.channels[0]._id!.toString(),
+        channelUsername: 'edit_preview',
+        chatId: '@edit_preview',
+        messageIds: [1],
+        messages: [{ messageId: 1, type: 'text', role: 'main' }],
+        text: 'Original text',
+        media: [
+          { type: 'document', url: 'https://example.com/report.pdf' },
+          { type: 'video', url: 'https://example.com/clip.mp4' },
+        ],
+        imagePosition: 'bottom',
+        source: 'manual',
+      });
+
+      const result = await publicationService.editText(publication, BOT_TOKEN, 'Edited text');
+
+      expect(result.success).toBe(true);
+      const [call] = server.getCalls('editMessageText');
+      expect(call.params.link_preview_options).toMatchObject({ url: 'https://example.com/clip.mp4' });
+      expect(publication.text).toBe('Edited text');
+    });
+  });
+});
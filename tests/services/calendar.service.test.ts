@@ -0,0 +1,139 @@
+import mongoose from 'mongoose';
+import ScheduledPost, { IScheduledPost, ScheduledPostStatus } from '../../src/models/scheduled-post.model';
+import User, { Frequency, IUser } from '../../src/models/user.model';
+import calendarService from '../../src/services/calendar.service';
+import { answerQuery, stubQuery, stubSave } from '../helpers/mocks';
+
+const user = new User({ username: 'owner', email: 'owner@example.com' }) as IUser;
+
+const createPost = (status: ScheduledPostStatus): IScheduledPost => {
+  return new ScheduledPost({
+    user: user._id,
+    channelId: new mongoose.Types.ObjectId().toString(),
+    text: 'Calendar post',
+    scheduledDate: new Date('2026-10-20T09:00:00Z'),
+    status,
+    attempts: 2,
+  });
+};
+
+const reschedule = (post: IScheduledPost) => {
+  stubQuery(ScheduledPost, 'findOne', post);
+  return calendarService.reschedule(user, { type: 'post', id: String(post._id), date: new Date('2026-10-21T09:00:00Z') });
+};
+
+describe('calendarService.reschedule', () => {
+  beforeEach(() => {
+    stubSave();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('puts a failed post back into the queue', async () => {
+    const post = createPost('failed');
+
+    const result = await reschedule(post);
+
+    expect(result.success).toBe(true);
+    expect(post.status).toBe('pending');
+    expect(post.attempts).toBe(0);
+    expect(post.scheduledDate).toEqual(new Date('2026-10-21T09:00:00Z'));
+  });
+
+  it('keeps a paused post paused', async () => {
+    const post = createPost('paused');
+
+    const result = await reschedule(post);
+
+    expect(result.success).toBe(true);
+    expect(post.status).toBe('paused');
+    expect(post.scheduledDate).toEqual(new Date('2026-10-21T09:00:00Z'));
+  });
+
+  it('refuses to move a post that is being published', async () => {
+    const post = createPost('publishing');
+
+    const result = await reschedule(post);
+
+    expect(result).toEqual({ success: false, status: 409, message: 'Scheduled post is being published and cannot be rescheduled' });
+    expect(post.scheduledDate).toEqual(new Date('2026-10-20T09:00:00Z'));
+    expect(mongoose.Model.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 for an ID that is not an ObjectId', async () => {
+    const findOne = jest.spyOn(ScheduledPost, 'findOne');
+
+    const result = await calendarService.reschedule(user, { type: 'post', id: 'not-an-id', date: new Date() });
+
+    expect(result).toMatchObject({ success: false, status: 404 });
+    expect(findOne).not.toHaveBeenCalled();
+  });
+});
+
+describe('calendarService.reschedule of an autoposting run', () => {
+  const nextScheduled = new Date('2026-10-20T09:00:00Z');
+  const movedTo = new Date('2026-10-20T12:00:00Z');
+
+  const createRuleOwner = (lockedUntil: Date | null): IUser => {
+    return new User({
+      username: 'autoposter',
+      email: 'autoposter@example.com',
+      autoPostingRules: [{
+        name: 'Daily news',
+        topic: 'News',
+        frequency: Frequency.DAILY,
+        channelId: new mongoose.Types.ObjectId().toString(),
+        nextScheduled,
+        lockedBy: lockedUntil ? 'other-instance' : null,
+        lockedUntil,
+      }],
+    });
+  };
+
+  // Answers the conditional update like MongoDB would for the rule lease in memory
+  const answerRuleUpdate = (owner: IUser) => {
+    return answerQuery(User, 'updateOne', () => {
+      const lockedUntil = owner.autoPostingRules![0].lockedUntil;
+      return { modifiedCount: lockedUntil && lockedUntil > new Date() ? 0 : 1 };
+    });
+  };
+
+  const reschedule = (owner: IUser) => {
+    return calendarService.reschedule(owner, { type: 'autoposting', id: String(owner.autoPostingRules![0]._id), date: movedTo });
+  };
+
+  beforeEach(() => {
+    stubSave();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('moves the next run of an idle rule without saving the whole user', async () => {
+    const owner = createRuleOwner(null);
+    const updateOne = answerRuleUpdate(owner);
+
+    const result = await reschedule(owner);
+
+    expect(result.success).toBe(true);
+    expect(owner.autoPostingRules![0].nextScheduled).toEqual(movedTo);
+    expect(updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ autoPostingRules: { $elemMatch: expect.objectContaining({ $or: [{ lockedUntil: null }, { lockedUntil: { $lte: expect.any(Date) } }] }) } }),
+      { $set: { 'autoPostingRules.$.nextScheduled': movedTo } }
+    );
+    expect(mongoose.Model.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('refuses to move the run of a rule that is running', async () => {
+    const owner = createRuleOwner(new Date(Date.now() + 60 * 1000));
+    answerRuleUpdate(owner);
+
+    const result = await reschedule(owner);
+
+    expect(result).toEqual({ success: false, status: 409, message: 'Autoposting rule is running and its next run cannot be moved' });
+    expect(owner.autoPostingRules![0].nextScheduled).toEqual(nextScheduled);
+  });
+});
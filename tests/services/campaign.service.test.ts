@@ -0,0 +1,41 @@
+import mongoose from 'mongoose';
+import Campaign from '../../src/models/campaign.model';
+import ScheduledPost from '../../src/models/scheduled-post.model';
+import User from '../../src/models/user.model';
+import campaignService from '../../src/services/campaign.service';
+import { stubQuery } from '../helpers/mocks';
+
+const user = new User({
+  username: 'owner',
+  email: 'owner@example.com',
+  channels: [{ username: 'first', title: 'First' }, { username: 'second', title: 'Second' }],
+});
+
+describe('campaignService.create', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('deletes the campaign and its posts when the posts cannot be inserted', async () => {
+    const campaign = new Campaign({ user: user._id, title: 'Launch' });
+    stubQuery(Campaign, 'create', campaign);
+    jest.spyOn(ScheduledPost, 'insertMany').mockRejectedValue(new Error('E11000 duplicate key error'));
+    const deletePosts = stubQuery(ScheduledPost, 'deleteMany', { deletedCount: 1 });
+    const deleteCampaign = stubQuery(Campaign, 'deleteOne', { deletedCount: 1 });
+
+    await expect(campaignService.create({
+      userId: user._id as mongoose.Types.ObjectId,
+      title: 'Launch',
+      content: { text: 'Campaign post' },
+      targets: user.channels.map(channel => ({ channel })),
+      scheduledDate: new Date('2026-10-20T09:00:00Z'),
+    })).rejects.toThrow('E11000 duplicate key error');
+
+    expect(deleteCampaign).toHaveBeenCalledWith({ _id: campaign._id });
+    expect(deletePosts).toHaveBeenCalledWith({ campaignId: campaign._id });
+  });
+});
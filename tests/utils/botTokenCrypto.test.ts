@@ -0,0 +1,51 @@
+type BotTokenCrypto = typeof import('../../src/utils/botTokenCrypto');
+
+/**
+ * Load the module with other environment variables: the configuration and the keys are read once on import
+ */
+const loadModule = (env: Record<string, string>): BotTokenCrypto => {
+  const original = { ...process.env };
+  Object.assign(process.env, env);
+
+  try {
+    let loaded: BotTokenCrypto | undefined;
+    jest.isolateModules(() => {
+      loaded = require('../../src/utils/botTokenCrypto');
+    });
+    return loaded!;
+  } finally {
+    process.env = original;
+  }
+};
+
+describe('botTokenCrypto key loading', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses to start in production without BOT_TOKEN_ENCRYPTION_KEYS', () => {
+    expect(() => loadModule({ NODE_ENV: 'production', BOT_TOKEN_ENCRYPTION_KEYS: '' }))
+      .toThrow('BOT_TOKEN_ENCRYPTION_KEYS must be set in production');
+  });
+
+  it('derives a development key from JWT_SECRET outside production', () => {
+    const crypto = loadModule({ NODE_ENV: 'development', BOT_TOKEN_ENCRYPTION_KEYS: '', JWT_SECRET: 'secret' });
+
+    const encrypted = crypto.encryptBotToken('123456:SECRET');
+    expect(encrypted.startsWith('enc:jwt:')).toBe(true);
+    expect(crypto.decryptBotToken(encrypted)).toBe('123456:SECRET');
+  });
+
+  it('uses the configured keys in production', () => {
+    const key = Buffer.alloc(32, 1).toString('base64');
+    const crypto = loadModule({ NODE_ENV: 'production', BOT_TOKEN_ENCRYPTION_KEYS: `k1:${key}` });
+
+    const encrypted = crypto.encryptBotToken('123456:SECRET');
+    expect(encrypted.startsWith('enc:k1:')).toBe(true);
+    expect(crypto.decryptBotToken(encrypted)).toBe('123456:SECRET');
+  });
+});
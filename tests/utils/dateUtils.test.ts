@@ -0,0 +1,148 @@
+import { Frequency } from '../../src/models/user.model';
+import { calculateNextScheduledDate, zonedDateToUtc } from '../../src/utils/dateUtils';
+
+// DST changes in 2026:
+// Europe/Berlin     - 03-29 02:00 CET -> 03:00 CEST (gap), 10-25 03:00 CEST -> 02:00 CET (overlap)
+// America/New_York  - 03-08 02:00 EST -> 03:00 EDT (gap), 11-01 02:00 EDT -> 01:00 EST (overlap)
+
+describe('zonedDateToUtc', () => {
+  it.each([
+    ['Europe/Berlin', { year: 2026, month: 2, day: 28, hours: 2, minutes: 30 }, '2026-03-28T01:30:00.000Z'],
+    ['Europe/Berlin', { year: 2026, month: 2, day: 30, hours: 2, minutes: 30 }, '2026-03-30T00:30:00.000Z'],
+    ['America/New_York', { year: 2026, month: 2, day: 7, hours: 2, minutes: 30 }, '2026-03-07T07:30:00.000Z'],
+    ['America/New_York', { year: 2026, month: 2, day: 9, hours: 2, minutes: 30 }, '2026-03-09T06:30:00.000Z'],
+  ])('converts a wall clock time in %s away from DST changes', (timezone, parts, expected) => {
+    expect(zonedDateToUtc(parts, timezone).toISOString()).toBe(expected);
+  });
+
+  it.each([
+    // 02:30 does not exist, the time is moved forward by the gap to 03:30 summer time
+    ['Europe/Berlin', { year: 2026, month: 2, day: 29, hours: 2, minutes: 30 }, '2026-03-29T01:30:00.000Z'],
+    ['America/New_York', { year: 2026, month: 2, day: 8, hours: 2, minutes: 30 }, '2026-03-08T07:30:00.000Z'],
+  ])('moves a time skipped by the DST gap in %s forward', (timezone, parts, expected) => {
+    expect(zonedDateToUtc(parts, timezone).toISOString()).toBe(expected);
+  });
+
+  it.each([
+    // 02:30 in Berlin and 01:30 in New York occur twice, the first one (summer time) is used
+    ['Europe/Berlin', { year: 2026, month: 9, day: 25, hours: 2, minutes: 30 }, '2026-10-25T00:30:00.000Z'],
+    ['America/New_York', { year: 2026, month: 10, day: 1, hours: 1, minutes: 30 }, '2026-11-01T05:30:00.000Z'],
+  ])('resolves a time repeated by the DST overlap in %s to its first occurrence', (timezone, parts, expected) => {
+    expect(zonedDateToUtc(parts, timezone).toISOString()).toBe(expected);
+  });
+
+  it('rolls over days out of range', () => {
+    expect(zonedDateToUtc({ year: 2026, month: 9, day: 32, hours: 9, minutes: 0 }, 'Europe/Berlin').toISOString())
+      .toBe('2026-11-01T08:00:00.000Z');
+  });
+});
+
+describe('calculateNextScheduledDate across DST changes', () => {
+  const next = (frequency: Frequency, timezone: string, preferredTime: string, now: string, preferredDays?: string[]) => {
+    return calculateNextScheduledDate({ frequency, timezone, preferredTime, preferredDays, now: new Date(now) }).toISOString();
+  };
+
+  describe('daily', () => {
+    it.each([
+      // Spring: the next day is in summer time, 09:00 keeps its wall clock time
+      ['Europe/Berlin', '09:00', '2026-03-28T10:00:00Z', '2026-03-29T07:00:00.000Z'],
+      ['America/New_York', '09:00', '2026-03-07T15:00:00Z', '2026-03-08T13:00:00.000Z'],
+      // Autumn: the next day is in winter time
+      ['Europe/Berlin', '09:00', '2026-10-24T08:00:00Z', '2026-10-25T08:00:00.000Z'],
+      ['America/New_York', '09:00', '2026-10-31T14:00:00Z', '2026-11-01T14:00:00.000Z'],
+    ])('keeps the wall clock time in %s (%s after %s)', (timezone, time, now, expected) => {
+      expect(next(Frequency.DAILY, timezone, time, now)).toBe(expected);
+    });
+
+    it.each([
+      ['Europe/Berlin', '02:30', '2026-03-28T12:00:00Z', '2026-03-29T01:30:00.000Z'],
+      ['America/New_York', '02:30', '2026-03-07T17:00:00Z', '2026-03-08T07:30:00.000Z'],
+    ])('runs a time skipped by the DST gap in %s an hour later', (timezone, time, now, expected) => {
+      expect(next(Frequency.DAILY, timezone, time, now)).toBe(expected);
+    });
+
+    it.each([
+      ['Europe/Berlin', '02:30', '2026-10-24T12:00:00Z', '2026-10-25T00:30:00.000Z'],
+      ['America/New_York', '01:30', '2026-10-31T16:00:00Z', '2026-11-01T05:30:00.000Z'],
+    ])('runs a time repeated by the DST overlap in %s once, at its first occurrence', (timezone, time, now, expected) => {
+      expect(next(Frequency.DAILY, timezone, time, now)).toBe(expected);
+    });
+
+    it('runs once the day after a repeated time that has just passed', () => {
+      // 01:45 EST on 2026-11-01: the second 01:30 of the overlap does not count as another run
+      expect(next(Frequency.DAILY, 'America/New_York', '01:30', '2026-11-01T06:45:00Z')).toBe('2026-11-02T06:30:00.000Z');
+    });
+  });
+
+  describe('weekly', () => {
+    it.each([
+      // Friday before the spring change -> Monday in summer time
+      ['Europe/Berlin', ['monday'], '09:00', '2026-03-27T12:00:00Z', '2026-03-30T07:00:00.000Z'],
+      ['America/New_York', ['monday'], '09:00', '2026-03-06T17:00:00Z', '2026-03-09T13:00:00.000Z'],
+      // Friday before the autumn change -> Monday in winter time
+      ['Europe/Berlin', ['monday'], '09:00', '2026-10-23T12:00:00Z', '2026-10-26T08:00:00.000Z'],
+      ['America/New_York', ['monday'], '10:00', '2026-10-30T16:00:00Z', '2026-11-02T15:00:00.000Z'],
+    ])('keeps the wall clock time in %s (%s %s after %s)', (timezone, days, time, now, expected) => {
+      expect(next(Frequency.WEEKLY, timezone, time, now, days)).toBe(expected);
+    });
+
+    it.each([
+      ['Europe/Berlin', '02:30', '2026-03-27T12:00:00Z', '2026-03-29T01:30:00.000Z'],
+      ['America/New_York', '02:30', '2026-03-06T17:00:00Z', '2026-03-08T07:30:00.000Z'],
+    ])('runs a Sunday time skipped by the DST gap in %s an hour later', (timezone, time, now, expected) => {
+      expect(next(Frequency.WEEKLY, timezone, time, now, ['sunday'])).toBe(expected);
+    });
+
+    it.each([
+      ['Europe/Berlin', '02:30', '2026-10-23T12:00:00Z', '2026-10-25T00:30:00.000Z'],
+      ['America/New_York', '01:30', '2026-10-30T16:00:00Z', '2026-11-01T05:30:00.000Z'],
+    ])('runs a Sunday time repeated by the DST overlap in %s at its first occurrence', (timezone, time, now, expected) => {
+      expect(next(Frequency.WEEKLY, timezone, time, now, ['sunday'])).toBe(expected);
+    });
+  });
+});
+
+describe('calculateNextScheduledDate with quiet hours', () => {
+  const quietHours = { start: '11:00', end: '13:00' };
+
+  it('publishes when quiet hours end on the next preferred day when every slot is in them', () => {
+    // Monday 2026-10-19 12:00 in Berlin, today's slot has just passed
+    const date = calculateNextScheduledDate({
+      frequency: Frequency.WEEKLY,
+      preferredTime: '12:00',
+      preferredDays: ['monday'],
+      timezone: 'Europe/Berlin',
+      quietHours,
+      now: new Date('2026-10-19T10:00:00Z'),
+    });
+
+    // Monday 2026-10-26 13:00 CET, not Tuesday
+    expect(date.toISOString()).toBe('2026-10-26T12:00:00.000Z');
+  });
+
+  it('publishes when quiet hours end today when today is a preferred day and its slot is ahead', () => {
+    const date = calculateNextScheduledDate({
+      frequency: Frequency.WEEKLY,
+      preferredTime: '12:00',
+      preferredDays: ['monday'],
+      timezone: 'Europe/Berlin',
+      quietHours,
+      now: new Date('2026-10-19T06:00:00Z'),
+    });
+
+    // Monday 2026-10-19 13:00 CEST
+    expect(date.toISOString()).toBe('2026-10-19T11:00:00.000Z');
+  });
+
+  it('publishes daily rules when quiet hours end the next day', () => {
+    const date = calculateNextScheduledDate({
+      frequency: Frequency.DAILY,
+      preferredTime: '12:00',
+      timezone: 'Europe/Berlin',
+      quietHours,
+      now: new Date('2026-10-19T10:00:00Z'),
+    });
+
+    expect(date.toISOString()).toBe('2026-10-20T11:00:00.000Z');
+  });
+});
@@ -0,0 +1,70 @@
+import { IPostRecurrence } from '../../src/models/post-recurrence.model';
+import { getNextOccurrence, getOccurrencesBetween } from '../../src/utils/recurrenceUtils';
+
+const recurrence = (fields: Partial<IPostRecurrence> & Pick<IPostRecurrence, 'freq' | 'dtStart'>): IPostRecurrence => ({
+  interval: 1,
+  byDay: [],
+  until: null,
+  count: null,
+  exDates: [],
+  ...fields,
+});
+
+const toIsoStrings = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('recurrence occurrences in the owner\'s time zone', () => {
+  it('keeps a daily series at the same Berlin wall clock time across the spring DST change', () => {
+    // 09:00 CET on Saturday 2026-03-28, clocks go forward on Sunday 2026-03-29
+    const series = recurrence({ freq: 'DAILY', dtStart: new Date('2026-03-28T08:00:00Z') });
+
+    const dates = getOccurrencesBetween(series, series.dtStart, new Date('2026-03-31T00:00:00Z'), 10, 'Europe/Berlin');
+
+    expect(toIsoStrings(dates)).toEqual([
+      '2026-03-29T07:00:00.000Z', // 09:00 CEST
+      '2026-03-30T07:00:00.000Z',
+    ]);
+  });
+
+  it('keeps a weekly series at the same New York wall clock time across the autumn DST change', () => {
+    // Mondays and Thursdays at 18:30 EDT, clocks go back on Sunday 2026-11-01
+    const series = recurrence({ freq: 'WEEKLY', byDay: ['MO', 'TH'], dtStart: new Date('2026-10-26T22:30:00Z') });
+
+    const dates = getOccurrencesBetween(series, series.dtStart, new Date('2026-11-06T00:00:00Z'), 10, 'America/New_York');
+
+    expect(toIsoStrings(dates)).toEqual([
+      '2026-10-29T22:30:00.000Z', // Thursday 18:30 EDT
+      '2026-11-02T23:30:00.000Z', // Monday 18:30 EST
+      '2026-11-05T23:30:00.000Z',
+    ]);
+  });
+
+  it('uses the weekday of dtStart in the owner\'s time zone, not in UTC', () => {
+    // Friday 2026-10-23 21:00 in New York is already Saturday in UTC
+    const series = recurrence({ freq: 'WEEKLY', dtStart: new Date('2026-10-24T01:00:00Z') });
+
+    expect(getNextOccurrence(series, series.dtStart, 'America/New_York')!.toISOString()).toBe('2026-10-31T01:00:00.000Z');
+  });
+
+  it('skips months without the day of dtStart', () => {
+    // The 31st at 12:00 in Berlin
+    const series = recurrence({ freq: 'MONTHLY', dtStart: new Date('2026-08-31T10:00:00Z') });
+
+    const dates = getOccurrencesBetween(series, series.dtStart, new Date('2027-01-01T00:00:00Z'), 10, 'Europe/Berlin');
+
+    expect(toIsoStrings(dates)).toEqual([
+      '2026-10-31T11:00:00.000Z', // 12:00 CET after the DST change
+      '2026-12-31T11:00:00.000Z',
+    ]);
+  });
+
+  it('matches excluded dates by calendar day in the owner\'s time zone', () => {
+    // Daily at 23:30 in New York, which is the next day in UTC
+    const series = recurrence({
+      freq: 'DAILY',
+      dtStart: new Date('2026-10-20T03:30:00Z'),
+      exDates: [new Date('2026-10-21T03:30:00Z')],
+    });
+
+    expect(getNextOccurrence(series, series.dtStart, 'America/New_York')!.toISOString()).toBe('2026-10-22T03:30:00.000Z');
+  });
+});